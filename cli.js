@@ -0,0 +1,269 @@
+#!/usr/bin/env node
+// Headless reviews for CI. `code-amplifier review <path>` reviews every file
+// below a directory with the same analysis core as server.js, writes SARIF,
+// JSON, JUnit XML or Markdown reports and exits with 0 when the gate passes,
+// 1 when it fails and 2 when the review could not be completed.
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { parseArgs } from "node:util";
+import { loadConfig } from "./server/config.js";
+import { createProvider } from "./server/providers/index.js";
+import { createResultCache } from "./server/analysis/cache.js";
+import { createProjectStore } from "./server/analysis/project.js";
+import { createReviewer } from "./server/analysis/reviewer.js";
+import { globToRegExp, normalizeRules, resolveProfile } from "./server/analysis/profiles.js";
+import { SEVERITIES } from "./server/analysis/schema.js";
+import { runCode } from "./server/execution/runner.js";
+import { readDirectory } from "./server/sources/directory.js";
+import { isRepository, readRepository } from "./server/sources/git.js";
+import { REPORT_FORMATS, evaluateGate } from "./server/reports/index.js";
+
+const CONFIG_FILE_NAME = ".codeamplifier.json";
+
+const EXIT_PASSED = 0;
+const EXIT_GATE_FAILED = 1;
+const EXIT_ERROR = 2;
+
+const USAGE = `Usage: code-amplifier review <path> [options]
+
+Reviews every file below <path>. In a git working tree, files the repository
+ignores are skipped. The model and analyzers are configured through the same
+environment variables as the server (LLM_PROVIDER, LLM_MODEL, ...).
+
+Options:
+  --ref <ref>            Review the files of a commit, branch or tag (git only)
+  --profile <id>         Review profile; overrides the one in ${CONFIG_FILE_NAME}
+  --include <globs>      Only review matching paths (comma-separated)
+  --exclude <globs>      Skip matching paths and directories (comma-separated)
+  --concurrency <n>      Files reviewed in parallel (default 2)
+  --sarif <file>         Write a SARIF 2.1.0 report ("-" for stdout)
+  --json <file>          Write a JSON report
+  --junit <file>         Write a JUnit XML report
+  --markdown <file>      Write a Markdown report (the default, to stdout)
+  --min-score <n>        Fail when a file scores below n (0-100)
+  --fail-on <severity>   Fail on findings of this severity or worse
+                         (${SEVERITIES.join(", ")})
+  -h, --help             Show this help
+
+Exit codes: 0 passed, 1 the gate failed, 2 the review could not be completed.`;
+
+function parseOptions(argv) {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      ref: { type: "string" },
+      profile: { type: "string" },
+      include: { type: "string", default: "" },
+      exclude: { type: "string", default: "" },
+      concurrency: { type: "string", default: "2" },
+      sarif: { type: "string" },
+      json: { type: "string" },
+      junit: { type: "string" },
+      markdown: { type: "string" },
+      "min-score": { type: "string" },
+      "fail-on": { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+  if (values.help) return { help: true };
+
+  const [command, path, ...rest] = positionals;
+  if (command !== "review") throw new Error(command ? `Unknown command "${command}"` : "A command is required");
+  if (!path || rest.length) throw new Error("Exactly one path to review is required");
+
+  const minScore = values["min-score"] === undefined ? null : Number(values["min-score"]);
+  if (minScore !== null && !(Number.isFinite(minScore) && minScore >= 0 && minScore <= 100)) {
+    throw new Error("--min-score must be a number from 0 to 100");
+  }
+  const failOn = values["fail-on"]?.toLowerCase() ?? null;
+  if (failOn !== null && !SEVERITIES.includes(failOn)) {
+    throw new Error(`--fail-on must be one of ${SEVERITIES.join(", ")}`);
+  }
+  const concurrency = Number(values.concurrency);
+  if (!Number.isInteger(concurrency) || concurrency < 1) throw new Error("--concurrency must be a positive integer");
+
+  const outputs = Object.keys(REPORT_FORMATS)
+    .filter((format) => values[format] !== undefined)
+    .map((format) => ({ format, target: values[format] }));
+  if (outputs.filter((output) => output.target === "-").length > 1) {
+    throw new Error("Only one report can be written to stdout");
+  }
+
+  const globs = (text) => text.split(",").map((glob) => glob.trim()).filter(Boolean).map(globToRegExp);
+  return {
+    path,
+    ref: values.ref,
+    profile: values.profile,
+    include: globs(values.include),
+    exclude: globs(values.exclude),
+    concurrency,
+    gate: { minScore, failOn },
+    outputs: outputs.length ? outputs : [{ format: "markdown", target: "-" }],
+  };
+}
+
+// Excludes also match any directory above the file
+const isExcluded = (path, exclude) => {
+  const parts = path.split("/");
+  return parts.some((_, index) => exclude.some((pattern) => pattern.test(parts.slice(0, index + 1).join("/"))));
+};
+
+// Profile and rules from a .codeamplifier.json at the root, which is not reviewed itself
+function readProjectConfig(files, profileOverride) {
+  const file = files.find((entry) => entry.path === CONFIG_FILE_NAME);
+  let value = {};
+  if (file) {
+    try {
+      value = JSON.parse(file.content);
+    } catch (error) {
+      throw new Error(`${CONFIG_FILE_NAME} is not valid JSON: ${error.message}`);
+    }
+  }
+  try {
+    return { profile: resolveProfile(profileOverride ?? value?.profile), rules: normalizeRules(value?.rules) };
+  } catch (error) {
+    throw new Error(file && !profileOverride ? `${CONFIG_FILE_NAME}: ${error.message}` : error.message);
+  }
+}
+
+// Runs `task` over `items` with at most `limit` in flight, keeping their order
+async function mapConcurrently(items, limit, task) {
+  const results = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+async function writeReport(target, text) {
+  if (target === "-") {
+    await new Promise((resolve) => process.stdout.write(text, resolve));
+    return;
+  }
+  await mkdir(dirname(target), { recursive: true });
+  await writeFile(target, text);
+}
+
+async function review(options) {
+  const config = loadConfig();
+  const provider = createProvider(config.llm);
+  const cache = await createResultCache(config.cache);
+  const projects = createProjectStore();
+
+  // Verification runs are limited like the server's, but never skipped for being busy
+  let activeRuns = 0;
+  const waiting = [];
+  const run = async (language, source) => {
+    if (activeRuns < config.runner.maxConcurrent) activeRuns++;
+    else await new Promise((resolve) => waiting.push(resolve));
+    try {
+      return await runCode({ language, source }, config.runner);
+    } finally {
+      // A finished run hands its slot straight to the next one waiting
+      const next = waiting.shift();
+      if (next) next();
+      else activeRuns--;
+    }
+  };
+  const reviewer = createReviewer({ config, provider, cache, projects, run });
+
+  const limits = { ...config.repository, roots: [] };
+  let source;
+  if (await isRepository(options.path)) source = await readRepository(options.path, { ref: options.ref }, limits);
+  else if (options.ref) throw new Error(`--ref needs a git repository, and ${options.path} is not one`);
+  else source = await readDirectory(options.path, limits);
+  const settings = readProjectConfig(source.files, options.profile);
+
+  const skipped = [...source.skipped];
+  const files = [];
+  for (const file of source.files) {
+    // Like the uploader, .gitignore files are not reviewed
+    if (file.path === CONFIG_FILE_NAME || file.path.split("/").pop() === ".gitignore") continue;
+    if (isExcluded(file.path, options.exclude) || (options.include.length && !options.include.some((pattern) => pattern.test(file.path)))) {
+      skipped.push({ path: file.path, reason: "excluded" });
+      continue;
+    }
+    files.push({ path: file.path, content: file.content, extension: file.path.includes(".") ? file.path.split(".").pop() : "" });
+  }
+  if (!files.length) throw new Error(`No files to review below ${source.root}`);
+
+  const project = projects.create(files);
+  let done = 0;
+  const results = await mapConcurrently(files, options.concurrency, async (file) => {
+    const startedAt = Date.now();
+    let entry;
+    try {
+      const analysis = await reviewer.reviewFile(file, project.id, settings);
+      entry = {
+        path: file.path,
+        score: analysis.score,
+        summary: analysis.result,
+        findings: analysis.findings,
+        cached: !!analysis.cached,
+        ...(analysis.verification && { verification: analysis.verification }),
+        timeMs: Date.now() - startedAt,
+      };
+    } catch (error) {
+      entry = { path: file.path, error: error.message || String(error), timeMs: Date.now() - startedAt };
+    }
+    done++;
+    console.error(`[${done}/${files.length}] ${file.path}: ${entry.error ? `error: ${entry.error}` : entry.score}`);
+    return entry;
+  });
+  await cache.flush();
+
+  const report = {
+    version: reviewer.version,
+    createdAt: new Date().toISOString(),
+    root: source.root,
+    commit: source.commit ?? null,
+    provider: provider.name,
+    model: provider.model,
+    profile: { id: settings.profile.id, name: settings.profile.name },
+    files: results,
+    skipped,
+    gate: { ...options.gate, failures: evaluateGate(results, options.gate) },
+  };
+  for (const { format, target } of options.outputs) await writeReport(target, REPORT_FORMATS[format](report));
+
+  const errors = results.filter((entry) => entry.error).length;
+  if (errors) {
+    console.error(`${errors} of ${results.length} files could not be reviewed`);
+    return EXIT_ERROR;
+  }
+  if (report.gate.failures.length) {
+    console.error(`Gate failed for ${report.gate.failures.length} of ${results.length} files`);
+    return EXIT_GATE_FAILED;
+  }
+  return EXIT_PASSED;
+}
+
+async function main(argv) {
+  let options;
+  try {
+    options = parseOptions(argv);
+  } catch (error) {
+    console.error(`${error.message}\n\n${USAGE}`);
+    return EXIT_ERROR;
+  }
+  if (options.help) {
+    console.log(USAGE);
+    return EXIT_PASSED;
+  }
+
+  try {
+    return await review(options);
+  } catch (error) {
+    console.error(`Error: ${error.message || error}`);
+    return EXIT_ERROR;
+  }
+}
+
+// Exits explicitly, since analyzers such as Pyodide keep the event loop alive
+process.exit(await main(process.argv.slice(2)));
@@ -1,109 +1,365 @@
 import express from "express";
-import axios from "axios";
 import cors from "cors";
+import { loadConfig } from "./server/config.js";
+import { createProvider } from "./server/providers/index.js";
+import {
+  CHAT_SYSTEM_PROMPT,
+  analyzeProject,
+  buildChatPrompt,
+  complete,
+  generateTests,
+} from "./server/analysis/analyzer.js";
+import { createResultCache } from "./server/analysis/cache.js";
+import { createProjectStore } from "./server/analysis/project.js";
+import { createReviewer } from "./server/analysis/reviewer.js";
+import { normalizeChange } from "./server/analysis/changes.js";
+import { BUILT_IN_PROFILES, normalizeRules, resolveProfile } from "./server/analysis/profiles.js";
+import { SUPPORTED_LANGUAGES, runCode } from "./server/execution/runner.js";
+import { runTests, testSetupFor } from "./server/execution/tests.js";
+import { readChange, readRepository } from "./server/sources/git.js";
+
+const config = loadConfig();
 
 const app = express();
-app.use(cors());
-app.use(express.json());
+// Browsers send an Origin header; pages from other sites are turned away before
+// any route runs. Requests without one (curl, scripts) are not affected.
+app.use((req, res, next) => {
+  const origin = req.headers.origin;
+  if (origin && !config.allowedOrigins.includes(origin)) return res.status(403).json({ error: `Origin not allowed: ${origin}` });
+  next();
+});
+app.use(cors({ origin: config.allowedOrigins }));
+app.use(express.json({ limit: "10mb" }));
+
+const PORT = config.port;
+
+// LLM provider configuration (see server/config.js for the supported variables)
+const provider = createProvider(config.llm);
+
+// Finished analyses keyed by content, context, model and prompt version
+const cache = await createResultCache(config.cache);
+
+// Uploaded projects, so per-file reviews can include related code from other files
+const projects = createProjectStore();
+
+// Programs running in the sandbox, for /run and for verifying corrections
+let activeRuns = 0;
+
+// Verification runs share the runner's limit; when it is busy the run check is skipped
+async function runForVerification(language, source) {
+  if (activeRuns >= config.runner.maxConcurrent) return null;
+  activeRuns++;
+  try {
+    return await runCode({ language, source }, config.runner);
+  } finally {
+    activeRuns--;
+  }
+}
 
-const PORT = process.env.PORT || 3000;
+// Reviews files through the cache; REVIEW_VERSION is folded into every cache key
+const { version: REVIEW_VERSION, reviewFile, contextOf, contextKeys } = createReviewer({
+  config,
+  provider,
+  cache,
+  projects,
+  run: runForVerification,
+});
 
-// Judge0 API Configuration
-const JUDGE0_API = "https://judge0-ce.p.rapidapi.com/submissions";
-const RAPIDAPI_HEADERS = {
-  "X-RapidAPI-Host": "judge0-ce.p.rapidapi.com",
-  "X-RapidAPI-Key": "f93374fe4fmsh608d5d902c40414p1d8441jsn39d1a5ee6e8e", // Replace with your API Key
-  "Content-Type": "application/json",
+// Normalizes a file from a request body, or returns null when it is unusable.
+const toSourceFile = (file) => {
+  if (!file || typeof file.content !== "string" || !file.path) return null;
+  return {
+    path: file.path,
+    content: file.content,
+    extension: file.extension || file.path.split(".").pop() || "",
+  };
 };
 
-// LM Studio API Configuration
-const LM_STUDIO_API = "http://localhost:1234/v1/chat/completions";
-const systemPrompt = `You are an expert code analyzer. Analyze the provided code for errors, improvements, and best practices.
-Provide detailed feedback and suggestions for improvement.
+// Prior turns of a follow-up conversation, or null unless they alternate
+// properly and end with the user's question. Only the latest turns are kept.
+const MAX_CHAT_MESSAGES = 20;
+const toChatMessages = (messages) => {
+  if (!Array.isArray(messages) || !messages.length) return null;
+  const valid = messages.every((message) => ["user", "assistant"].includes(message?.role) && typeof message.content === "string");
+  if (!valid || messages.at(-1).role !== "user") return null;
+  return messages.slice(-MAX_CHAT_MESSAGES).map(({ role, content }) => ({ role, content }));
+};
 
-Requirements:
-- Check for syntax errors
-- Identify potential bugs
-- Suggest performance improvements
-- Recommend best practices
-- Consider code readability
-- Look for security issues
-- Evaluate code organization
+// Review profile and custom rules from a request body. Throws when either is invalid.
+const reviewSettingsFor = (body) => ({ profile: resolveProfile(body.profile), rules: normalizeRules(body.rules) });
 
-Include a score from 0-100 in the format <SCORE:XX> based on overall code quality.`;
+// Route describing the model and prompt in use, which clients fold into their own cache keys
+app.get("/info", (req, res) => {
+  res.json({ provider: provider.name, model: provider.model, promptVersion: REVIEW_VERSION });
+});
 
-// Route to run code execution via Judge0
-app.post("/run", async (req, res) => {
+// Route listing the built-in review profiles, which clients may edit and send back as `profile`
+app.get("/profiles", (req, res) => {
+  res.json(BUILT_IN_PROFILES);
+});
+
+// Route to read the files of a local git repository, so a whole project can be
+// reviewed without uploading it. Expects { path, ref? }; without a ref a working
+// tree is read as it is on disk. Returns { root, commit, files: [{ path, content }],
+// skipped: [{ path, reason }] }.
+app.post("/repository", async (req, res) => {
+  try {
+    res.json(await readRepository(req.body.path, { ref: req.body.ref }, config.repository));
+  } catch (error) {
+    console.error("Repository Error:", error.message || error);
+    res.status(400).json({ error: error.message || "Failed to read the repository" });
+  }
+});
+
+// Route to read the change between two commits of a local git repository, or
+// between a commit and the working tree when `head` is omitted, for a review of
+// just that change. Expects { path, base, head? }; returns { root, base, head,
+// diff, files: [{ path, content }], skipped } with the new content of each changed file.
+app.post("/repository/change", async (req, res) => {
   try {
-    const { source_code, language_id } = req.body;
+    res.json(await readChange(req.body.path, { base: req.body.base, head: req.body.head }, config.repository));
+  } catch (error) {
+    console.error("Repository Error:", error.message || error);
+    res.status(400).json({ error: error.message || "Failed to read the change" });
+  }
+});
+
+// Route to register a set of files as a project. Returns the id that /analyze
+// and /analyze/stream accept as `projectId`, the shape of its import graph and,
+// per path, a key for the related code that file will be reviewed with.
+app.post("/project", (req, res) => {
+  const files = Array.isArray(req.body.files) ? req.body.files.map(toSourceFile) : [];
+  if (!files.length || files.includes(null)) {
+    return res.status(400).json({ error: "A non-empty list of files with path and content is required" });
+  }
+
+  const project = projects.create(files);
+  const edges = [...project.graph.modules.values()].flatMap((module) =>
+    [...new Set(module.imports.map((entry) => entry.target).filter(Boolean))].map((target) => ({ from: module.path, to: target }))
+  );
+  res.json({ projectId: project.id, edges, cycles: project.cycles, contextKeys: contextKeys(project) });
+});
+
+// Route to review a project as a whole once its files have been analyzed.
+// Expects `results` as [{ path, summary, score, findingCount }].
+app.post("/project/:id/summary", async (req, res) => {
+  const project = projects.get(req.params.id);
+  if (!project) {
+    return res.status(404).json({ error: "Unknown or expired project" });
+  }
 
-    const submissionResponse = await axios.post(
-      `${JUDGE0_API}?base64_encoded=false&wait=true`,
-      { source_code, language_id, stdin: "" },
-      { headers: RAPIDAPI_HEADERS }
-    );
+  try {
+    const results = Array.isArray(req.body.results) ? req.body.results : [];
+    res.json(await analyzeProject(provider, project, results));
+  } catch (error) {
+    console.error("Project Analysis Error:", error.message || error);
+    const status = error.response?.status;
+    res.status(status === 429 || status === 503 ? status : 500).json({ error: error.message || "Failed to analyze project" });
+  }
+});
 
-    const output =
-      submissionResponse.data.stdout ||
-      submissionResponse.data.stderr ||
-      "No output";
+// Route to execute code in the local sandboxed runner
+app.post("/run", async (req, res) => {
+  const { language, source, stdin } = req.body;
+  if (typeof source !== "string" || !language) {
+    return res.status(400).json({ error: "Language and source are required" });
+  }
+  if (!SUPPORTED_LANGUAGES.includes(language)) {
+    return res.status(400).json({ error: `Unsupported language: ${language}` });
+  }
+  if (activeRuns >= config.runner.maxConcurrent) {
+    return res.status(429).json({ error: "Too many concurrent runs, try again shortly" });
+  }
 
-    res.json({ output });
+  activeRuns++;
+  try {
+    res.json(await runCode({ language, source, stdin: typeof stdin === "string" ? stdin : "" }, config.runner));
   } catch (error) {
     console.error("Execution Error:", error.message || error);
-    res.status(500).json({ error: "Execution failed" });
+    res.status(500).json({ error: error.message || "Execution failed" });
+  } finally {
+    activeRuns--;
   }
 });
 
-// Route to analyze code using LM Studio
-app.post("/analyze", async (req, res) => {
+// Route to generate unit tests for a file and run them in the sandbox against
+// the original code and, when given, `correctedCode`. Expects
+// { file, projectId?, correctedCode? }; with a known project its other files
+// are available to the tests. Returns { framework, path, code, original, corrected }
+// where each run is { status, tests: [{ name, status, message }], error }.
+app.post("/tests", async (req, res) => {
+  const sourceFile = toSourceFile(req.body.file);
+  if (!sourceFile) {
+    return res.status(400).json({ error: "File path and content are required" });
+  }
+  const setup = testSetupFor(sourceFile);
+  if (!setup) {
+    return res.status(400).json({ error: "Tests can only be generated for Python, JavaScript and TypeScript files" });
+  }
+  const { correctedCode, projectId } = req.body;
+  const project = projectId ? projects.get(projectId) : null;
+
   try {
-    const { messages } = req.body;
-    if (!messages || !messages.length) {
-      return res.status(400).json({ error: "Messages are required" });
+    const context = project ? contextOf(project, sourceFile) : undefined;
+    const code = await generateTests(provider, sourceFile, setup, { context });
+    if (activeRuns >= config.runner.maxConcurrent) {
+      return res.status(429).json({ error: "Too many concurrent runs, try again shortly" });
     }
 
-    const response = await axios.post(LM_STUDIO_API, {
-      messages: [
-        { role: "system", content: systemPrompt },
-        ...messages,
-      ],
-      temperature: 0.7,
-      max_tokens: 4000,
-    });
+    activeRuns++;
+    try {
+      const run = (source) => runTests({ file: sourceFile, code: source, tests: code, setup, projectFiles: project?.files }, config.runner);
+      const original = await run(sourceFile.content);
+      const corrected = typeof correctedCode === "string" && correctedCode !== sourceFile.content ? await run(correctedCode) : null;
+      res.json({ framework: setup.framework, path: setup.testPath, code, original, corrected });
+    } finally {
+      activeRuns--;
+    }
+  } catch (error) {
+    console.error("Test Generation Error:", error.message || error);
+    const status = error.response?.status;
+    res.status(status === 429 || status === 503 ? status : 500).json({ error: error.message || "Failed to generate tests" });
+  }
+});
+
+// Route to analyze code with the configured LLM provider.
+// Accepts either { file, projectId?, profile?, rules?, change? } for a full review or { messages } for a raw chat turn.
+// `profile` is a profile id or a full profile object; `rules` are the custom rules of a .codeamplifier.json.
+// `change` ({ complete, hunks }, see server/analysis/changes.js) limits the review to one change to the file.
+app.post("/analyze", async (req, res) => {
+  try {
+    const { file, messages, projectId } = req.body;
 
-    if (!response.data || !response.data.choices || !response.data.choices[0]?.message?.content) {
-      throw new Error("Invalid response from LLM");
+    if (file) {
+      const sourceFile = toSourceFile(file);
+      if (!sourceFile) {
+        return res.status(400).json({ error: "File path and content are required" });
+      }
+      let settings;
+      let change;
+      try {
+        settings = reviewSettingsFor(req.body);
+        change = normalizeChange(req.body.change);
+      } catch (error) {
+        return res.status(400).json({ error: error.message });
+      }
+      return res.json(await reviewFile(sourceFile, projectId, settings, { change }));
     }
 
-    res.json({
-      choices: [
-        {
-          message: {
-            content: response.data.choices[0].message.content,
-          },
-        },
-      ],
-    });
+    if (!messages || !messages.length) {
+      return res.status(400).json({ error: "A file or messages are required" });
+    }
+
+    const content = await provider.chat([{ role: "system", content: CHAT_SYSTEM_PROMPT }, ...messages]);
+    res.json({ choices: [{ message: { content } }] });
   } catch (error) {
     console.error("Analysis Error:", error.message || error);
-    res.status(500).json({ error: error.message || "Failed to analyze code" });
+    // Surface upstream rate limiting and outages so clients can back off
+    const status = error.response?.status;
+    res.status(status === 429 || status === 503 ? status : 500).json({ error: error.message || "Failed to analyze code" });
   }
 });
 
-// Start server
-app.listen(PORT, async () => {
+// Route to analyze a single file while streaming the model output as Server-Sent Events.
+// Events: `token` { text }, `retry` { attempt, errors }, `chunk` { index, total, startLine, endLine }
+// when a large file is reviewed in parts, `result` { analysis }, `error` { error }.
+app.post("/analyze/stream", async (req, res) => {
+  const sourceFile = toSourceFile(req.body.file);
+  if (!sourceFile) {
+    return res.status(400).json({ error: "File path and content are required" });
+  }
+  let settings;
+  let change;
+  try {
+    settings = reviewSettingsFor(req.body);
+    change = normalizeChange(req.body.change);
+  } catch (error) {
+    return res.status(400).json({ error: error.message });
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  const send = (event, data) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+  // Stop the upstream generation as soon as the client goes away.
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
   try {
-    // Check if LM Studio is running
-    await axios.post(LM_STUDIO_API, {
-      messages: [{ role: "system", content: "Test connection" }],
-      temperature: 0.1,
-      max_tokens: 5,
+    const analysis = await reviewFile(sourceFile, req.body.projectId, settings, {
+      change,
+      signal: controller.signal,
+      onToken: (text) => send("token", { text }),
+      onRetry: (attempt, errors) => send("retry", { attempt, errors }),
+      onChunk: ({ index, total, startLine, endLine }) => send("chunk", { index, total, startLine, endLine }),
     });
+    send("result", { analysis });
+  } catch (error) {
+    if (!controller.signal.aborted) {
+      console.error("Streaming Analysis Error:", error.message || error);
+      send("error", { error: error.message || "Failed to analyze code", status: error.response?.status });
+    }
+  }
+  res.end();
+});
+
+// Route for a follow-up conversation about one reviewed file, streamed as Server-Sent Events.
+// Expects { file, messages, findings?, correctedCode?, projectId? }; every request carries the
+// whole conversation so far. Events: `token` { text }, `result` { content }, `error` { error }.
+app.post("/chat/stream", async (req, res) => {
+  const sourceFile = toSourceFile(req.body.file);
+  const messages = toChatMessages(req.body.messages);
+  if (!sourceFile || !messages) {
+    return res.status(400).json({ error: "A file and a conversation ending with a user message are required" });
+  }
+  const { findings, correctedCode, projectId } = req.body;
+  const project = projectId ? projects.get(projectId) : null;
+  const context = project ? contextOf(project, sourceFile) : undefined;
+  const system = buildChatPrompt(sourceFile, {
+    findings: Array.isArray(findings) ? findings : [],
+    correctedCode: typeof correctedCode === "string" ? correctedCode : undefined,
+    context,
+  });
 
-    console.log(`✅ Server running on port ${PORT}`);
-    console.log(`✅ Connected to LM Studio at ${LM_STUDIO_API}`);
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  const send = (event, data) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  try {
+    const content = await complete(provider, [{ role: "system", content: system }, ...messages], {
+      signal: controller.signal,
+      onToken: (text) => send("token", { text }),
+    });
+    send("result", { content });
   } catch (error) {
-    console.warn(`⚠️ Warning: Unable to reach LM Studio at ${LM_STUDIO_API}. Ensure it's running.`);
+    if (!controller.signal.aborted) {
+      console.error("Chat Error:", error.message || error);
+      send("error", { error: error.message || "Failed to answer", status: error.response?.status });
+    }
+  }
+  res.end();
+});
+
+// Start server
+app.listen(PORT, config.host, async () => {
+  console.log(`✅ Server running on http://${config.host}:${PORT}`);
+  try {
+    await provider.chat([{ role: "user", content: "Test connection" }], { temperature: 0.1, maxTokens: 5 });
+    console.log(`✅ Connected to ${provider.name} provider (${provider.model}) ${provider.endpoint}`);
+  } catch {
+    console.warn(`⚠️ Warning: Unable to reach ${provider.name} provider at ${provider.endpoint}. Ensure it's running.`);
   }
 });
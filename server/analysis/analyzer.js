@@ -0,0 +1,393 @@
+// Shared review prompt and structured response handling used by every analysis route.
+import {
+  CATEGORIES,
+  PROJECT_SCHEMA_DESCRIPTION,
+  REVIEW_SCHEMA_DESCRIPTION,
+  repairJson,
+  validateProjectReview,
+  validateReview,
+} from "./schema.js";
+import { estimateTokens, mergeChunkReviews, splitIntoChunks } from "./chunking.js";
+import { blankUnchanged, changedLines, formatHunks, touchesChange } from "./changes.js";
+import { hashKey } from "./cache.js";
+import { appliesTo, applyProfile, renderTemplate, resolveProfile } from "./profiles.js";
+
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+// Fixed part of every review prompt; profiles only change the instructions above it
+const REVIEW_INSTRUCTIONS = `Report every issue as a separate finding with the exact line range it refers to.
+Related code from other project files may follow the file; use it to understand
+imports, types and callers, but only report findings and corrections for the file under review.`;
+
+// The profile's instructions, the categories it keeps and any natural-language
+// project rules, followed by the response schema.
+export function buildSystemPrompt(profile, rules = []) {
+  const instructions = rules.filter((rule) => rule.pattern === undefined);
+  return [
+    profile.systemPrompt.trim(),
+    profile.categories.length < CATEGORIES.length
+      ? `Only report findings in these categories: ${profile.categories.join(", ")}.`
+      : "",
+    REVIEW_INSTRUCTIONS,
+    instructions.length
+      ? `Project rules (report each violation as a finding):\n${instructions
+          .map((rule) => `- ${rule.message} [${rule.severity}, ${rule.category}]`)
+          .join("\n")}`
+      : "",
+    REVIEW_SCHEMA_DESCRIPTION,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+export const SYSTEM_PROMPT = buildSystemPrompt(resolveProfile());
+
+// Changes whenever the review prompt does, so results cached under an older prompt are not reused
+export const PROMPT_VERSION = hashKey(SYSTEM_PROMPT).slice(0, 12);
+
+export const PROJECT_SYSTEM_PROMPT = `You are an expert software architect. You are given the module structure of a
+project and the per-file review summaries. Look for problems that span several files:
+circular or tangled dependencies, misplaced responsibilities, duplicated logic,
+inconsistent error handling or conventions, and leaky abstractions between modules.
+Do not repeat issues that only concern a single file.
+
+${PROJECT_SCHEMA_DESCRIPTION}`;
+
+// Used to write unit tests for a reviewed file; the reply is the test file in a code block.
+export const TESTS_SYSTEM_PROMPT = `You are an expert at writing unit tests. Write focused tests for the provided code:
+normal behaviour, edge cases and invalid input, and the bugs a reviewer would look for.
+Test the behaviour the code is meant to have, so that a bug makes a test fail.
+Tests must not use the network, the file system, timers or packages other than the test framework.
+Reply with the complete test file in a single fenced code block and nothing else.`;
+
+const TEST_FRAMEWORK_INSTRUCTIONS = {
+  Vitest: (setup) =>
+    `Use Vitest: import describe, it, expect (and vi for mocks) from "vitest". Import the code under test from "${setup.importName}", without a file extension.`,
+  unittest: (setup) =>
+    `Use unittest: write unittest.TestCase classes and import the code under test with "import ${setup.importName}" or "from ${setup.importName} import ...".`,
+};
+
+// Used for free-form conversations about code, where prose is expected rather than JSON.
+export const CHAT_SYSTEM_PROMPT = `You are an expert code reviewer. Answer questions about the provided code clearly and concisely.
+When you propose code changes, include the full updated code in a fenced code block.`;
+
+// Grounds a follow-up conversation about one reviewed file: the file itself,
+// the review's findings and current correction, and related project code.
+export function buildChatPrompt(file, { findings = [], correctedCode, context = "" } = {}) {
+  const range = (finding) => `${finding.startLine}${finding.endLine > finding.startLine ? `-${finding.endLine}` : ""}`;
+  return [
+    CHAT_SYSTEM_PROMPT,
+    `The conversation is about this ${file.extension} file (${file.path}):\n\`\`\`${file.extension}\n${file.content}\n\`\`\``,
+    findings.length
+      ? `The review reported these findings:\n${findings
+          .map((finding) => `- Line ${range(finding)} [${finding.severity}, ${finding.category}]: ${finding.message}`)
+          .join("\n")}`
+      : "The review reported no findings.",
+    correctedCode ? `The review's current correction of the file:\n\`\`\`${file.extension}\n${correctedCode}\n\`\`\`` : "",
+    context ? `Related code from other project files (for reference only):\n\`\`\`\n${context}\n\`\`\`` : "",
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+// Compiler and linter findings listed for the model, with lines shifted by
+// `offset` when only part of the file is in the prompt.
+export function formatKnownIssues(findings, offset = 0) {
+  if (!findings.length) return "";
+  const lines = findings.map(
+    (finding) =>
+      `- Line ${finding.startLine - offset}${finding.endLine > finding.startLine ? `-${finding.endLine - offset}` : ""} (${finding.source}): ${finding.message}`
+  );
+  return `Static analysis already found these issues. They are exact, so do not report them again, but fix them in correctedCode:\n${lines.join("\n")}`;
+}
+
+// The file under review always comes first, then any issues static analysis
+// found in it; related code follows in its own section.
+export function buildUserPrompt(file, context = "", heading = `Analyze this ${file.extension} file (${file.path}):`, knownIssues = "") {
+  let prompt = `${heading}\n\`\`\`${file.extension}\n${file.content}\n\`\`\``;
+  if (knownIssues) prompt += `\n\n${knownIssues}`;
+  return context ? `${prompt}\n\nRelated code from other project files (for reference only):\n\`\`\`\n${context}\n\`\`\`` : prompt;
+}
+
+// Prompt for one part of a file too large to review at once. Line numbers in the
+// reply count from the start of the code block and are mapped back afterwards.
+export function buildChunkPrompt(
+  file,
+  chunk,
+  context = "",
+  intro = `Analyze this ${file.extension} file (${file.path}):`,
+  knownFindings = []
+) {
+  const overlap = chunk.startLine - chunk.contextStartLine;
+  const heading = [
+    intro,
+    `Only lines ${chunk.startLine}-${chunk.endLine} are under review here, part ${chunk.index + 1} of ${chunk.total}.`,
+    overlap
+      ? `The first ${overlap} line(s) of the code block come before that range and are included for context only; do not report findings or make changes there.`
+      : "",
+    "Line numbers in your reply count from the first line of the code block, and correctedCode must contain the whole code block.",
+  ].filter(Boolean);
+  const inChunk = knownFindings.filter((finding) => finding.endLine >= chunk.startLine && finding.startLine <= chunk.endLine);
+  return buildUserPrompt(
+    { ...file, content: chunk.content },
+    context,
+    heading.join("\n"),
+    formatKnownIssues(inChunk, chunk.contextStartLine - 1)
+  );
+}
+
+// Prompt for a review of one change to a file: only its diff hunks are shown,
+// with new-file line numbers, and the score is meant to rate the change alone.
+export function buildChangePrompt(file, change, context = "", intro = `Analyze this ${file.extension} file (${file.path}):`, knownIssues = "") {
+  const heading = [
+    intro,
+    "Only a change to the file is under review, shown as diff hunks. Each line starts with its line number in the new version of the file (none for removed lines), then + for an added line, - for a removed line or a space for unchanged context.",
+    "Only report findings on the added lines, or on problems the change causes in the lines around it, using new-file line numbers. The score rates the change, not the rest of the file.",
+    "Set correctedCode to null and describe fixes in suggestedFix.",
+  ].join("\n");
+  return buildUserPrompt({ ...file, content: formatHunks(change) }, context, heading, knownIssues);
+}
+
+// Describes the project for the architecture review: each module with its
+// dependencies and exports, any import cycles, and how its own review went.
+export function buildProjectPrompt(project, results) {
+  const byPath = new Map(results.map((result) => [result.path, result]));
+  const modules = [...project.graph.modules.values()].map((module) => {
+    const imports = [...new Set(module.imports.map((entry) => entry.target).filter(Boolean))];
+    const result = byPath.get(module.path);
+    return [
+      `## ${module.path}`,
+      `Imports: ${imports.length ? imports.join(", ") : "none"}`,
+      `Imported by: ${[...project.graph.dependents.get(module.path)].join(", ") || "none"}`,
+      `Exports: ${module.symbols.map((symbol) => `${symbol.kind} ${symbol.localName}`).join(", ") || "none"}`,
+      result ? `Review (score ${result.score}): ${result.summary} ${result.findingCount} finding(s).` : "Review: not analyzed",
+    ].join("\n");
+  });
+  const cycles = project.cycles.map((cycle) => `Circular import: ${cycle.join(" -> ")}`);
+
+  return [`Review the architecture of this project (${modules.length} files).`, ...modules, ...cycles].join("\n\n");
+}
+
+// Asks for the test file at setup.testPath (see execution/tests.js) in the file's ecosystem.
+export function buildTestPrompt(file, setup, context = "") {
+  const heading = [
+    `Write unit tests for this ${file.extension} file (${file.path}).`,
+    `Framework: ${setup.framework}`,
+    `Test file: ${setup.testPath}`,
+    TEST_FRAMEWORK_INSTRUCTIONS[setup.framework](setup),
+  ].join("\n");
+  return buildUserPrompt(file, context, heading);
+}
+
+// Parses a raw model reply into a validated review, or returns the problems found.
+export function parseReview(content, lineCount) {
+  const parsed = repairJson(content);
+  if (!parsed) return { review: null, errors: ["Reply did not contain a JSON object"] };
+  return validateReview(parsed, lineCount);
+}
+
+// Verification as reported to clients, without the error list kept for the repair prompt
+const toVerification = ({ status, checks, repaired = false }) => ({ status, checks, repaired });
+
+export function toAnalysis(review, verification) {
+  return {
+    result: review.summary,
+    score: review.score,
+    findings: review.findings,
+    correctedCode: review.correctedCode,
+    hasCorrections: !!review.correctedCode,
+    ...(verification && { verification: toVerification(verification) }),
+  };
+}
+
+// Collects a full reply, streaming it token by token when the caller wants live output.
+export async function complete(provider, messages, { onToken, ...options } = {}) {
+  if (!onToken) return provider.chat(messages, options);
+
+  let content = "";
+  for await (const token of provider.stream(messages, options)) {
+    content += token;
+    onToken(token);
+  }
+  return content;
+}
+
+// Asks for a JSON review and, when the reply is malformed, feeds the validation
+// errors back to the model so it can correct its own output. `onRetry` is told
+// about each repair round so streaming clients can reset their live output.
+// Replies are appended to `messages`, so callers can continue the conversation.
+// `json: false` and a matching `correction` ask for other kinds of reply.
+async function requestReview(provider, messages, parse, { onRetry, correction = "Return only the corrected JSON object.", ...options }) {
+  let errors = [];
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    if (attempt > 0) onRetry?.(attempt, errors);
+    const content = await complete(provider, messages, { json: true, ...options });
+    messages.push({ role: "assistant", content });
+    const parsed = parse(content);
+    if (parsed.review) return parsed.review;
+
+    errors = parsed.errors;
+    messages.push({
+      role: "user",
+      content: `Your reply was not valid:\n- ${errors.join("\n- ")}\n${correction}`,
+    });
+  }
+
+  throw new Error(`Model returned malformed findings: ${errors.join("; ")}`);
+}
+
+// Static findings are exact: once a parser has run, the model's own syntax
+// findings are dropped, as are model findings repeating a static one.
+function withStaticFindings(review, { analyzers, findings }) {
+  if (!analyzers.length) return review;
+  const known = new Set(findings.map((finding) => `${finding.startLine}|${finding.category}`));
+  const modelFindings = review.findings.filter(
+    (finding) => finding.category !== "syntax" && !known.has(`${finding.startLine}|${finding.category}`)
+  );
+  return { ...review, findings: [...findings, ...modelFindings] };
+}
+
+// Asks for one more attempt at a correction that failed verification, showing
+// the model what went wrong. Keeps the first review when the retry fails too.
+async function repairCorrection(provider, messages, parse, review, verification, verify, options) {
+  options.onRetry?.(1, verification.errors);
+  messages.push({
+    role: "user",
+    content: `Your correctedCode does not work:\n${verification.errors.join("\n\n")}\n\nFix correctedCode and return the whole JSON object again.`,
+  });
+  try {
+    const repaired = await requestReview(provider, messages, parse, options);
+    if (!repaired.correctedCode) return { review: repaired, verification: undefined };
+    return { review: repaired, verification: { ...(await verify(repaired.correctedCode)), repaired: true } };
+  } catch (error) {
+    if (options.signal?.aborted) throw error;
+    return { review, verification };
+  }
+}
+
+// Tokens available for the code of one request. The reply repeats the code as
+// correctedCode, so a chunk is also capped at half of the reply budget.
+export function chunkBudget({ contextWindow, maxTokens }, context = "", systemPrompt = SYSTEM_PROMPT) {
+  const overhead = estimateTokens(systemPrompt) + estimateTokens(context) + 200;
+  return Math.max(Math.min(contextWindow - maxTokens - overhead, Math.floor(maxTokens / 2)), 200);
+}
+
+// Reviews one file. `context` carries related code from the rest of the project.
+// When `limits` ({ contextWindow, maxTokens }) say the file does not fit, it is
+// reviewed in chunks and `onChunk` is told as each one starts. `profile` and
+// `rules` (see profiles.js) shape the prompt and post-process the findings.
+// `staticAnalysis` ({ analyzers, findings } from static/index.js) grounds the
+// prompt and is merged into the result. `verify(correctedCode)` (see verify.js)
+// checks the correction; a broken one gets a single repair round, except for
+// files reviewed in chunks, which are too large to send back whole. With a
+// `change` (see changes.js) only that change is reviewed, without a correction.
+export async function analyzeFile(
+  provider,
+  file,
+  {
+    change,
+    context,
+    limits,
+    onChunk,
+    profile = resolveProfile(),
+    rules = [],
+    staticAnalysis = { analyzers: [], findings: [] },
+    verify,
+    ...options
+  } = {}
+) {
+  const fileRules = rules.filter((rule) => appliesTo(rule, file.path));
+  const systemPrompt = buildSystemPrompt(profile, fileRules);
+  const heading = renderTemplate(profile.userPrompt, { extension: file.extension, path: file.path });
+
+  if (change) {
+    const lines = changedLines(change);
+    const inChange = { ...staticAnalysis, findings: staticAnalysis.findings.filter((finding) => touchesChange(finding, lines)) };
+    const lineCount = file.content.split("\n").length;
+    const messages = [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: buildChangePrompt(file, change, context, heading, formatKnownIssues(inChange.findings)) },
+    ];
+    const review = await requestReview(provider, messages, (content) => parseReview(content, lineCount), options);
+    const findings = withStaticFindings(review, inChange).findings.filter((finding) => touchesChange(finding, lines));
+    const scoped = { ...review, findings, correctedCode: undefined };
+    return toAnalysis(applyProfile(scoped, { ...file, content: blankUnchanged(file.content, lines) }, profile, fileRules));
+  }
+
+  const knownIssues = formatKnownIssues(staticAnalysis.findings);
+  const budget = limits ? chunkBudget(limits, `${context ?? ""}${knownIssues}`, systemPrompt) : Infinity;
+  const chunks =
+    estimateTokens(file.content) > budget ? splitIntoChunks(file.content, file.extension, { maxTokens: budget }) : null;
+
+  if (!chunks || chunks.length === 1) {
+    const lineCount = file.content.split("\n").length;
+    const messages = [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: buildUserPrompt(file, context, heading, knownIssues) },
+    ];
+    const parse = (content) => parseReview(content, lineCount);
+    let review = await requestReview(provider, messages, parse, options);
+    let verification = verify && review.correctedCode ? await verify(review.correctedCode) : undefined;
+    if (verification?.status === "broken") {
+      ({ review, verification } = await repairCorrection(provider, messages, parse, review, verification, verify, options));
+    }
+    return toAnalysis(applyProfile(withStaticFindings(review, staticAnalysis), file, profile, fileRules), verification);
+  }
+
+  const reviews = [];
+  for (const chunk of chunks) {
+    onChunk?.(chunk);
+    const lineCount = chunk.content.split("\n").length;
+    const messages = [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: buildChunkPrompt(file, chunk, context, heading, staticAnalysis.findings) },
+    ];
+    reviews.push(await requestReview(provider, messages, (content) => parseReview(content, lineCount), options));
+  }
+  const merged = mergeChunkReviews(file.content, chunks, reviews);
+  const verification = verify && merged.correctedCode ? await verify(merged.correctedCode) : undefined;
+  return toAnalysis(applyProfile(withStaticFindings(merged, staticAnalysis), file, profile, fileRules), verification);
+}
+
+// Reviews the project as a whole from its graph and the per-file results
+// (`{ path, summary, score, findingCount }`).
+export async function analyzeProject(provider, project, results, options = {}) {
+  const paths = [...project.graph.modules.keys()];
+  const messages = [
+    { role: "system", content: PROJECT_SYSTEM_PROMPT },
+    { role: "user", content: buildProjectPrompt(project, results) },
+  ];
+  return requestReview(
+    provider,
+    messages,
+    (content) => {
+      const parsed = repairJson(content);
+      return parsed ? validateProjectReview(parsed, paths) : { review: null, errors: ["Reply did not contain a JSON object"] };
+    },
+    options
+  );
+}
+
+// Takes the test file from a reply: the longest fenced code block, or the whole
+// reply when it has none but looks like code.
+function parseTests(content, setup) {
+  const blocks = [...content.matchAll(/```[^\n]*\n([\s\S]*?)```/g)].map((match) => match[1]);
+  const code = (blocks.sort((a, b) => b.length - a.length)[0] ?? content).trim();
+  const marker = setup.framework === "unittest" ? /\bdef test_|unittest/ : /\b(?:it|test)\s*\(/;
+  if (!marker.test(code)) return { review: null, errors: [`Reply did not contain ${setup.framework} tests`] };
+  return { review: `${code}\n` };
+}
+
+// Writes unit tests for a file with the framework described by `setup` (see
+// execution/tests.js). Resolves to the source of the test file.
+export async function generateTests(provider, file, setup, { context, ...options } = {}) {
+  const messages = [
+    { role: "system", content: TESTS_SYSTEM_PROMPT },
+    { role: "user", content: buildTestPrompt(file, setup, context) },
+  ];
+  return requestReview(provider, messages, (content) => parseTests(content, setup), {
+    ...options,
+    json: false,
+    correction: "Reply with the complete test file in a single fenced code block.",
+  });
+}
@@ -0,0 +1,67 @@
+// Cache of finished analyses so unchanged files are not sent to the model again.
+// Entries live in memory and, when a file is configured, are persisted as JSON.
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+const WRITE_DELAY_MS = 1000;
+
+export const hashKey = (...parts) => createHash("sha256").update(parts.join("\0")).digest("hex");
+
+export async function createResultCache({ file = "", maxEntries = 5000 } = {}) {
+  // Map iteration order doubles as recency: reads move an entry to the end
+  const entries = new Map();
+  let writeTimer = null;
+
+  if (file) {
+    try {
+      Object.entries(JSON.parse(await readFile(file, "utf8"))).forEach(([key, value]) => entries.set(key, value));
+    } catch (error) {
+      if (error.code !== "ENOENT") console.warn(`⚠️ Ignoring unreadable cache file ${file}: ${error.message}`);
+    }
+  }
+
+  // Writes go through a temporary file so a crash never leaves half a JSON document
+  const write = async () => {
+    writeTimer = null;
+    try {
+      await mkdir(dirname(file), { recursive: true });
+      await writeFile(`${file}.tmp`, JSON.stringify(Object.fromEntries(entries)));
+      await rename(`${file}.tmp`, file);
+    } catch (error) {
+      console.error("Cache Write Error:", error.message || error);
+    }
+  };
+
+  // Writes are batched
+  const persist = () => {
+    if (!file || writeTimer) return;
+    writeTimer = setTimeout(write, WRITE_DELAY_MS);
+    writeTimer.unref();
+  };
+
+  return {
+    get(key) {
+      const value = entries.get(key);
+      if (value === undefined) return null;
+      entries.delete(key);
+      entries.set(key, value);
+      return value;
+    },
+    set(key, value) {
+      entries.delete(key);
+      entries.set(key, value);
+      while (entries.size > maxEntries) entries.delete(entries.keys().next().value);
+      persist();
+    },
+    // Writes a pending batch now, for processes about to exit
+    async flush() {
+      if (!writeTimer) return;
+      clearTimeout(writeTimer);
+      await write();
+    },
+    get size() {
+      return entries.size;
+    },
+  };
+}
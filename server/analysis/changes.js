@@ -0,0 +1,76 @@
+// Reviews of a change rather than a whole file: the diff hunks of one file
+// are shown to the model with new-file line numbers, and only findings on the
+// lines the change touches are kept.
+
+const LINE_MARKS = [" ", "+", "-", "\\"];
+
+// Validates the `change` of a review request: { complete, hunks: [{ oldStart,
+// newStart, lines }] } with unified-diff lines. `complete` says whether the
+// file content sent along is the whole new file, or only the hunks' lines.
+// Returns null when there is no change and throws when it is malformed.
+export function normalizeChange(value) {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== "object" || !Array.isArray(value.hunks) || !value.hunks.length) {
+    throw new Error("change.hunks must be a non-empty array");
+  }
+  const hunks = value.hunks.map((hunk, index) => {
+    const valid =
+      hunk &&
+      Number.isInteger(hunk.oldStart) &&
+      Number.isInteger(hunk.newStart) &&
+      hunk.newStart >= 0 &&
+      Array.isArray(hunk.lines) &&
+      hunk.lines.every((line) => typeof line === "string" && LINE_MARKS.includes(line[0] ?? " "));
+    if (!valid) throw new Error(`change.hunks[${index}] must have oldStart, newStart and unified-diff lines`);
+    return { oldStart: hunk.oldStart, newStart: hunk.newStart, lines: hunk.lines };
+  });
+  return { complete: value.complete === true, hunks };
+}
+
+// New-file lines the change touches: every added line, and the line following
+// each removal so that what a deletion breaks can be reported too
+export function changedLines(change) {
+  const lines = new Set();
+  for (const hunk of change.hunks) {
+    // An empty new side ("+0,0") starts before line 1
+    let line = Math.max(hunk.newStart, 1);
+    for (const text of hunk.lines) {
+      if (text[0] === "+") lines.add(line++);
+      else if (text[0] === "-") lines.add(line);
+      else if (text[0] !== "\\") line++;
+    }
+  }
+  return lines;
+}
+
+export const touchesChange = (finding, lines) => {
+  for (let line = finding.startLine; line <= finding.endLine; line++) if (lines.has(line)) return true;
+  return false;
+};
+
+// The hunks as the model sees them: each line prefixed with its new-file line
+// number (blank for removed lines) and its diff mark
+export function formatHunks(change) {
+  const last = Math.max(...change.hunks.map((hunk) => hunk.newStart + hunk.lines.length));
+  const width = String(last).length;
+  return change.hunks
+    .map((hunk) => {
+      let line = Math.max(hunk.newStart, 1);
+      return hunk.lines
+        .filter((text) => text[0] !== "\\")
+        .map((text) => {
+          const mark = text[0] || " ";
+          const number = mark === "-" ? "" : String(line++);
+          return `${number.padStart(width)} ${mark} ${text.slice(1)}`;
+        })
+        .join("\n");
+    })
+    .join(`\n${" ".repeat(width)}   ...\n`);
+}
+
+// Lines the change did not touch are blanked, so pattern rules only match changed code
+export const blankUnchanged = (content, lines) =>
+  content
+    .split("\n")
+    .map((text, index) => (lines.has(index + 1) ? text : ""))
+    .join("\n");
@@ -0,0 +1,188 @@
+// Token budgeting and splitting of large files into reviewable chunks, plus
+// merging the per-chunk reviews back into one result for the whole file.
+import { structuredPatch } from "diff";
+
+// Approximates BPE token counts without a tokenizer: short words are usually a
+// single token, long identifiers and numbers split into several, and every
+// punctuation character tends to be its own token. Errs on the high side.
+export function estimateTokens(text) {
+  let tokens = 0;
+  for (const [piece] of text.matchAll(/[A-Za-z]+|\d+|[ \t]+|\n+|[^\sA-Za-z\d]/g)) {
+    if (/^[A-Za-z]/.test(piece)) tokens += Math.ceil(piece.length / 6);
+    else if (/^\d/.test(piece)) tokens += Math.ceil(piece.length / 3);
+    else if (/^[ \t]/.test(piece)) tokens += Math.ceil(piece.length / 8);
+    else tokens += 1;
+  }
+  return tokens;
+}
+
+// Lines where a top-level declaration starts, per language family. Other
+// languages fall back to any unindented line that follows a blank line.
+const BOUNDARIES = {
+  python: /^(@|(async\s+)?def\s|class\s|if __name__)/,
+  javascript: /^(export\s+)?(default\s+)?(async\s+)?(function|class|const|let|var|interface|type|enum|abstract)\b|^(describe|it|test)\(/,
+  shell: /^(function\s+)?[\w-]+\s*\(\)\s*\{?|^function\s/,
+};
+
+const LANGUAGE_BY_EXTENSION = {
+  py: "python",
+  pyw: "python",
+  js: "javascript",
+  jsx: "javascript",
+  mjs: "javascript",
+  cjs: "javascript",
+  ts: "javascript",
+  tsx: "javascript",
+  mts: "javascript",
+  cts: "javascript",
+  sh: "shell",
+  bash: "shell",
+};
+
+function findBoundaries(lines, extension) {
+  const pattern = BOUNDARIES[LANGUAGE_BY_EXTENSION[extension?.toLowerCase()]];
+  const boundaries = [0];
+  lines.forEach((line, index) => {
+    if (index === 0) return;
+    const isBoundary = pattern ? pattern.test(line) : /^\S/.test(line) && !lines[index - 1].trim();
+    if (!isBoundary) return;
+    // Keep decorators and doc comments attached to the declaration below them
+    let start = index;
+    while (start > 0 && /^(@|\/\/|\/\*\*?|\s*\*|#(?!!))/.test(lines[start - 1]) && lines[start - 1].trim()) start--;
+    if (start > boundaries[boundaries.length - 1]) boundaries.push(start);
+  });
+  return boundaries;
+}
+
+// Splits a single oversized declaration, preferring blank lines as cut points.
+function splitSegment(lines, start, end, maxTokens) {
+  const pieces = [];
+  let pieceStart = start;
+  let tokens = 0;
+  let lastBlank = -1;
+
+  for (let index = start; index < end; index++) {
+    tokens += estimateTokens(lines[index]) + 1;
+    if (!lines[index].trim()) lastBlank = index;
+    if (tokens > maxTokens && index > pieceStart) {
+      const cut = lastBlank > pieceStart ? lastBlank + 1 : index;
+      pieces.push([pieceStart, cut]);
+      pieceStart = cut;
+      tokens = lines.slice(cut, index + 1).reduce((sum, line) => sum + estimateTokens(line) + 1, 0);
+      lastBlank = -1;
+    }
+  }
+  pieces.push([pieceStart, end]);
+  return pieces;
+}
+
+// Breaks a file into chunks of at most `maxTokens`, cutting at function and
+// class boundaries where possible. Each chunk carries up to `overlapLines` lines
+// preceding it so the reviewer sees what leads into it. Line numbers are
+// 1-based and inclusive; `contextStartLine` is where the overlap begins.
+export function splitIntoChunks(content, extension, { maxTokens, overlapLines = 20 }) {
+  const lines = content.split("\n");
+  const boundaries = [...findBoundaries(lines, extension), lines.length];
+  const cost = (start, end) => lines.slice(start, end).reduce((sum, line) => sum + estimateTokens(line) + 1, 0);
+  // Leave room for the overlap so a chunk plus its context still fits
+  const ownBudget = Math.max(Math.floor(maxTokens * 0.8), 1);
+
+  const segments = [];
+  for (let index = 0; index < boundaries.length - 1; index++) {
+    const [start, end] = [boundaries[index], boundaries[index + 1]];
+    if (cost(start, end) > ownBudget) segments.push(...splitSegment(lines, start, end, ownBudget));
+    else segments.push([start, end]);
+  }
+
+  const ranges = [];
+  segments.forEach(([start, end]) => {
+    const last = ranges[ranges.length - 1];
+    if (last && cost(last[0], end) <= ownBudget) last[1] = end;
+    else ranges.push([start, end]);
+  });
+
+  return ranges.map(([start, end], index) => {
+    let contextStart = start;
+    while (contextStart > 0 && start - contextStart < overlapLines && cost(contextStart - 1, end) <= maxTokens) contextStart--;
+    return {
+      index,
+      total: ranges.length,
+      startLine: start + 1,
+      endLine: end,
+      contextStartLine: contextStart + 1,
+      // The text sent to the model: overlap followed by the chunk itself
+      content: lines.slice(contextStart, end).join("\n"),
+    };
+  });
+}
+
+// Moves a chunk finding onto file line numbers. Findings that fall entirely in
+// the overlap belong to the previous chunk and are dropped.
+function toFileFinding(finding, chunk) {
+  const offset = chunk.contextStartLine - 1;
+  const startLine = finding.startLine + offset;
+  const endLine = finding.endLine + offset;
+  if (endLine < chunk.startLine) return null;
+  return {
+    ...finding,
+    startLine: Math.min(Math.max(startLine, chunk.startLine), chunk.endLine),
+    endLine: Math.min(Math.max(endLine, chunk.startLine), chunk.endLine),
+  };
+}
+
+// Applies the changes a chunk review made to its own lines; edits to the
+// overlap are ignored because the previous chunk owns those lines.
+function chunkEdits(chunk, correctedCode) {
+  const overlap = chunk.startLine - chunk.contextStartLine;
+  // Models often add a final newline the chunk did not have
+  const corrected = chunk.content.endsWith("\n") ? correctedCode : correctedCode.replace(/\n$/, "");
+  const patch = structuredPatch("", "", `${chunk.content}\n`, `${corrected}\n`, "", "", { context: 0 });
+  return patch.hunks
+    // jsdiff puts pure insertions at `oldStart - 1` too, so one rule covers both
+    .filter((hunk) => hunk.oldStart - 1 >= overlap)
+    .map((hunk) => ({
+      start: chunk.contextStartLine - 1 + hunk.oldStart - 1,
+      deleteCount: hunk.oldLines,
+      insert: hunk.lines.filter((line) => line[0] === "+").map((line) => line.slice(1)),
+    }));
+}
+
+// Combines per-chunk reviews into one review of the whole file: findings on
+// file line numbers, a line-weighted score and one corrected file.
+export function mergeChunkReviews(content, chunks, reviews) {
+  const lines = content.split("\n");
+  const seen = new Set();
+  const findings = [];
+  const edits = [];
+  let weightedScore = 0;
+
+  chunks.forEach((chunk, index) => {
+    const review = reviews[index];
+    weightedScore += review.score * (chunk.endLine - chunk.startLine + 1);
+
+    review.findings.forEach((finding) => {
+      const mapped = toFileFinding(finding, chunk);
+      const key = mapped && `${mapped.startLine}:${mapped.message}`;
+      if (!mapped || seen.has(key)) return;
+      seen.add(key);
+      findings.push(mapped);
+    });
+
+    if (review.correctedCode) edits.push(...chunkEdits(chunk, review.correctedCode));
+  });
+
+  // Apply from the bottom up so earlier line numbers stay valid
+  const corrected = [...lines];
+  edits
+    .sort((a, b) => b.start - a.start)
+    .forEach(({ start, deleteCount, insert }) => corrected.splice(start, deleteCount, ...insert));
+  const correctedCode = corrected.join("\n");
+
+  const summaries = reviews.map((review) => review.summary).filter(Boolean);
+  return {
+    summary: `Reviewed in ${chunks.length} parts. ${summaries.join(" ")}`.trim(),
+    score: Math.round(weightedScore / lines.length),
+    findings: findings.sort((a, b) => a.startLine - b.startLine),
+    correctedCode: correctedCode === content ? undefined : correctedCode,
+  };
+}
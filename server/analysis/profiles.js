@@ -0,0 +1,235 @@
+// Named review profiles and per-project custom rules. A profile decides what the
+// reviewer is asked to look for, which finding categories are kept and how
+// findings weigh on the score; rules add project-specific checks on top.
+import { CATEGORIES, SEVERITIES, normalizeCategory } from "./schema.js";
+
+// Score lost per finding of each severity, before the category weight is applied
+export const SEVERITY_PENALTIES = { critical: 25, high: 15, medium: 8, low: 3, info: 1 };
+
+export const DEFAULT_PROFILE_ID = "default";
+
+const DEFAULT_USER_PROMPT = "Analyze this {{extension}} file ({{path}}):";
+
+export const BUILT_IN_PROFILES = [
+  {
+    id: DEFAULT_PROFILE_ID,
+    name: "Balanced",
+    description: "General review covering correctness, security, performance and readability.",
+    systemPrompt: `You are an expert code reviewer. Analyze the provided code for errors, improvements, and best practices.
+
+Requirements:
+- Check for syntax errors
+- Identify potential bugs
+- Look for security vulnerabilities
+- Suggest performance improvements
+- Recommend best practices and readability improvements
+- Evaluate code organization`,
+    userPrompt: DEFAULT_USER_PROMPT,
+    categories: CATEGORIES,
+    weights: null,
+  },
+  {
+    id: "security",
+    name: "Security audit",
+    description: "Vulnerabilities and the bugs that lead to them; style is ignored.",
+    systemPrompt: `You are an application security auditor. Review the provided code the way an attacker would read it.
+
+Requirements:
+- Find injection flaws (SQL, command, template, path traversal) and unsafe deserialization
+- Check authentication, authorization and session handling
+- Look for hard-coded secrets, weak cryptography and insecure randomness
+- Check that untrusted input is validated and output is encoded
+- Flag unsafe use of eval, shell execution and dynamic imports
+- Rate severity by how exploitable the issue is, not by how it looks`,
+    userPrompt: DEFAULT_USER_PROMPT,
+    categories: ["syntax", "bug", "security"],
+    weights: { security: 3, bug: 1.5, syntax: 1 },
+  },
+  {
+    id: "performance",
+    name: "Performance",
+    description: "Algorithmic cost, wasted work and resource usage.",
+    systemPrompt: `You are a performance engineer. Review the provided code for anything that makes it slower or heavier than it needs to be.
+
+Requirements:
+- Identify algorithms with needless quadratic or worse complexity
+- Find repeated work inside loops, redundant I/O and missing caching
+- Look for blocking calls on hot or async paths
+- Check memory usage: large copies, unbounded growth, leaks
+- Only suggest micro-optimizations when they matter`,
+    userPrompt: DEFAULT_USER_PROMPT,
+    categories: ["syntax", "bug", "performance"],
+    weights: { performance: 2, bug: 1, syntax: 1 },
+  },
+  {
+    id: "beginner",
+    name: "Beginner-friendly",
+    description: "Patient explanations for people learning the language.",
+    systemPrompt: `You are a patient mentor reviewing code written by someone who is learning to program.
+
+Requirements:
+- Explain each issue in plain language and say why it matters
+- Avoid jargon, or explain it the first time it is used
+- Focus on the few issues that teach the most; skip nitpicks
+- Mention what the code does well in the summary
+- Keep suggested fixes small and easy to follow`,
+    userPrompt: DEFAULT_USER_PROMPT,
+    categories: CATEGORIES,
+    weights: null,
+  },
+  {
+    id: "strict-style",
+    name: "Strict style",
+    description: "Naming, formatting, idioms and consistency, held to a high bar.",
+    systemPrompt: `You are a strict reviewer enforcing a consistent, idiomatic code style.
+
+Requirements:
+- Check naming, formatting and file organization against the language's conventions
+- Flag non-idiomatic constructs and outdated language features
+- Look for missing or misleading comments and documentation
+- Point out inconsistencies within the file
+- Report every occurrence, including minor ones`,
+    userPrompt: DEFAULT_USER_PROMPT,
+    categories: ["syntax", "style", "maintainability", "best-practice"],
+    weights: { syntax: 2, style: 1, maintainability: 1, "best-practice": 1 },
+  },
+];
+
+const builtIn = (id) => BUILT_IN_PROFILES.find((profile) => profile.id === id);
+
+// Turns a profile id, or a profile edited by the client, into a complete profile.
+// Missing fields fall back to the built-in profile of the same id.
+export function resolveProfile(value) {
+  if (value === undefined || value === null) return builtIn(DEFAULT_PROFILE_ID);
+  if (typeof value === "string") {
+    const profile = builtIn(value);
+    if (!profile) throw new Error(`Unknown review profile "${value}"`);
+    return profile;
+  }
+  if (typeof value !== "object") throw new Error("profile must be an id or an object");
+
+  const base = builtIn(value.id) ?? builtIn(DEFAULT_PROFILE_ID);
+  const text = (field) => (typeof value[field] === "string" && value[field].trim() ? value[field] : base[field]);
+  const categories = Array.isArray(value.categories)
+    ? CATEGORIES.filter((category) => value.categories.includes(category))
+    : base.categories;
+  if (!categories.length) throw new Error("profile must enable at least one category");
+
+  let weights = base.weights;
+  if (value.weights === null) weights = null;
+  else if (value.weights && typeof value.weights === "object") {
+    weights = Object.fromEntries(
+      Object.entries(value.weights)
+        .filter(([category, weight]) => CATEGORIES.includes(category) && Number.isFinite(weight) && weight >= 0)
+    );
+  }
+
+  return {
+    id: typeof value.id === "string" && value.id ? value.id : base.id,
+    name: text("name"),
+    description: typeof value.description === "string" ? value.description : base.description,
+    systemPrompt: text("systemPrompt"),
+    userPrompt: text("userPrompt"),
+    categories,
+    weights,
+  };
+}
+
+// Replaces {{name}} placeholders; unknown names are left as they are
+export const renderTemplate = (template, values) =>
+  template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name) => (name in values ? String(values[name]) : match));
+
+// Minimal glob support for rule `files`: `**` spans directories, `*` and `?` do not.
+// Patterns without a slash match the file name anywhere in the tree.
+export function globToRegExp(glob) {
+  const source = glob
+    .split(/(\*\*\/?|\*|\?)/)
+    .map((part) => {
+      if (part === "**/") return "(?:.*/)?";
+      if (part === "**") return ".*";
+      if (part === "*") return "[^/]*";
+      if (part === "?") return "[^/]";
+      return part.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(glob.includes("/") ? `^${source}$` : `(^|/)${source}$`);
+}
+
+// Validates the `rules` of a .codeamplifier.json. Rules with a `pattern` are
+// checked line by line here; the others are natural-language instructions
+// handed to the model. Throws on the first invalid rule.
+export function normalizeRules(value) {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) throw new Error("rules must be an array");
+
+  return value.map((raw, index) => {
+    if (!raw || typeof raw !== "object") throw new Error(`rules[${index}] must be an object`);
+    const message = typeof raw.message === "string" ? raw.message.trim() : "";
+    if (!message) throw new Error(`rules[${index}].message is required`);
+
+    const severity = String(raw.severity || "medium").toLowerCase();
+    if (!SEVERITIES.includes(severity)) throw new Error(`rules[${index}].severity "${raw.severity}" is not allowed`);
+
+    const rule = {
+      id: typeof raw.id === "string" && raw.id ? raw.id : `rule-${index + 1}`,
+      message,
+      severity,
+      category: normalizeCategory(raw.category || "best-practice"),
+      suggestedFix: typeof raw.suggestedFix === "string" ? raw.suggestedFix.trim() : "",
+    };
+    if (typeof raw.files === "string" && raw.files) rule.files = raw.files;
+    if (raw.pattern !== undefined) {
+      rule.pattern = String(raw.pattern);
+      rule.flags = typeof raw.flags === "string" ? raw.flags.replace(/[gy]/g, "") : "";
+      try {
+        new RegExp(rule.pattern, rule.flags);
+      } catch (error) {
+        throw new Error(`rules[${index}].pattern is not a valid regular expression: ${error.message}`);
+      }
+    }
+    return rule;
+  });
+}
+
+export const appliesTo = (rule, path) => !rule.files || globToRegExp(rule.files).test(path.replace(/\\/g, "/"));
+
+// Findings for every line of the file matched by a pattern rule
+export function applyPatternRules(file, rules) {
+  const lines = file.content.split("\n");
+  return rules
+    .filter((rule) => rule.pattern !== undefined && appliesTo(rule, file.path))
+    .flatMap((rule) => {
+      const pattern = new RegExp(rule.pattern, rule.flags);
+      return lines.flatMap((line, index) =>
+        pattern.test(line)
+          ? [
+              {
+                severity: rule.severity,
+                category: rule.category,
+                startLine: index + 1,
+                endLine: index + 1,
+                message: `${rule.message} (${rule.id})`,
+                suggestedFix: rule.suggestedFix,
+              },
+            ]
+          : []
+      );
+    });
+}
+
+const penalty = (findings, weights) =>
+  findings.reduce((sum, finding) => sum + SEVERITY_PENALTIES[finding.severity] * (weights?.[finding.category] ?? 1), 0);
+
+// Applies the profile and rules to a finished review: drops findings in
+// disabled categories, adds pattern rule matches and, when the profile has
+// weights, recomputes the score from the findings. Without weights the model's
+// score stands, less the penalty of the rule matches it could not know about.
+export function applyProfile(review, file, profile, rules = []) {
+  const matches = applyPatternRules(file, rules);
+  const findings = [...review.findings.filter((finding) => profile.categories.includes(finding.category)), ...matches].sort(
+    (a, b) => a.startLine - b.startLine
+  );
+  const score = profile.weights ? 100 - penalty(findings, profile.weights) : review.score - penalty(matches);
+
+  return { ...review, findings, score: Math.round(Math.min(Math.max(score, 0), 100)) };
+}
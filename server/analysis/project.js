@@ -0,0 +1,326 @@
+// Import graph over a set of uploaded files, used to give each review the
+// neighbouring symbols it depends on and to review the project as a whole.
+import { randomUUID } from "node:crypto";
+import { posix } from "node:path";
+import { estimateTokens } from "./chunking.js";
+
+const JS_EXTENSIONS = ["ts", "tsx", "js", "jsx", "mjs", "cjs", "mts", "cts"];
+const PYTHON_EXTENSIONS = ["py", "pyw"];
+
+const languageOf = (path) => {
+  const extension = path.split(".").pop().toLowerCase();
+  if (JS_EXTENSIONS.includes(extension)) return "javascript";
+  if (PYTHON_EXTENSIONS.includes(extension)) return "python";
+  return null;
+};
+
+// Names brought in by an import clause such as `React, { useState as use }` or `* as ns`.
+function parseImportClause(clause) {
+  const names = [];
+  const braced = clause.match(/\{([^}]*)\}/);
+  if (braced) {
+    braced[1].split(",").forEach((part) => {
+      const name = part.trim().replace(/^type\s+/, "").split(/\s+as\s+/)[0];
+      if (name) names.push(name);
+    });
+  }
+  const rest = clause.replace(/\{[^}]*\}/, "").trim();
+  if (/\*\s*(as\s+\w+)?/.test(rest)) names.push("*");
+  if (/^\w+/.test(rest.replace(/^type\s+/, ""))) names.push("default");
+  return names;
+}
+
+function parseJsImports(content) {
+  const imports = [];
+  const fromPattern = /^\s*(?:import|export)\s+(?:type\s+)?([\w*{}\s,$]*?)\s*from\s*["']([^"']+)["']/gm;
+  const bare = /^\s*import\s*["']([^"']+)["']/gm;
+  const dynamic = /\b(?:require|import)\s*\(\s*["']([^"']+)["']\s*\)/g;
+
+  for (const match of content.matchAll(fromPattern)) {
+    imports.push({ specifier: match[2], names: parseImportClause(match[1]) });
+  }
+  for (const match of content.matchAll(bare)) imports.push({ specifier: match[1], names: [] });
+  for (const match of content.matchAll(dynamic)) imports.push({ specifier: match[1], names: ["*"] });
+  return imports;
+}
+
+function parsePythonImports(content) {
+  const imports = [];
+  for (const match of content.matchAll(/^[ \t]*from\s+(\.*[\w.]*)\s+import\s+(\([^)]*\)|[^\n#]+)/gm)) {
+    const names = match[2]
+      .replace(/[()]/g, "")
+      .split(",")
+      .map((part) => part.trim().split(/\s+as\s+/)[0])
+      .filter(Boolean);
+    imports.push({ specifier: match[1], names });
+  }
+  for (const match of content.matchAll(/^[ \t]*import\s+([^\n#]+)/gm)) {
+    match[1].split(",").forEach((part) => {
+      const specifier = part.trim().split(/\s+as\s+/)[0];
+      if (specifier) imports.push({ specifier, names: ["*"] });
+    });
+  }
+  return imports;
+}
+
+// Takes a declaration's header: the opening line(s) of a function or class, or
+// the whole body of a type-like declaration, capped so one symbol cannot eat the budget.
+function extractSignature(lines, startIndex, { wholeBlock }) {
+  const collected = [];
+  let depth = 0;
+  for (let index = startIndex; index < lines.length && collected.length < 15; index++) {
+    const line = lines[index];
+    collected.push(line);
+    depth += (line.match(/[{([]/g) || []).length - (line.match(/[})\]]/g) || []).length;
+    if (wholeBlock ? depth <= 0 : depth <= 1 && /[{:]\s*$|=>|;\s*$/.test(line)) break;
+  }
+  if (!wholeBlock && collected.length && /\{\s*$/.test(collected[collected.length - 1])) {
+    collected[collected.length - 1] = collected[collected.length - 1].replace(/\{\s*$/, "{ … }");
+  }
+  return collected.join("\n").trimEnd();
+}
+
+function parseJsSymbols(content) {
+  const lines = content.split("\n");
+  const symbols = [];
+  const declaration =
+    /^export\s+(default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(function\*?|class|const|let|var|interface|type|enum)\s+([\w$]+)/;
+
+  lines.forEach((line, index) => {
+    const match = line.match(declaration);
+    if (match) {
+      const kind = match[2].replace("*", "");
+      symbols.push({
+        name: match[1] ? "default" : match[3],
+        localName: match[3],
+        kind,
+        line: index + 1,
+        signature: extractSignature(lines, index, { wholeBlock: ["interface", "type", "enum"].includes(kind) }),
+      });
+      return;
+    }
+    const commonJs = line.match(/^(?:module\.)?exports\.([\w$]+)\s*=|^module\.exports\s*=/);
+    if (commonJs) {
+      symbols.push({
+        name: commonJs[1] || "default",
+        localName: commonJs[1] || "default",
+        kind: "export",
+        line: index + 1,
+        signature: extractSignature(lines, index, { wholeBlock: false }),
+      });
+    }
+  });
+  return symbols;
+}
+
+function parsePythonSymbols(content) {
+  const lines = content.split("\n");
+  const symbols = [];
+  lines.forEach((line, index) => {
+    const match = line.match(/^(?:async\s+)?(def|class)\s+(\w+)|^([A-Z_][A-Z0-9_]*)\s*[:=]/);
+    if (!match) return;
+    const name = match[2] || match[3];
+    if (name.startsWith("_")) return;
+
+    const header = [line];
+    // Multi-line parameter lists run until the line ending the header
+    for (let next = index + 1; !/:\s*(#.*)?$/.test(header[header.length - 1]) && next < lines.length && header.length < 10; next++) {
+      header.push(lines[next]);
+    }
+    const docstring = match[1] && lines[index + header.length]?.trim().match(/^("""|''')(.*?)("""|''')?$/);
+    if (docstring?.[2]) header.push(`    ${docstring[1]}${docstring[2]}${docstring[1]}`);
+
+    symbols.push({
+      name,
+      localName: name,
+      kind: match[1] || "constant",
+      line: index + 1,
+      signature: match[1] ? header.join("\n") : line.trim(),
+    });
+  });
+  return symbols;
+}
+
+function resolveJsImport(fromPath, specifier, paths) {
+  if (!specifier.startsWith(".")) return null;
+  const base = posix.normalize(posix.join(posix.dirname(fromPath), specifier));
+  const stripped = base.replace(/\.(js|jsx|mjs|cjs)$/, "");
+  const candidates = [
+    base,
+    ...JS_EXTENSIONS.map((extension) => `${stripped}.${extension}`),
+    ...JS_EXTENSIONS.map((extension) => `${base}/index.${extension}`),
+  ];
+  return candidates.find((candidate) => paths.has(candidate)) ?? null;
+}
+
+// Python imports are resolved against the importing file's package for relative
+// imports, and against each of its ancestor directories otherwise, since the
+// upload does not say where the import root is.
+function resolvePythonImport(fromPath, specifier, paths) {
+  const dots = specifier.match(/^\.*/)[0].length;
+  const modulePath = specifier.slice(dots).split(".").filter(Boolean).join("/");
+  const directory = posix.dirname(fromPath);
+
+  const roots = [];
+  if (dots) {
+    roots.push(posix.normalize(posix.join(directory, ...Array(dots - 1).fill(".."))));
+  } else {
+    for (let root = directory; ; root = posix.dirname(root)) {
+      roots.push(root);
+      if (root === posix.dirname(root)) break;
+    }
+  }
+
+  for (const root of roots) {
+    const base = modulePath ? posix.join(root, modulePath) : root;
+    const match = [`${base}.py`, `${base}/__init__.py`].find((candidate) => paths.has(candidate));
+    if (match) return match;
+  }
+  return null;
+}
+
+// Builds the dependency graph for a project. Each module records what it imports
+// (resolved to a project path when the target was uploaded) and the top-level
+// symbols it exposes; `dependents` maps each path to the files importing it.
+export function buildProjectGraph(files) {
+  const paths = new Set(files.map((file) => file.path));
+  const modules = new Map();
+  const dependents = new Map(files.map((file) => [file.path, new Set()]));
+
+  files.forEach((file) => {
+    const language = languageOf(file.path);
+    const isPython = language === "python";
+    const imports = language ? (isPython ? parsePythonImports : parseJsImports)(file.content) : [];
+    const symbols = language ? (isPython ? parsePythonSymbols : parseJsSymbols)(file.content) : [];
+
+    const resolved = imports.map((entry) => {
+      const target = (isPython ? resolvePythonImport : resolveJsImport)(file.path, entry.specifier, paths);
+      if (target && target !== file.path) dependents.get(target).add(file.path);
+      return { ...entry, target: target === file.path ? null : target };
+    });
+
+    modules.set(file.path, { path: file.path, content: file.content, language, imports: resolved, symbols });
+  });
+
+  return { modules, dependents };
+}
+
+// Import cycles, each listed once as the path sequence that closes the loop.
+export function findCycles(graph) {
+  const cycles = [];
+  const seen = new Set();
+  const state = new Map();
+
+  const visit = (path, stack) => {
+    state.set(path, "active");
+    stack.push(path);
+    const targets = new Set(graph.modules.get(path).imports.map((entry) => entry.target).filter(Boolean));
+    targets.forEach((target) => {
+      if (state.get(target) === "active") {
+        const cycle = stack.slice(stack.indexOf(target));
+        const key = [...cycle].sort().join("\0");
+        if (!seen.has(key)) {
+          seen.add(key);
+          cycles.push([...cycle, target]);
+        }
+      } else if (!state.has(target)) {
+        visit(target, stack);
+      }
+    });
+    stack.pop();
+    state.set(path, "done");
+  };
+
+  graph.modules.forEach((_, path) => {
+    if (!state.has(path)) visit(path, []);
+  });
+  return cycles;
+}
+
+const escapeRegExp = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Collects what a reviewer of `path` needs from the rest of the project: the
+// declarations it imports, then the places other files use its exports.
+// Blocks are added in that priority order until `maxTokens` is spent.
+export function getFileContext(graph, path, { maxTokens = 1500 } = {}) {
+  const module = graph.modules.get(path);
+  if (!module) return "";
+  const blocks = [];
+
+  // A file may import the same module several times; merge the imported names per target
+  const importedFrom = new Map();
+  module.imports.forEach(({ target, names }) => {
+    if (!target) return;
+    const all = names.length === 0 || names.includes("*");
+    const previous = importedFrom.get(target);
+    importedFrom.set(target, previous === "*" || all ? "*" : [...(previous || []), ...names]);
+  });
+
+  importedFrom.forEach((names, target) => {
+    const symbols = graph.modules.get(target).symbols;
+    const wanted = names === "*" ? symbols : symbols.filter((symbol) => names.includes(symbol.name));
+    if (!wanted.length) return;
+    blocks.push(`From ${target}:\n` + wanted.map((symbol) => symbol.signature).join("\n\n"));
+  });
+
+  const exported = module.symbols.map((symbol) => symbol.localName);
+  (graph.dependents.get(path) || new Set()).forEach((caller) => {
+    const callerModule = graph.modules.get(caller);
+    const importedNames = callerModule.imports
+      .filter((entry) => entry.target === path)
+      .flatMap((entry) => entry.names.filter((name) => name !== "*" && name !== "default"));
+    const names = importedNames.length ? importedNames : exported;
+    if (!names.length) return;
+
+    const usage = new RegExp(`\\b(${names.map(escapeRegExp).join("|")})\\b`);
+    const uses = callerModule.content
+      .split("\n")
+      .map((line, index) => ({ line, number: index + 1 }))
+      .filter(({ line }) => usage.test(line) && !/^\s*(import|from)\b/.test(line))
+      .slice(0, 5);
+    if (!uses.length) return;
+    blocks.push(`Used in ${caller}:\n` + uses.map(({ line, number }) => `${number}: ${line.trim()}`).join("\n"));
+  });
+
+  const included = [];
+  let remaining = maxTokens;
+  for (const block of blocks) {
+    const cost = estimateTokens(block);
+    if (cost > remaining) continue;
+    included.push(block);
+    remaining -= cost;
+  }
+  if (included.length < blocks.length) {
+    included.push(`(${blocks.length - included.length} more related block(s) omitted to fit the context budget)`);
+  }
+  return included.join("\n\n");
+}
+
+// Uploaded projects held in memory so per-file requests can refer to them by id.
+// Old entries expire, and the store never holds more than `maxProjects`.
+export function createProjectStore({ ttlMs = 30 * 60 * 1000, maxProjects = 20 } = {}) {
+  const projects = new Map();
+
+  const prune = () => {
+    const now = Date.now();
+    projects.forEach((project, id) => {
+      if (now - project.touchedAt > ttlMs) projects.delete(id);
+    });
+    while (projects.size >= maxProjects) projects.delete(projects.keys().next().value);
+  };
+
+  return {
+    create(files) {
+      prune();
+      const id = randomUUID();
+      const graph = buildProjectGraph(files);
+      projects.set(id, { id, files, graph, cycles: findCycles(graph), touchedAt: Date.now() });
+      return projects.get(id);
+    },
+    get(id) {
+      const project = projects.get(id);
+      if (project) project.touchedAt = Date.now();
+      return project ?? null;
+    },
+  };
+}
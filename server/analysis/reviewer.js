@@ -0,0 +1,77 @@
+// The review of one file as both server.js and the CLI run it: static analysis,
+// the model, verification of the correction and the result cache around them.
+import { PROMPT_VERSION, analyzeFile } from "./analyzer.js";
+import { hashKey } from "./cache.js";
+import { getFileContext } from "./project.js";
+import { runStaticAnalysis } from "./static/index.js";
+import { CHECKING_ANALYZERS, verifyCorrection } from "./verify.js";
+
+// `run(language, source)` executes a file for verification and may resolve to
+// null when no run is possible right now. Returns { version, reviewFile,
+// contextOf, contextKeys }.
+export function createReviewer({ config, provider, cache, projects, run }) {
+  // Changes with the prompt and with the static analyzers in use, so cached results
+  // from a different setup are not reused
+  const version = hashKey(PROMPT_VERSION, config.analysis.verify, ...config.analysis.analyzers).slice(0, 12);
+
+  // Related code from the rest of a project for one of its files
+  const contextOf = (project, file) => getFileContext(project.graph, file.path, { maxTokens: config.llm.contextTokens });
+
+  // Short hash of the related code each file of a project is reviewed with, so
+  // clients can tell when a file's cached review is stale
+  const contextKeys = (project) =>
+    Object.fromEntries(project.files.map((file) => [file.path, hashKey(contextOf(project, file)).slice(0, 16)]));
+
+  // Reviews a file, answering from the cache when the same content was already
+  // reviewed at the same path with the same context, model, prompt, profile and
+  // rules. Cached results carry `cached: true`. When `projectId` names a known
+  // project, the review includes related code from its other files. With
+  // `options.change` only that change is reviewed; static analysis needs the whole file.
+  async function reviewFile(file, projectId, settings, options = {}) {
+    const project = projectId ? projects.get(projectId) : null;
+    const context = project ? contextOf(project, file) : undefined;
+    // The related code depends on where the file sits
+    const key = hashKey(
+      file.path,
+      file.extension,
+      file.content,
+      context ?? "",
+      provider.name,
+      provider.model,
+      version,
+      JSON.stringify(settings),
+      JSON.stringify(options.change ?? null)
+    );
+    const cached = cache.get(key);
+    if (cached) return { ...cached, cached: true };
+
+    const analyzerOptions = { eslintConfig: config.analysis.eslintConfig, projectFiles: project?.files };
+    const analyzers = options.change && !options.change.complete ? [] : config.analysis.analyzers;
+    const staticAnalysis = await runStaticAnalysis(file, { ...analyzerOptions, analyzers });
+    const verify =
+      config.analysis.verify === "off"
+        ? undefined
+        : (correctedCode) =>
+            verifyCorrection(file, correctedCode, {
+              original: staticAnalysis.findings,
+              analyze: (corrected) =>
+                runStaticAnalysis(corrected, {
+                  ...analyzerOptions,
+                  analyzers: config.analysis.analyzers.filter((name) => CHECKING_ANALYZERS.includes(name)),
+                }),
+              run: config.analysis.verify === "run" ? run : undefined,
+            });
+    const analysis = await analyzeFile(provider, file, {
+      context,
+      limits: config.llm,
+      staticAnalysis,
+      verify,
+      ...settings,
+      ...options,
+    });
+    cache.set(key, analysis);
+    return analysis;
+  }
+
+  return { version, reviewFile, contextOf, contextKeys };
+}
@@ -0,0 +1,188 @@
+// Findings schema the reviewer is asked to produce, plus validation and
+// best-effort repair of whatever the model actually returned.
+
+export const SEVERITIES = ["critical", "high", "medium", "low", "info"];
+export const CATEGORIES = [
+  "syntax",
+  "bug",
+  "security",
+  "performance",
+  "style",
+  "maintainability",
+  "best-practice",
+  "architecture",
+  "other",
+];
+
+export const REVIEW_SCHEMA_DESCRIPTION = `Respond with a single JSON object and nothing else, matching this shape:
+{
+  "summary": string,            // two or three sentences about overall quality
+  "score": number,              // 0-100 overall code quality
+  "findings": [
+    {
+      "severity": ${SEVERITIES.map((s) => `"${s}"`).join(" | ")},
+      "category": ${CATEGORIES.map((c) => `"${c}"`).join(" | ")},
+      "startLine": number,      // 1-based line in the submitted file
+      "endLine": number,        // inclusive, >= startLine
+      "message": string,        // what is wrong and why
+      "suggestedFix": string    // concrete change, may be empty
+    }
+  ],
+  "correctedCode": string | null  // the full corrected file, or null when no change is needed
+}`;
+
+export const PROJECT_SCHEMA_DESCRIPTION = `Respond with a single JSON object and nothing else, matching this shape:
+{
+  "summary": string,            // two or three sentences about the overall design
+  "score": number,              // 0-100 overall architecture quality
+  "findings": [
+    {
+      "severity": ${SEVERITIES.map((s) => `"${s}"`).join(" | ")},
+      "category": ${CATEGORIES.map((c) => `"${c}"`).join(" | ")},
+      "paths": string[],        // the files involved, exactly as listed
+      "message": string,        // what is wrong and why
+      "suggestedFix": string    // concrete change, may be empty
+    }
+  ]
+}`;
+
+// Pulls the outermost JSON object out of a reply and fixes the mistakes local
+// models make most often (code fences, <think> blocks, trailing commas).
+export function repairJson(text) {
+  let candidate = text
+    .replace(/<think>[\s\S]*?<\/think>/g, "")
+    .replace(/^\s*```(?:json)?\s*/i, "")
+    .replace(/\s*```\s*$/, "")
+    .trim();
+
+  const start = candidate.indexOf("{");
+  const end = candidate.lastIndexOf("}");
+  if (start === -1 || end <= start) return null;
+  candidate = candidate.slice(start, end + 1);
+
+  const attempts = [candidate, candidate.replace(/,\s*([}\]])/g, "$1")];
+  for (const attempt of attempts) {
+    try {
+      return JSON.parse(attempt);
+    } catch {
+      // try the next repair
+    }
+  }
+  return null;
+}
+
+const toLine = (value) => {
+  const line = parseInt(value, 10);
+  return Number.isFinite(line) && line > 0 ? line : null;
+};
+
+export const normalizeCategory = (value) => {
+  const category = String(value || "").toLowerCase().replace(/[\s_]+/g, "-");
+  return CATEGORIES.includes(category) ? category : "other";
+};
+
+// Checks a parsed reply against the schema. Recoverable problems (casing,
+// out-of-range scores, swapped line ranges) are normalized silently; anything
+// that cannot be trusted is reported in `errors` so the caller can retry.
+export function validateReview(value, lineCount = Infinity) {
+  const errors = [];
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return { review: null, errors: ["Reply is not a JSON object"] };
+  }
+
+  const score = Number(value.score);
+  if (!Number.isFinite(score)) errors.push('"score" must be a number between 0 and 100');
+
+  if (!Array.isArray(value.findings)) {
+    errors.push('"findings" must be an array');
+  }
+
+  const findings = [];
+  (Array.isArray(value.findings) ? value.findings : []).forEach((raw, index) => {
+    if (!raw || typeof raw !== "object") {
+      errors.push(`findings[${index}] must be an object`);
+      return;
+    }
+
+    const severity = String(raw.severity || "").toLowerCase();
+    let startLine = toLine(raw.startLine ?? raw.line);
+    let endLine = toLine(raw.endLine) ?? startLine;
+
+    if (!SEVERITIES.includes(severity)) errors.push(`findings[${index}].severity "${raw.severity}" is not allowed`);
+    if (typeof raw.message !== "string" || !raw.message.trim()) errors.push(`findings[${index}].message is required`);
+    if (startLine === null) errors.push(`findings[${index}].startLine must be a positive integer`);
+    if (errors.length) return;
+
+    if (endLine < startLine) [startLine, endLine] = [endLine, startLine];
+    findings.push({
+      severity,
+      category: normalizeCategory(raw.category),
+      startLine: Math.min(startLine, lineCount),
+      endLine: Math.min(endLine, lineCount),
+      message: raw.message.trim(),
+      suggestedFix: typeof raw.suggestedFix === "string" ? raw.suggestedFix.trim() : "",
+    });
+  });
+
+  if (errors.length) return { review: null, errors };
+
+  const correctedCode =
+    typeof value.correctedCode === "string" && value.correctedCode.trim()
+      ? value.correctedCode.replace(/^```[^\n]*\n([\s\S]*?)```\s*$/, "$1")
+      : undefined;
+
+  return {
+    review: {
+      summary: typeof value.summary === "string" ? value.summary.trim() : "",
+      score: Math.round(Math.min(Math.max(score, 0), 100)),
+      findings,
+      correctedCode,
+    },
+    errors,
+  };
+}
+
+// Same checks for a project-level review, whose findings name the files involved
+// instead of line ranges. Paths the project does not contain are dropped.
+export function validateProjectReview(value, paths = []) {
+  const errors = [];
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return { review: null, errors: ["Reply is not a JSON object"] };
+  }
+
+  const score = Number(value.score);
+  if (!Number.isFinite(score)) errors.push('"score" must be a number between 0 and 100');
+  if (!Array.isArray(value.findings)) errors.push('"findings" must be an array');
+
+  const known = new Set(paths);
+  const findings = [];
+  (Array.isArray(value.findings) ? value.findings : []).forEach((raw, index) => {
+    if (!raw || typeof raw !== "object") {
+      errors.push(`findings[${index}] must be an object`);
+      return;
+    }
+
+    const severity = String(raw.severity || "").toLowerCase();
+    if (!SEVERITIES.includes(severity)) errors.push(`findings[${index}].severity "${raw.severity}" is not allowed`);
+    if (typeof raw.message !== "string" || !raw.message.trim()) errors.push(`findings[${index}].message is required`);
+    if (errors.length) return;
+
+    findings.push({
+      severity,
+      category: normalizeCategory(raw.category),
+      paths: (Array.isArray(raw.paths) ? raw.paths : []).filter((path) => known.has(path)),
+      message: raw.message.trim(),
+      suggestedFix: typeof raw.suggestedFix === "string" ? raw.suggestedFix.trim() : "",
+    });
+  });
+
+  if (errors.length) return { review: null, errors };
+  return {
+    review: {
+      summary: typeof value.summary === "string" ? value.summary.trim() : "",
+      score: Math.round(Math.min(Math.max(score, 0), 100)),
+      findings,
+    },
+    errors,
+  };
+}
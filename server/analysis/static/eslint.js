@@ -0,0 +1,44 @@
+// ESLint with a flat config file, by default the repository's eslint.config.js.
+// Files are linted as if they sat at their uploaded path next to that config, so
+// its `files` and `ignores` patterns decide which rules apply.
+import { dirname, resolve } from "node:path";
+
+export const extensions = ["ts", "tsx", "mts", "cts", "js", "jsx", "mjs", "cjs"];
+
+// One linter per config file; eslint itself is only loaded when first needed
+const linters = new Map();
+
+function getLinter(configFile) {
+  const path = resolve(configFile);
+  if (!linters.has(path)) {
+    linters.set(
+      path,
+      import("eslint").then(({ ESLint }) => new ESLint({ cwd: dirname(path), overrideConfigFile: path }))
+    );
+  }
+  return linters.get(path);
+}
+
+const categoryFor = (ruleId) => {
+  if (ruleId.startsWith("react-hooks/")) return "bug";
+  if (/(^|\/)no-unused-/.test(ruleId)) return "maintainability";
+  return "best-practice";
+};
+
+export async function analyze(file, { eslintConfig = "eslint.config.js" } = {}) {
+  const linter = await getLinter(eslintConfig);
+  const filePath = resolve(dirname(resolve(eslintConfig)), file.path.replace(/^\/+/, "").replace(/\.\.\//g, ""));
+  const [result] = await linter.lintText(file.content, { filePath, warnIgnored: false });
+
+  // Parse errors are left to the compiler, which reports them with better messages
+  return (result?.messages ?? [])
+    .filter((message) => !message.fatal && message.ruleId)
+    .map((message) => ({
+      severity: message.severity === 2 ? "medium" : "low",
+      category: categoryFor(message.ruleId),
+      startLine: message.line,
+      endLine: Math.max(message.endLine ?? message.line, message.line),
+      message: `${message.message} (${message.ruleId})`,
+      suggestedFix: message.suggestions?.[0]?.desc ?? "",
+    }));
+}
@@ -0,0 +1,43 @@
+import * as typescript from "./typescript.js";
+import * as eslint from "./eslint.js";
+import * as python from "./python.js";
+
+// Deterministic checks that run before the model. Every analyzer exposes:
+//   {
+//     extensions: string[],                    // file extensions it understands
+//     analyze(file, options) => Promise<Finding[]>
+//   }
+// Compiler and linter output is exact where the model guesses, so it is
+// reported as is and given to the model as known issues.
+const ANALYZERS = { typescript, eslint, python };
+
+export const STATIC_ANALYZERS = Object.keys(ANALYZERS);
+
+// Analyzers that failed to load are reported once instead of on every file
+const warned = new Set();
+
+// Runs every enabled analyzer that understands the file. Returns the names of
+// the analyzers that ran and their findings, each tagged with its `source`.
+// An analyzer that fails is skipped; the review goes on without it.
+export async function runStaticAnalysis(file, { analyzers = STATIC_ANALYZERS, ...options } = {}) {
+  const extension = file.extension.toLowerCase();
+  const applicable = analyzers.filter((name) => ANALYZERS[name]?.extensions.includes(extension));
+
+  const results = await Promise.all(
+    applicable.map(async (name) => {
+      try {
+        const findings = await ANALYZERS[name].analyze(file, options);
+        return { name, findings: findings.map((finding) => ({ ...finding, source: name })) };
+      } catch (error) {
+        if (!warned.has(name)) {
+          warned.add(name);
+          console.warn(`⚠️ Static analyzer ${name} unavailable: ${error.message || error}`);
+        }
+        return null;
+      }
+    })
+  );
+
+  const completed = results.filter(Boolean);
+  return { analyzers: completed.map((result) => result.name), findings: completed.flatMap((result) => result.findings) };
+}
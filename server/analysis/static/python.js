@@ -0,0 +1,68 @@
+// Python syntax and compiler warnings from CPython itself, running in Pyodide so
+// no Python installation is needed. The interpreter is loaded on first use.
+import { loadPyodide } from "pyodide";
+
+export const extensions = ["py", "pyw"];
+
+// Compiles without running anything. compile() goes further than ast.parse and
+// also rejects misplaced return/yield/break and reports SyntaxWarnings such as
+// invalid escape sequences or `is` comparisons with literals.
+const CHECK_SCRIPT = `
+import json, warnings
+
+def _check(source, filename):
+    problems = []
+    with warnings.catch_warnings(record=True) as caught:
+        warnings.simplefilter("always")
+        try:
+            compile(source, filename, "exec", dont_inherit=True)
+        except SyntaxError as error:
+            problems.append({
+                "kind": "error",
+                "line": error.lineno or 1,
+                "endLine": error.end_lineno or error.lineno or 1,
+                "message": f"{type(error).__name__}: {error.msg}",
+            })
+        for warning in caught:
+            if issubclass(warning.category, SyntaxWarning):
+                problems.append({
+                    "kind": "warning",
+                    "line": warning.lineno or 1,
+                    "endLine": warning.lineno or 1,
+                    "message": f"SyntaxWarning: {warning.message}",
+                })
+    return json.dumps(problems)
+`;
+
+let interpreter = null;
+
+function getInterpreter() {
+  if (!interpreter) {
+    interpreter = loadPyodide().then((pyodide) => {
+      pyodide.runPython(CHECK_SCRIPT);
+      return pyodide;
+    });
+    // A failed load is retried with the next file
+    interpreter.catch(() => {
+      interpreter = null;
+    });
+  }
+  return interpreter;
+}
+
+export async function analyze(file) {
+  const pyodide = await getInterpreter();
+  const check = pyodide.globals.get("_check");
+  try {
+    return JSON.parse(check(file.content, file.path)).map((problem) => ({
+      severity: problem.kind === "error" ? "critical" : "low",
+      category: problem.kind === "error" ? "syntax" : "bug",
+      startLine: problem.line,
+      endLine: Math.max(problem.endLine, problem.line),
+      message: problem.message,
+      suggestedFix: "",
+    }));
+  } finally {
+    check.destroy();
+  }
+}
@@ -0,0 +1,98 @@
+// TypeScript compiler diagnostics for TS and JS files. One language service is
+// kept for the life of the server so the standard library is parsed only once.
+import ts from "typescript";
+
+export const extensions = ["ts", "tsx", "mts", "cts", "js", "jsx", "mjs", "cjs"];
+
+// A file that imports something the checker cannot see gets `any` types that
+// turn into misleading errors, so its type errors are only reported when every
+// import resolved. Syntax errors are always reported.
+const UNRESOLVED_IMPORT_CODES = new Set([2307, 2792, 7016]);
+
+const OPTIONS = {
+  target: ts.ScriptTarget.ES2022,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  jsx: ts.JsxEmit.Preserve,
+  lib: ["lib.es2022.d.ts", "lib.dom.d.ts"],
+  allowJs: true,
+  allowImportingTsExtensions: true,
+  noEmit: true,
+  skipLibCheck: true,
+  types: [],
+};
+
+// Reviewed files live under a virtual root so they never collide with real files on disk
+const ROOT = "/__review__/";
+// What bundlers such as Vite declare for every module
+const AMBIENT = `${ROOT}__ambient__.d.ts`;
+const AMBIENT_SOURCE = "interface ImportMeta { readonly env: Record<string, string | undefined>; }";
+
+// Current files by virtual path, with a version that changes with their content
+const files = new Map([[AMBIENT, { content: AMBIENT_SOURCE, version: 0 }]]);
+
+const service = ts.createLanguageService(
+  {
+    getScriptFileNames: () => [...files.keys()],
+    getScriptVersion: (name) => String(files.get(name)?.version ?? 0),
+    getScriptSnapshot: (name) => {
+      const content = files.get(name)?.content ?? (name.startsWith(ROOT) ? undefined : ts.sys.readFile(name));
+      return content === undefined ? undefined : ts.ScriptSnapshot.fromString(content);
+    },
+    getCurrentDirectory: () => ROOT,
+    getCompilationSettings: () => OPTIONS,
+    getDefaultLibFileName: ts.getDefaultLibFilePath,
+    fileExists: (name) => files.has(name) || (!name.startsWith(ROOT) && ts.sys.fileExists(name)),
+    readFile: (name) => files.get(name)?.content ?? (name.startsWith(ROOT) ? undefined : ts.sys.readFile(name)),
+    directoryExists: (name) => name.startsWith(ROOT) || ts.sys.directoryExists(name),
+    getDirectories: () => [],
+  },
+  ts.createDocumentRegistry()
+);
+
+const toVirtualPath = (path) => `${ROOT}${path.replace(/\\/g, "/").replace(/^\/+/, "").replace(/\.\.\//g, "")}`;
+
+// Replaces the checked files, keeping versions of unchanged ones so they are not parsed again
+function setFiles(sources) {
+  const next = new Map([[AMBIENT, files.get(AMBIENT)]]);
+  sources.forEach((source) => {
+    const name = toVirtualPath(source.path);
+    const current = files.get(name);
+    next.set(name, current?.content === source.content ? current : { content: source.content, version: (current?.version ?? 0) + 1 });
+  });
+  files.clear();
+  next.forEach((value, key) => files.set(key, value));
+}
+
+function toFinding(diagnostic, sourceFile, syntactic) {
+  const start = sourceFile.getLineAndCharacterOfPosition(diagnostic.start ?? 0).line + 1;
+  const end = sourceFile.getLineAndCharacterOfPosition((diagnostic.start ?? 0) + (diagnostic.length ?? 0)).line + 1;
+  const severity =
+    diagnostic.category === ts.DiagnosticCategory.Error ? "high" : diagnostic.category === ts.DiagnosticCategory.Warning ? "medium" : "info";
+  return {
+    severity: syntactic ? "critical" : severity,
+    category: syntactic ? "syntax" : "bug",
+    startLine: start,
+    endLine: end,
+    message: `${ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n")} (TS${diagnostic.code})`,
+    suggestedFix: "",
+  };
+}
+
+// `projectFiles` are the other files of the upload, so imports between them resolve.
+// Runs synchronously, so concurrent requests cannot see each other's files.
+export async function analyze(file, { projectFiles = [] } = {}) {
+  const name = toVirtualPath(file.path);
+  setFiles([...projectFiles.filter((other) => other.path !== file.path && extensions.includes(other.extension)), file]);
+
+  const sourceFile = service.getProgram().getSourceFile(name);
+  const syntactic = service.getSyntacticDiagnostics(name);
+  // Type errors on top of broken syntax are mostly follow-on noise
+  const semantic = syntactic.length ? [] : service.getSemanticDiagnostics(name);
+  const checked = semantic.some((diagnostic) => UNRESOLVED_IMPORT_CODES.has(diagnostic.code)) ? [] : semantic;
+
+  return [
+    ...syntactic.map((diagnostic) => toFinding(diagnostic, sourceFile, true)),
+    ...checked.map((diagnostic) => toFinding(diagnostic, sourceFile, false)),
+  ];
+}
@@ -0,0 +1,108 @@
+// Checks a model's correctedCode before it is offered to the user. The parsing
+// analyzers must not report errors the original did not have, and code with its
+// own tests or an entry point is run in the sandbox, before and after the fix.
+// The outcome is "verified" (every check that could run passed), "broken" (the
+// fix introduced an error) or "untested" (nothing could be checked).
+
+// Analyzers that parse or type-check; lint findings say nothing about whether a fix works
+export const CHECKING_ANALYZERS = ["typescript", "python"];
+
+const MAX_OUTPUT_CHARS = 2000;
+
+// Calls every zero-argument test_* function and exits non-zero when one fails
+const PYTHON_TEST_HARNESS = `
+
+def __verify_tests():
+    import inspect, sys, traceback
+    failed = 0
+    for name, test in list(globals().items()):
+        if not name.startswith("test_") or not inspect.isfunction(test):
+            continue
+        if any(p.default is p.empty for p in inspect.signature(test).parameters.values()):
+            continue
+        try:
+            test()
+        except Exception:
+            failed += 1
+            traceback.print_exc()
+    sys.exit(1 if failed else 0)
+
+__verify_tests()
+`;
+
+const RUN_LANGUAGES = { py: "python", js: "javascript", mjs: "javascript", cjs: "javascript", ts: "typescript" };
+
+// How to exercise a file in the sandbox, or null when it has no tests or entry point
+export function findRunTarget(file) {
+  const language = RUN_LANGUAGES[file.extension.toLowerCase()];
+  if (!language) return null;
+
+  if (language === "python") {
+    if (/^def test_\w*\s*\(\s*\)/m.test(file.content)) return { kind: "tests", language, prepare: (code) => `${code}${PYTHON_TEST_HARNESS}` };
+    if (/^if\s+__name__\s*==\s*["']__main__["']\s*:/m.test(file.content)) return { kind: "entrypoint", language, prepare: (code) => code };
+    return null;
+  }
+  // node:test runs the tests a file registers and exits non-zero when one fails
+  if (/["']node:test["']/.test(file.content)) return { kind: "tests", language, prepare: (code) => code };
+  if (/require\.main\s*===\s*module|import\.meta\.main\b/.test(file.content)) {
+    return { kind: "entrypoint", language, prepare: (code) => code };
+  }
+  return null;
+}
+
+const tail = (text) => (text.length > MAX_OUTPUT_CHARS ? `…${text.slice(-MAX_OUTPUT_CHARS)}` : text);
+
+// Errors are matched on their message only, since a fix moves lines around
+const errorKey = (finding) => `${finding.source}|${finding.message}`;
+const isError = (finding) => finding.severity === "critical" || finding.severity === "high";
+
+async function staticCheck(file, correctedCode, original, analyze) {
+  const { analyzers, findings } = await analyze({ ...file, content: correctedCode });
+  if (!analyzers.length) return null;
+
+  const existing = new Map();
+  original.filter(isError).forEach((finding) => existing.set(errorKey(finding), (existing.get(errorKey(finding)) ?? 0) + 1));
+  const introduced = findings.filter(isError).filter((finding) => {
+    const count = existing.get(errorKey(finding)) ?? 0;
+    existing.set(errorKey(finding), count - 1);
+    return count <= 0;
+  });
+
+  return {
+    name: analyzers.join("+"),
+    outcome: introduced.length ? "failed" : "passed",
+    details: introduced.map((finding) => `Line ${finding.startLine}: ${finding.message}`).join("\n"),
+  };
+}
+
+// The corrected code must run cleanly; when it does not, the original is run too
+// so that failures the fix did not cause (missing input, network) do not count against it.
+async function runCheck(file, correctedCode, target, run) {
+  const after = await run(target.language, target.prepare(correctedCode));
+  if (!after) return null;
+  if (after.status === "success") return { name: target.kind, outcome: "passed", details: "" };
+
+  const before = await run(target.language, target.prepare(file.content));
+  const output = tail(`${after.stderr || after.stdout}`.trim()) || `Exited with ${after.status}`;
+  if (!before || before.status !== "success") return { name: target.kind, outcome: "inconclusive", details: output };
+  return { name: target.kind, outcome: "failed", details: output };
+}
+
+// `analyze(file)` runs the checking analyzers and `run(language, source)` the
+// sandbox (resolving to null when it is unavailable); pass no `run` to skip execution.
+export async function verifyCorrection(file, correctedCode, { original = [], analyze, run }) {
+  const target = run ? findRunTarget(file) : null;
+  const checks = (
+    await Promise.all([
+      staticCheck(file, correctedCode, original, analyze),
+      target ? runCheck(file, correctedCode, target, run) : null,
+    ])
+  ).filter(Boolean);
+
+  const failed = checks.filter((check) => check.outcome === "failed");
+  let status = "untested";
+  if (failed.length) status = "broken";
+  else if (checks.some((check) => check.outcome === "passed")) status = "verified";
+
+  return { status, checks, errors: failed.map((check) => `${check.name}:\n${check.details}`) };
+}
@@ -0,0 +1,99 @@
+// Runtime configuration for the analysis server.
+// Everything can be overridden through environment variables so the same
+// build works against LM Studio, Ollama, llama.cpp or the mock provider.
+import { STATIC_ANALYZERS } from "./analysis/static/index.js";
+
+const PROVIDER_DEFAULTS = {
+  openai: { endpoint: "http://localhost:1234/v1", model: "deepseek-coder-7b-instruct" },
+  ollama: { endpoint: "http://localhost:11434", model: "deepseek-coder:6.7b-instruct" },
+  llamacpp: { endpoint: "http://localhost:8080", model: "default" },
+  mock: { endpoint: "", model: "mock-reviewer" },
+};
+
+// The Vite dev server and `vite preview`
+const UI_ORIGINS = "http://localhost:5173,http://127.0.0.1:5173,http://localhost:4173,http://127.0.0.1:4173";
+
+const VERIFY_MODES = ["run", "static", "off"];
+
+const toList = (value) => value.split(",").map((item) => item.trim()).filter(Boolean);
+
+const toNumber = (value, fallback) => {
+  const parsed = Number(value);
+  return value === undefined || value === "" || Number.isNaN(parsed) ? fallback : parsed;
+};
+
+export function loadConfig(env = process.env) {
+  const provider = (env.LLM_PROVIDER || "openai").toLowerCase();
+  const defaults = PROVIDER_DEFAULTS[provider];
+  if (!defaults) {
+    throw new Error(
+      `Unknown LLM_PROVIDER "${provider}". Expected one of: ${Object.keys(PROVIDER_DEFAULTS).join(", ")}`
+    );
+  }
+
+  // Comma-separated analyzer names; "none" turns static analysis off
+  const analyzers =
+    env.STATIC_ANALYZERS === undefined ? STATIC_ANALYZERS : env.STATIC_ANALYZERS.split(",").map((name) => name.trim().toLowerCase());
+  const enabledAnalyzers = analyzers.filter((name) => name && name !== "none");
+  const unknown = enabledAnalyzers.filter((name) => !STATIC_ANALYZERS.includes(name));
+  if (unknown.length) {
+    throw new Error(`Unknown STATIC_ANALYZERS "${unknown.join(", ")}". Expected any of: ${STATIC_ANALYZERS.join(", ")}`);
+  }
+
+  const verify = (env.VERIFY_CORRECTIONS || "static").toLowerCase();
+  if (!VERIFY_MODES.includes(verify)) {
+    throw new Error(`Unknown VERIFY_CORRECTIONS "${verify}". Expected one of: ${VERIFY_MODES.join(", ")}`);
+  }
+
+  return {
+    port: toNumber(env.PORT, 3000),
+    // The server runs code, so it only listens locally and only answers the
+    // UI's origins unless told otherwise
+    host: env.HOST || "127.0.0.1",
+    allowedOrigins: toList(env.ALLOWED_ORIGINS ?? UI_ORIGINS),
+    llm: {
+      provider,
+      endpoint: (env.LLM_ENDPOINT || defaults.endpoint).replace(/\/+$/, ""),
+      model: env.LLM_MODEL || defaults.model,
+      apiKey: env.LLM_API_KEY || "",
+      temperature: toNumber(env.LLM_TEMPERATURE, 0.2),
+      maxTokens: toNumber(env.LLM_MAX_TOKENS, 4000),
+      timeoutMs: toNumber(env.LLM_TIMEOUT_MS, 120000),
+      // Prompt plus reply must fit in the model's context window; larger files are reviewed in chunks
+      contextWindow: toNumber(env.LLM_CONTEXT_WINDOW, 8192),
+      // Token budget for related code from other project files in each review prompt
+      contextTokens: toNumber(env.LLM_CONTEXT_TOKENS, 1500),
+    },
+    cache: {
+      // JSON file the result cache is persisted to; results are only kept in memory when empty
+      file: env.CACHE_FILE || "",
+      maxEntries: toNumber(env.CACHE_MAX_ENTRIES, 5000),
+    },
+    analysis: {
+      // Compiler and linter passes run before the model; their findings ground the prompt
+      analyzers: enabledAnalyzers,
+      eslintConfig: env.ESLINT_CONFIG || "eslint.config.js",
+      // How corrections are checked: "run" also executes files with tests or an
+      // entry point, which means running the reviewed code, so it is opt-in
+      verify,
+    },
+    runner: {
+      cpuSeconds: toNumber(env.RUN_CPU_SECONDS, 5),
+      memoryMb: toNumber(env.RUN_MEMORY_MB, 256),
+      maxOutputBytes: toNumber(env.RUN_MAX_OUTPUT_KB, 64) * 1024,
+      timeoutMs: toNumber(env.RUN_TIMEOUT_MS, 10000),
+      maxConcurrent: toNumber(env.RUN_MAX_CONCURRENT, 2),
+      python: env.RUN_PYTHON || "python3",
+      shell: env.RUN_SHELL || "bash",
+    },
+    repository: {
+      // Directories local repositories may be read from; the server's own
+      // directory unless set, so no request can read elsewhere by default
+      roots: toList(env.REPO_ROOTS || process.cwd()),
+      maxFiles: toNumber(env.REPO_MAX_FILES, 5000),
+      maxTotalBytes: toNumber(env.REPO_MAX_MB, 50) * 1024 * 1024,
+      // Same limit as for uploads in the UI
+      maxFileBytes: 1024 * 1024,
+    },
+  };
+}
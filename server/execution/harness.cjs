@@ -0,0 +1,418 @@
+// Vitest/Jest-compatible test API for running generated tests in the sandbox,
+// where neither framework is installed. `require("vitest")` and
+// `require("@jest/globals")` resolve to this module, and the API is also
+// installed as globals. Run as `node harness.cjs <test file>`: it prints one
+// line starting with MARKER and holding the results as JSON.
+"use strict";
+const { isDeepStrictEqual, inspect } = require("node:util");
+const path = require("node:path");
+
+const MARKER = "__TEST_RESULTS__";
+const TEST_TIMEOUT_MS = 5000;
+
+// ---- Registration ----
+
+const createSuite = (name, parent, skip) => ({
+  name,
+  parent,
+  skip: skip || !!parent?.skip,
+  children: [],
+  beforeAll: [],
+  afterAll: [],
+  beforeEach: [],
+  afterEach: [],
+});
+
+const root = createSuite("", null, false);
+let current = root;
+
+const asArgs = (row) => (Array.isArray(row) ? row : [row]);
+const show = (value) => (typeof value === "string" ? value : inspect(value, { depth: 3, breakLength: Infinity }));
+
+// Fills printf-style (%s, %d, %#...) and $property placeholders of .each names
+function formatName(name, row, index) {
+  const args = asArgs(row);
+  let next = 0;
+  return String(name)
+    .replace(/%[sdifjopO#%]/g, (token) => (token === "%%" ? "%" : token === "%#" ? String(index) : show(args[next++])))
+    .replace(/\$([\w.]+)/g, (match, key) => (row && typeof row === "object" && key in row ? show(row[key]) : match));
+}
+
+function addSuite(name, fn, skip) {
+  const suite = createSuite(String(name), current, skip);
+  current.children.push(suite);
+  current = suite;
+  try {
+    fn?.();
+  } finally {
+    current = suite.parent;
+  }
+}
+
+const addTest = (name, fn, timeout, skip = false) =>
+  current.children.push({ name: String(name), fn, timeout, skip: skip || current.skip || !fn });
+
+function describe(name, fn) {
+  addSuite(name, fn, false);
+}
+describe.skip = (name, fn) => addSuite(name, fn, true);
+describe.only = describe;
+describe.each = (table) => (name, fn) =>
+  table.forEach((row, index) => describe(formatName(name, row, index), () => fn(...asArgs(row))));
+
+function test(name, fn, timeout) {
+  addTest(name, fn, timeout);
+}
+test.skip = (name, fn) => addTest(name, fn, undefined, true);
+test.todo = (name) => addTest(name, undefined, undefined, true);
+test.only = test;
+test.each = (table) => (name, fn, timeout) =>
+  table.forEach((row, index) => test(formatName(name, row, index), () => fn(...asArgs(row)), timeout));
+
+const hook = (kind) => (fn) => current[kind].push(fn);
+
+// ---- Assertions ----
+
+class AssertionError extends Error {
+  name = "AssertionError";
+}
+
+const isAsymmetric = (value) => value && typeof value.asymmetricMatch === "function";
+
+// Deep equality as in toEqual: undefined properties are ignored
+function equals(a, b) {
+  if (isAsymmetric(b)) return b.asymmetricMatch(a);
+  if (Object.is(a, b)) return true;
+  if (!a || !b || typeof a !== "object" || typeof b !== "object") return false;
+  if (Array.isArray(a) !== Array.isArray(b) || (Array.isArray(a) && a.length !== b.length)) return false;
+  if (a instanceof Date || a instanceof RegExp || a instanceof Map || a instanceof Set) return isDeepStrictEqual(a, b);
+  const keys = (value) => Object.keys(value).filter((key) => value[key] !== undefined);
+  const aKeys = keys(a);
+  const bKeys = keys(b);
+  return aKeys.length === bKeys.length && bKeys.every((key) => equals(a[key], b[key]));
+}
+
+// Whether `actual` has every property of `expected`, recursively, as in toMatchObject
+function matchesObject(actual, expected) {
+  if (isAsymmetric(expected)) return expected.asymmetricMatch(actual);
+  if (!expected || typeof expected !== "object" || !actual || typeof actual !== "object") return equals(actual, expected);
+  if (Array.isArray(expected)) {
+    return Array.isArray(actual) && actual.length === expected.length && expected.every((item, index) => matchesObject(actual[index], item));
+  }
+  return Object.keys(expected).every((key) => key in actual && matchesObject(actual[key], expected[key]));
+}
+
+function getPath(object, keyPath) {
+  const keys = Array.isArray(keyPath) ? keyPath : String(keyPath).replace(/\[(\w+)\]/g, ".$1").split(".");
+  let value = object;
+  for (const key of keys) {
+    if (value === null || value === undefined || !(key in Object(value))) return { found: false };
+    value = value[key];
+  }
+  return { found: true, value };
+}
+
+function thrownBy(fn) {
+  try {
+    fn();
+  } catch (error) {
+    return { threw: true, error };
+  }
+  return { threw: false };
+}
+
+function errorMatches(error, expected) {
+  if (expected === undefined) return true;
+  const message = error?.message ?? String(error);
+  if (typeof expected === "string") return message.includes(expected);
+  if (expected instanceof RegExp) return expected.test(message);
+  if (typeof expected === "function") return error instanceof expected;
+  if (expected instanceof Error) return message === expected.message;
+  return matchesObject(error, expected);
+}
+
+const mockOf = (value) => {
+  if (!value?.mock) throw new AssertionError(`${show(value)} is not a mock function`);
+  return value.mock;
+};
+
+// Each matcher returns [pass, message]; the message reads "expected ... to ...",
+// and " to " becomes " not to " when the assertion is negated. `this.rejected`
+// is set for `.rejects`, where the value is the rejection rather than a function.
+const MATCHERS = {
+  toBe: (actual, expected) => [Object.is(actual, expected), `expected ${show(actual)} to be ${show(expected)}`],
+  toEqual: (actual, expected) => [equals(actual, expected), `expected ${show(actual)} to equal ${show(expected)}`],
+  toStrictEqual: (actual, expected) => [isDeepStrictEqual(actual, expected), `expected ${show(actual)} to strictly equal ${show(expected)}`],
+  toMatchObject: (actual, expected) => [matchesObject(actual, expected), `expected ${show(actual)} to match ${show(expected)}`],
+  toBeTruthy: (actual) => [!!actual, `expected ${show(actual)} to be truthy`],
+  toBeFalsy: (actual) => [!actual, `expected ${show(actual)} to be falsy`],
+  toBeNull: (actual) => [actual === null, `expected ${show(actual)} to be null`],
+  toBeUndefined: (actual) => [actual === undefined, `expected ${show(actual)} to be undefined`],
+  toBeDefined: (actual) => [actual !== undefined, `expected ${show(actual)} to be defined`],
+  toBeNaN: (actual) => [Number.isNaN(actual), `expected ${show(actual)} to be NaN`],
+  toBeGreaterThan: (actual, expected) => [actual > expected, `expected ${show(actual)} to be greater than ${show(expected)}`],
+  toBeGreaterThanOrEqual: (actual, expected) => [actual >= expected, `expected ${show(actual)} to be >= ${show(expected)}`],
+  toBeLessThan: (actual, expected) => [actual < expected, `expected ${show(actual)} to be less than ${show(expected)}`],
+  toBeLessThanOrEqual: (actual, expected) => [actual <= expected, `expected ${show(actual)} to be <= ${show(expected)}`],
+  toBeCloseTo: (actual, expected, digits = 2) => [
+    Math.abs(actual - expected) < 10 ** -digits / 2,
+    `expected ${show(actual)} to be close to ${show(expected)}`,
+  ],
+  toBeInstanceOf: (actual, expected) => [actual instanceof expected, `expected ${show(actual)} to be an instance of ${expected?.name}`],
+  toContain: (actual, expected) => [
+    typeof actual === "string" ? actual.includes(expected) : [...(actual ?? [])].includes(expected),
+    `expected ${show(actual)} to contain ${show(expected)}`,
+  ],
+  toContainEqual: (actual, expected) => [
+    [...(actual ?? [])].some((item) => equals(item, expected)),
+    `expected ${show(actual)} to contain ${show(expected)}`,
+  ],
+  toHaveLength: (actual, expected) => [actual?.length === expected, `expected ${show(actual)} to have length ${expected}`],
+  toHaveProperty(actual, keyPath, ...value) {
+    const property = getPath(actual, keyPath);
+    return [
+      property.found && (!value.length || equals(property.value, value[0])),
+      `expected ${show(actual)} to have property ${show(keyPath)}${value.length ? ` equal to ${show(value[0])}` : ""}`,
+    ];
+  },
+  toMatch: (actual, expected) => [
+    typeof actual === "string" && (typeof expected === "string" ? actual.includes(expected) : expected.test(actual)),
+    `expected ${show(actual)} to match ${show(expected)}`,
+  ],
+  toThrow(actual, expected) {
+    const { threw, error } = this.rejected ? { threw: true, error: actual } : thrownBy(actual);
+    return [
+      threw && errorMatches(error, expected),
+      threw
+        ? `expected ${show(error?.message ?? error)} to match ${show(expected)}`
+        : `expected function to throw${expected === undefined ? "" : ` ${show(expected)}`}`,
+    ];
+  },
+  toHaveBeenCalled: (actual) => [mockOf(actual).calls.length > 0, "expected mock to have been called"],
+  toHaveBeenCalledTimes: (actual, expected) => [
+    mockOf(actual).calls.length === expected,
+    `expected mock to have been called ${expected} times, but it was called ${mockOf(actual).calls.length} times`,
+  ],
+  toHaveBeenCalledWith: (actual, ...expected) => [
+    mockOf(actual).calls.some((args) => equals(args, expected)),
+    `expected mock to have been called with ${show(expected)}, calls: ${show(mockOf(actual).calls)}`,
+  ],
+  toHaveBeenLastCalledWith: (actual, ...expected) => [
+    equals(mockOf(actual).calls.at(-1), expected),
+    `expected mock to have been last called with ${show(expected)}, calls: ${show(mockOf(actual).calls)}`,
+  ],
+  toHaveReturnedWith: (actual, expected) => [
+    mockOf(actual).results.some((result) => result.type === "return" && equals(result.value, expected)),
+    `expected mock to have returned ${show(expected)}`,
+  ],
+};
+MATCHERS.toThrowError = MATCHERS.toThrow;
+MATCHERS.toBeCalled = MATCHERS.toHaveBeenCalled;
+MATCHERS.toBeCalledTimes = MATCHERS.toHaveBeenCalledTimes;
+MATCHERS.toBeCalledWith = MATCHERS.toHaveBeenCalledWith;
+
+function assertions(actual, { negate = false, mode = null } = {}) {
+  const result = {};
+  Object.entries(MATCHERS).forEach(([name, matcher]) => {
+    const check = (value, args, rejected) => {
+      const [pass, message] = matcher.call({ rejected }, value, ...args);
+      if (pass === negate) throw new AssertionError(negate ? message.replace(" to ", " not to ") : message);
+    };
+    result[name] = (...args) => {
+      if (mode === "resolves") return Promise.resolve(actual).then((value) => check(value, args, false));
+      if (mode === "rejects") {
+        return Promise.resolve(actual).then(
+          (value) => {
+            throw new AssertionError(`expected promise to reject, but it resolved to ${show(value)}`);
+          },
+          (error) => check(error, args, true)
+        );
+      }
+      check(actual, args, false);
+    };
+  });
+  return result;
+}
+
+function expect(actual) {
+  return Object.assign(assertions(actual), {
+    not: assertions(actual, { negate: true }),
+    resolves: Object.assign(assertions(actual, { mode: "resolves" }), { not: assertions(actual, { negate: true, mode: "resolves" }) }),
+    rejects: Object.assign(assertions(actual, { mode: "rejects" }), { not: assertions(actual, { negate: true, mode: "rejects" }) }),
+  });
+}
+
+const asymmetric = (description, match) => ({ asymmetricMatch: match, [inspect.custom]: () => description });
+expect.anything = () => asymmetric("Anything", (value) => value !== null && value !== undefined);
+expect.any = (type) =>
+  asymmetric(`Any<${type?.name}>`, (value) =>
+    type === Number ? typeof value === "number" : type === String ? typeof value === "string" : type === Boolean ? typeof value === "boolean" : value instanceof type
+  );
+expect.stringContaining = (text) => asymmetric(`StringContaining ${show(text)}`, (value) => typeof value === "string" && value.includes(text));
+expect.stringMatching = (pattern) =>
+  asymmetric(`StringMatching ${show(pattern)}`, (value) => typeof value === "string" && new RegExp(pattern).test(value));
+expect.objectContaining = (object) => asymmetric(`ObjectContaining ${show(object)}`, (value) => matchesObject(value, object));
+expect.arrayContaining = (items) =>
+  asymmetric(`ArrayContaining ${show(items)}`, (value) => Array.isArray(value) && items.every((item) => value.some((other) => equals(other, item))));
+expect.assertions = () => {};
+expect.hasAssertions = () => {};
+
+// ---- Mocks ----
+
+const mocks = [];
+
+function fn(implementation) {
+  let impl = implementation;
+  const queued = [];
+  const mock = function (...args) {
+    mock.mock.calls.push(args);
+    try {
+      const next = queued.length ? queued.shift() : impl;
+      const value = next ? next.apply(this, args) : undefined;
+      mock.mock.results.push({ type: "return", value });
+      return value;
+    } catch (error) {
+      mock.mock.results.push({ type: "throw", value: error });
+      throw error;
+    }
+  };
+  mock.mock = { calls: [], results: [] };
+  mock.mockImplementation = (next) => ((impl = next), mock);
+  mock.mockImplementationOnce = (next) => (queued.push(next), mock);
+  mock.mockReturnValue = (value) => mock.mockImplementation(() => value);
+  mock.mockReturnValueOnce = (value) => mock.mockImplementationOnce(() => value);
+  mock.mockResolvedValue = (value) => mock.mockImplementation(() => Promise.resolve(value));
+  mock.mockResolvedValueOnce = (value) => mock.mockImplementationOnce(() => Promise.resolve(value));
+  mock.mockRejectedValue = (error) => mock.mockImplementation(() => Promise.reject(error));
+  mock.mockRejectedValueOnce = (error) => mock.mockImplementationOnce(() => Promise.reject(error));
+  mock.mockClear = () => ((mock.mock.calls = []), (mock.mock.results = []), mock);
+  mock.mockReset = () => (mock.mockClear(), (impl = undefined), (queued.length = 0), mock);
+  mock.mockRestore = mock.mockReset;
+  mocks.push(mock);
+  return mock;
+}
+
+function spyOn(object, key) {
+  const original = object[key];
+  const spy = fn(function (...args) {
+    return original.apply(this, args);
+  });
+  spy.mockRestore = () => {
+    object[key] = original;
+  };
+  object[key] = spy;
+  return spy;
+}
+
+const vi = {
+  fn,
+  spyOn,
+  isMockFunction: (value) => mocks.includes(value),
+  clearAllMocks: () => mocks.forEach((mock) => mock.mockClear()),
+  resetAllMocks: () => mocks.forEach((mock) => mock.mockReset()),
+  restoreAllMocks: () => mocks.forEach((mock) => mock.mockRestore()),
+};
+
+// ---- Running ----
+
+// A test that takes an argument gets a `done` callback, as in Jest
+const call = (testFn) =>
+  testFn.length > 0 ? new Promise((resolve, reject) => testFn((error) => (error ? reject(error) : resolve()))) : testFn();
+
+function withTimeout(promise, ms) {
+  let timer;
+  const timeout = new Promise((resolve, reject) => {
+    timer = setTimeout(() => reject(new Error(`Test timed out after ${ms} ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// Assertion failures are described by their message; other errors also get
+// the first stack frame outside the harness, and syntax errors their location
+function describeError(error) {
+  if (!(error instanceof Error)) return String(error);
+  if (error.name === "AssertionError") return error.message;
+  const heading = `${error.name}: ${error.message}`;
+  if (error instanceof SyntaxError && error.stack?.includes("\n\n")) return `${error.stack.split("\n\n")[0]}\n${heading}`;
+  const frame = error.stack?.split("\n").find((line) => /^\s+at /.test(line) && !/__harness__|node:/.test(line));
+  return frame ? `${heading}\n${frame.trim()}` : heading;
+}
+
+// Hooks of a suite and its parents, outermost first
+const hooksOf = (suite, kind) => (suite ? [...hooksOf(suite.parent, kind), ...suite[kind]] : []);
+
+async function runHooks(hooks) {
+  for (const hookFn of hooks) await withTimeout(Promise.resolve().then(() => call(hookFn)), TEST_TIMEOUT_MS);
+}
+
+const testsIn = (suite, names) =>
+  suite.children.flatMap((child) => (child.children ? testsIn(child, [...names, child.name]) : [[...names, child.name].join(" > ")]));
+
+async function runSuite(suite, names, results) {
+  const prefix = suite.name ? [...names, suite.name] : names;
+  if (!suite.skip) {
+    try {
+      await runHooks(suite.beforeAll);
+    } catch (error) {
+      testsIn(suite, prefix).forEach((name) => results.push({ name, status: "failed", message: `beforeAll: ${describeError(error)}` }));
+      return;
+    }
+  }
+
+  for (const child of suite.children) {
+    if (child.children) {
+      await runSuite(child, prefix, results);
+      continue;
+    }
+    const name = [...prefix, child.name].join(" > ");
+    if (child.skip) {
+      results.push({ name, status: "skipped", message: "" });
+      continue;
+    }
+    try {
+      await runHooks(hooksOf(suite, "beforeEach"));
+      await withTimeout(Promise.resolve().then(() => call(child.fn)), child.timeout ?? TEST_TIMEOUT_MS);
+      await runHooks(hooksOf(suite, "afterEach").reverse());
+      results.push({ name, status: "passed", message: "" });
+    } catch (error) {
+      results.push({ name, status: "failed", message: describeError(error) });
+    }
+  }
+
+  if (!suite.skip) await runHooks(suite.afterAll).catch(() => {});
+}
+
+const api = {
+  describe,
+  suite: describe,
+  it: test,
+  test,
+  expect,
+  vi,
+  jest: vi,
+  beforeAll: hook("beforeAll"),
+  afterAll: hook("afterAll"),
+  beforeEach: hook("beforeEach"),
+  afterEach: hook("afterEach"),
+};
+module.exports = api;
+
+// Stdout may be a pipe, so exit only once the report has been written
+const report = (fields, exitCode) => process.stdout.write(`\n${MARKER}${JSON.stringify(fields)}\n`, () => process.exit(exitCode));
+
+async function main() {
+  // A stray rejection in the code under test must not end the run before the report
+  process.on("unhandledRejection", () => {});
+  Object.assign(globalThis, api);
+  try {
+    require(path.resolve(process.argv[2]));
+  } catch (error) {
+    report({ error: describeError(error) }, 1);
+    return;
+  }
+  const results = [];
+  await runSuite(root, [], results);
+  report({ tests: results }, 0);
+}
+
+if (require.main === module) main();
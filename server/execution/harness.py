@@ -0,0 +1,97 @@
+# Runs generated Python tests in the sandbox: unittest.TestCase classes and,
+# pytest-style, module-level test_* functions taking no arguments. Run as
+# `python harness.py <test directory> <test module>`; prints one line starting
+# with MARKER and holding the results as JSON.
+import asyncio
+import importlib
+import inspect
+import json
+import os
+import sys
+import traceback
+import unittest
+
+MARKER = "__TEST_RESULTS__"
+
+results = []
+
+
+def report(**fields):
+    sys.stdout.flush()
+    sys.stdout.write("\n" + MARKER + json.dumps(fields) + "\n")
+    sys.stdout.flush()
+
+
+def describe(err):
+    return "".join(traceback.format_exception_only(err[0], err[1])).strip()
+
+
+def add(name, status, message=""):
+    results.append({"name": name, "status": status, "message": message})
+
+
+class Collector(unittest.TestResult):
+    @staticmethod
+    def name(test):
+        return ".".join(test.id().split(".")[-2:])
+
+    def addSuccess(self, test):
+        add(self.name(test), "passed")
+
+    def addFailure(self, test, err):
+        add(self.name(test), "failed", describe(err))
+
+    def addError(self, test, err):
+        add(self.name(test), "failed", describe(err))
+
+    def addSkip(self, test, reason):
+        add(self.name(test), "skipped", reason)
+
+    def addExpectedFailure(self, test, err):
+        add(self.name(test), "passed")
+
+    def addUnexpectedSuccess(self, test):
+        add(self.name(test), "failed", "Unexpected success")
+
+
+def run_functions(module):
+    for name, test in list(vars(module).items()):
+        if not name.startswith("test_") or not inspect.isfunction(test) or test.__module__ != module.__name__:
+            continue
+        if any(p.default is p.empty for p in inspect.signature(test).parameters.values()):
+            continue
+        try:
+            outcome = test()
+            if inspect.iscoroutine(outcome):
+                asyncio.run(outcome)
+            add(name, "passed")
+        except AssertionError as error:
+            add(name, "failed", str(error) or "AssertionError")
+        except BaseException:
+            add(name, "failed", describe(sys.exc_info()))
+
+
+def main():
+    test_dir, test_module = sys.argv[1], sys.argv[2]
+    sys.path.insert(0, os.path.abspath(test_dir))
+    try:
+        module = importlib.import_module(test_module)
+    except BaseException:
+        kind, error, tb = sys.exc_info()
+        # Only frames in the uploaded files, not in importlib or this harness
+        frames = [
+            f
+            for f in traceback.extract_tb(tb)
+            if not f.filename.startswith("<")
+            and os.path.abspath(f.filename).startswith(os.getcwd())
+            and os.path.abspath(f.filename) != os.path.abspath(__file__)
+        ]
+        report(error="".join(traceback.format_list(frames) + traceback.format_exception_only(kind, error)).strip())
+        sys.exit(1)
+
+    unittest.defaultTestLoader.loadTestsFromModule(module).run(Collector())
+    run_functions(module)
+    report(tests=results)
+
+
+main()
@@ -0,0 +1,180 @@
+// Self-hosted code runner. Each run gets a fresh temporary directory, a
+// stripped-down environment and its own process group; CPU time, memory and
+// output are capped and the whole group is killed on timeout.
+//
+// This is process-level isolation, not a container: run the server as an
+// unprivileged user if untrusted code will be executed.
+import { spawn } from "node:child_process";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { StringDecoder } from "node:string_decoder";
+import ts from "typescript";
+
+const IS_POSIX = process.platform !== "win32";
+
+// TypeScript and ES module syntax turned into CommonJS that Node runs without a loader
+export const toCommonJs = (source, fileName) =>
+  ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2022,
+      esModuleInterop: true,
+      jsx: ts.JsxEmit.React,
+      allowJs: true,
+    },
+    fileName,
+  }).outputText;
+
+// Runtimes keyed by language id. `prepare` writes the program into the sandbox
+// directory and returns the command to execute. Node reserves far more virtual
+// memory than it uses, so its heap is capped with a V8 flag instead of ulimit -v.
+export const RUNTIMES = {
+  javascript: {
+    limitVirtualMemory: false,
+    prepare: async (dir, source, limits) => {
+      await writeFile(join(dir, "main.js"), source);
+      return [process.execPath, [`--max-old-space-size=${limits.memoryMb}`, "main.js"]];
+    },
+  },
+  typescript: {
+    limitVirtualMemory: false,
+    prepare: async (dir, source, limits) => {
+      await writeFile(join(dir, "main.js"), toCommonJs(source, "main.ts"));
+      return [process.execPath, [`--max-old-space-size=${limits.memoryMb}`, "main.js"]];
+    },
+  },
+  python: {
+    limitVirtualMemory: true,
+    prepare: async (dir, source, limits) => {
+      await writeFile(join(dir, "main.py"), source);
+      return [limits.python, ["-I", "main.py"]];
+    },
+  },
+  shell: {
+    limitVirtualMemory: true,
+    prepare: async (dir, source, limits) => {
+      await writeFile(join(dir, "main.sh"), source);
+      return [limits.shell, ["main.sh"]];
+    },
+  },
+};
+
+export const SUPPORTED_LANGUAGES = Object.keys(RUNTIMES);
+
+// Wraps the command in a shell that applies resource limits before exec'ing it.
+function withLimits([command, args], limits, limitVirtualMemory) {
+  if (!IS_POSIX) return [command, args];
+  const ulimits = [`ulimit -St ${limits.cpuSeconds}`, `ulimit -Ht ${limits.cpuSeconds + 1}`, "ulimit -f 10240", "ulimit -c 0"];
+  if (limitVirtualMemory) ulimits.push(`ulimit -v ${limits.memoryMb * 1024}`);
+  return ["/bin/sh", ["-c", `${ulimits.join("; ")}; exec "$0" "$@"`, command, ...args]];
+}
+
+export async function runCode({ language, source, stdin = "" }, limits) {
+  const runtime = RUNTIMES[language];
+  if (!runtime) {
+    throw new Error(`Unsupported language "${language}". Expected one of: ${SUPPORTED_LANGUAGES.join(", ")}`);
+  }
+  return runInSandbox((dir) => runtime.prepare(dir, source, limits), limits, { stdin, limitVirtualMemory: runtime.limitVirtualMemory });
+}
+
+// Runs a program of several files: `prepare(dir)` writes them into a fresh
+// sandbox directory and returns the command to execute, as a runtime does.
+export async function runInSandbox(prepare, limits, { stdin = "", limitVirtualMemory = true } = {}) {
+  const dir = await mkdtemp(join(tmpdir(), "code-amplifier-"));
+  try {
+    const [command, args] = withLimits(await prepare(dir), limits, limitVirtualMemory);
+    return await execute(command, args, dir, stdin, limits);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+function execute(command, args, cwd, stdin, limits) {
+  return new Promise((resolve) => {
+    const startedAt = process.hrtime.bigint();
+    const child = spawn(command, args, {
+      cwd,
+      detached: IS_POSIX,
+      env: { PATH: process.env.PATH, HOME: cwd, TMPDIR: cwd, LANG: "C.UTF-8", PYTHONDONTWRITEBYTECODE: "1" },
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+
+    const output = { stdout: "", stderr: "" };
+    let outputBytes = 0;
+    let outputTruncated = false;
+    let timedOut = false;
+
+    const kill = () => {
+      try {
+        if (IS_POSIX) process.kill(-child.pid, "SIGKILL");
+        else child.kill("SIGKILL");
+      } catch {
+        // already exited
+      }
+    };
+
+    // Decoders keep a character split across chunks until its remaining bytes arrive
+    const decoders = { stdout: new StringDecoder("utf8"), stderr: new StringDecoder("utf8") };
+    const collect = (stream) => (chunk) => {
+      if (outputTruncated) return;
+      const remaining = limits.maxOutputBytes - outputBytes;
+      outputBytes += chunk.length;
+      if (chunk.length > remaining) {
+        // The limit is in bytes; a character cut in half at it is dropped
+        output[stream] += decoders[stream].write(chunk.subarray(0, Math.max(remaining, 0)));
+        outputTruncated = true;
+        kill();
+      } else {
+        output[stream] += decoders[stream].write(chunk);
+      }
+    };
+
+    child.stdout.on("data", collect("stdout"));
+    child.stderr.on("data", collect("stderr"));
+    child.stdin.on("error", () => {}); // the program may exit without reading stdin
+    child.stdin.end(stdin);
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      kill();
+    }, limits.timeoutMs);
+
+    child.on("error", (error) => {
+      clearTimeout(timer);
+      resolve({
+        stdout: "",
+        stderr: `Failed to start ${command}: ${error.message}`,
+        exitCode: null,
+        signal: null,
+        timeMs: 0,
+        status: "error",
+        outputTruncated: false,
+      });
+    });
+
+    child.on("close", (exitCode, signal) => {
+      clearTimeout(timer);
+      const timeMs = Number(process.hrtime.bigint() - startedAt) / 1e6;
+      const cpuExceeded = signal === "SIGXCPU";
+
+      let status = exitCode === 0 ? "success" : "runtime_error";
+      if (timedOut || cpuExceeded) status = "timeout";
+      else if (outputTruncated) status = "output_limit";
+      else {
+        output.stdout += decoders.stdout.end();
+        output.stderr += decoders.stderr.end();
+      }
+
+      resolve({
+        stdout: output.stdout,
+        stderr: output.stderr,
+        exitCode,
+        signal,
+        timeMs: Math.round(timeMs),
+        status,
+        outputTruncated,
+      });
+    });
+  });
+}
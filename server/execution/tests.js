@@ -0,0 +1,107 @@
+// Runs generated unit tests in the sandbox against a file, together with the
+// rest of its project so imports between files resolve. JS and TS tests use the
+// Vitest/Jest API provided by harness.cjs; Python tests use unittest, run by
+// harness.py. Each run reports pass/fail per test.
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { runInSandbox, toCommonJs } from "./runner.js";
+
+const MARKER = "__TEST_RESULTS__";
+const MAX_MESSAGE_CHARS = 1000;
+
+const JS_EXTENSIONS = ["js", "mjs", "cjs", "jsx", "ts", "mts", "cts", "tsx"];
+
+const harnessSource = (name) => readFile(new URL(name, import.meta.url), "utf8");
+
+// Keeps uploaded paths inside the sandbox directory
+const safePath = (path) =>
+  path
+    .replace(/\\/g, "/")
+    .split("/")
+    .filter((part) => part && part !== "." && part !== "..")
+    .join("/");
+
+const stem = (path) => path.split("/").pop().replace(/\.[^.]+$/, "");
+
+async function write(dir, path, content) {
+  await mkdir(dirname(join(dir, path)), { recursive: true });
+  await writeFile(join(dir, path), content);
+}
+
+// How tests for a file are written and named, or null when its language has no test runner.
+// `importName` is what the tests import the file as.
+export function testSetupFor(file) {
+  const extension = file.extension.toLowerCase();
+  const path = safePath(file.path);
+  const directory = path.includes("/") ? `${dirname(path)}/` : "";
+  if (extension === "py") {
+    return { language: "python", framework: "unittest", importName: stem(path), testPath: `${directory}test_${stem(path)}.py` };
+  }
+  if (JS_EXTENSIONS.includes(extension)) {
+    const testExtension = ["ts", "mts", "cts", "tsx"].includes(extension) ? "ts" : "js";
+    return { language: "javascript", framework: "Vitest", importName: `./${stem(path)}`, testPath: `${directory}${stem(path)}.test.${testExtension}` };
+  }
+  return null;
+}
+
+// Every JS and TS file becomes CommonJS under a .js name, so the tests and the
+// project can require one another without extensions or a module loader
+async function prepareJavaScript(dir, files, setup, limits) {
+  await Promise.all([
+    ...files.map((file) =>
+      JS_EXTENSIONS.includes(file.extension.toLowerCase())
+        ? write(dir, safePath(file.path).replace(/\.[^.]+$/, ".js"), toCommonJs(file.content, file.path))
+        : write(dir, safePath(file.path), file.content)
+    ),
+    harnessSource("harness.cjs").then((source) => write(dir, "__harness__.cjs", source)),
+    write(dir, "node_modules/vitest/index.js", 'module.exports = require("../../__harness__.cjs");\n'),
+    write(dir, "node_modules/@jest/globals/index.js", 'module.exports = require("../../../__harness__.cjs");\n'),
+  ]);
+  const testFile = setup.testPath.replace(/\.[^.]+$/, ".js");
+  return [process.execPath, [`--max-old-space-size=${limits.memoryMb}`, "__harness__.cjs", testFile]];
+}
+
+async function preparePython(dir, files, setup, limits) {
+  await Promise.all([
+    ...files.map((file) => write(dir, safePath(file.path), file.content)),
+    harnessSource("harness.py").then((source) => write(dir, "__harness__.py", source)),
+  ]);
+  const testDirectory = setup.testPath.includes("/") ? dirname(setup.testPath) : ".";
+  return [limits.python, ["-I", "__harness__.py", testDirectory, stem(setup.testPath)]];
+}
+
+// Paths in messages are shown relative to the project, without the sandbox directory
+const clean = (text) => {
+  const relative = text.replace(/[^\s"'(]*code-amplifier-\w{6}\//g, "");
+  return relative.length > MAX_MESSAGE_CHARS ? `${relative.slice(0, MAX_MESSAGE_CHARS)}…` : relative;
+};
+
+function toOutcome(run, limits) {
+  const line = run.stdout
+    .split("\n")
+    .reverse()
+    .find((candidate) => candidate.startsWith(MARKER));
+  const report = line ? JSON.parse(line.slice(MARKER.length)) : {};
+  const tests = (report.tests ?? []).map((test) => ({ ...test, message: clean(test.message) }));
+
+  let error = report.error ?? "";
+  if (!line && run.status === "timeout") error = `Tests did not finish within ${limits.timeoutMs} ms`;
+  else if (!line) error = `${run.stderr || run.stdout}`.trim() || `Exited with ${run.status}`;
+  return { status: run.status, tests, error: clean(error) };
+}
+
+// Runs `tests` (the source of the file at setup.testPath) against `code` as the
+// content of `file`. `projectFiles` are the other files of the upload.
+// Resolves to { status, tests: [{ name, status, message }], error }.
+export async function runTests({ file, code, tests, setup, projectFiles = [] }, limits) {
+  const files = [
+    ...projectFiles.filter((other) => other.path !== file.path && other.path !== setup.testPath),
+    { ...file, content: code },
+    { path: setup.testPath, extension: setup.testPath.split(".").pop(), content: tests },
+  ];
+  const prepare = setup.language === "python" ? preparePython : prepareJavaScript;
+  const run = await runInSandbox((dir) => prepare(dir, files, setup, limits), limits, {
+    limitVirtualMemory: setup.language === "python",
+  });
+  return toOutcome(run, limits);
+}
@@ -0,0 +1,27 @@
+import { createOpenAIProvider } from "./openai.js";
+import { createOllamaProvider } from "./ollama.js";
+import { createLlamaCppProvider } from "./llamacpp.js";
+import { createMockProvider } from "./mock.js";
+
+// Every provider exposes the same shape:
+//   {
+//     name, model, endpoint,
+//     chat(messages, { temperature, maxTokens, json, signal }) => Promise<string>,
+//     stream(messages, options) => AsyncIterable<string>   // yields text deltas
+//   }
+// `json` is a hint that the caller expects a JSON object; providers that support
+// constrained output use it, the others rely on the prompt.
+const FACTORIES = {
+  openai: createOpenAIProvider,
+  ollama: createOllamaProvider,
+  llamacpp: createLlamaCppProvider,
+  mock: createMockProvider,
+};
+
+export function createProvider(llmConfig) {
+  const factory = FACTORIES[llmConfig.provider];
+  if (!factory) {
+    throw new Error(`Unsupported LLM provider: ${llmConfig.provider}`);
+  }
+  return factory(llmConfig);
+}
@@ -0,0 +1,53 @@
+import axios from "axios";
+import { readSseData } from "./stream.js";
+
+// Flattens a chat transcript into a single prompt for the /completion endpoint.
+export function formatPrompt(messages) {
+  const turns = messages.map(({ role, content }) => {
+    const label = role === "system" ? "System" : role === "assistant" ? "Assistant" : "User";
+    return `### ${label}:\n${content}`;
+  });
+  return `${turns.join("\n\n")}\n\n### Assistant:\n`;
+}
+
+// llama.cpp server native API (POST /completion)
+export function createLlamaCppProvider(config) {
+  const body = (messages, options) => ({
+    prompt: formatPrompt(messages),
+    temperature: options.temperature ?? config.temperature,
+    n_predict: options.maxTokens ?? config.maxTokens,
+    stop: ["### User:", "### System:"],
+  });
+
+  return {
+    name: "llamacpp",
+    model: config.model,
+    endpoint: config.endpoint,
+
+    async chat(messages, options = {}) {
+      const response = await axios.post(`${config.endpoint}/completion`, body(messages, options), {
+        timeout: config.timeoutMs,
+        signal: options.signal,
+      });
+
+      const content = response.data?.content;
+      if (typeof content !== "string") {
+        throw new Error("Invalid response from llama.cpp server");
+      }
+      return content;
+    },
+
+    async *stream(messages, options = {}) {
+      const response = await axios.post(
+        `${config.endpoint}/completion`,
+        { ...body(messages, options), stream: true },
+        { responseType: "stream", signal: options.signal }
+      );
+
+      for await (const event of readSseData(response.data)) {
+        if (event.content) yield event.content;
+        if (event.stop) return;
+      }
+    },
+  };
+}
@@ -0,0 +1,50 @@
+import axios from "axios";
+import { readLines } from "./stream.js";
+
+// Ollama native API (POST /api/chat)
+export function createOllamaProvider(config) {
+  const body = (messages, options, stream) => ({
+    model: config.model,
+    messages,
+    stream,
+    ...(options.json ? { format: "json" } : {}),
+    options: {
+      temperature: options.temperature ?? config.temperature,
+      num_predict: options.maxTokens ?? config.maxTokens,
+    },
+  });
+
+  return {
+    name: "ollama",
+    model: config.model,
+    endpoint: config.endpoint,
+
+    async chat(messages, options = {}) {
+      const response = await axios.post(`${config.endpoint}/api/chat`, body(messages, options, false), {
+        timeout: config.timeoutMs,
+        signal: options.signal,
+      });
+
+      const content = response.data?.message?.content;
+      if (typeof content !== "string") {
+        throw new Error("Invalid response from Ollama");
+      }
+      return content;
+    },
+
+    // Ollama streams newline-delimited JSON rather than SSE.
+    async *stream(messages, options = {}) {
+      const response = await axios.post(`${config.endpoint}/api/chat`, body(messages, options, true), {
+        responseType: "stream",
+        signal: options.signal,
+      });
+
+      for await (const line of readLines(response.data)) {
+        if (!line.trim()) continue;
+        const event = JSON.parse(line);
+        if (event.message?.content) yield event.message.content;
+        if (event.done) return;
+      }
+    },
+  };
+}
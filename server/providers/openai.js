@@ -0,0 +1,48 @@
+import axios from "axios";
+import { readSseData } from "./stream.js";
+
+// OpenAI-compatible chat completions (LM Studio, vLLM, OpenAI, LocalAI, ...)
+export function createOpenAIProvider(config) {
+  const headers = { "Content-Type": "application/json" };
+  if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+
+  const body = (messages, options) => ({
+    model: config.model,
+    messages,
+    temperature: options.temperature ?? config.temperature,
+    max_tokens: options.maxTokens ?? config.maxTokens,
+  });
+
+  return {
+    name: "openai",
+    model: config.model,
+    endpoint: config.endpoint,
+
+    async chat(messages, options = {}) {
+      const response = await axios.post(`${config.endpoint}/chat/completions`, body(messages, options), {
+        headers,
+        timeout: config.timeoutMs,
+        signal: options.signal,
+      });
+
+      const content = response.data?.choices?.[0]?.message?.content;
+      if (typeof content !== "string") {
+        throw new Error("Invalid response from OpenAI-compatible endpoint");
+      }
+      return content;
+    },
+
+    async *stream(messages, options = {}) {
+      const response = await axios.post(
+        `${config.endpoint}/chat/completions`,
+        { ...body(messages, options), stream: true },
+        { headers, responseType: "stream", signal: options.signal }
+      );
+
+      for await (const event of readSseData(response.data)) {
+        const token = event.choices?.[0]?.delta?.content;
+        if (token) yield token;
+      }
+    },
+  };
+}
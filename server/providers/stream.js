@@ -0,0 +1,31 @@
+// Helpers for consuming streamed HTTP responses from model servers.
+import { StringDecoder } from "node:string_decoder";
+
+// Yields complete lines from a Node readable stream of UTF-8 chunks. A character
+// split across two chunks is held back until its remaining bytes arrive.
+export async function* readLines(stream) {
+  const decoder = new StringDecoder("utf8");
+  let buffer = "";
+  for await (const chunk of stream) {
+    buffer += decoder.write(chunk);
+    let newline;
+    while ((newline = buffer.indexOf("\n")) !== -1) {
+      yield buffer.slice(0, newline).replace(/\r$/, "");
+      buffer = buffer.slice(newline + 1);
+    }
+  }
+  buffer += decoder.end();
+  if (buffer) yield buffer;
+}
+
+// Yields the JSON payload of each `data:` line of a Server-Sent Events stream,
+// stopping at the OpenAI-style `[DONE]` sentinel.
+export async function* readSseData(stream) {
+  for await (const line of readLines(stream)) {
+    if (!line.startsWith("data:")) continue;
+    const data = line.slice(5).trim();
+    if (data === "[DONE]") return;
+    if (!data) continue;
+    yield JSON.parse(data);
+  }
+}
@@ -0,0 +1,14 @@
+// Report formats written by the CLI, by name. Each turns a report (see
+// summary.js) into the text of one file.
+import { toJunit } from "./junit.js";
+import { toMarkdown } from "./markdown.js";
+import { toSarif } from "./sarif.js";
+
+export { evaluateGate, summarize } from "./summary.js";
+
+export const REPORT_FORMATS = {
+  sarif: toSarif,
+  json: (report) => `${JSON.stringify(report, null, 2)}\n`,
+  junit: toJunit,
+  markdown: toMarkdown,
+};
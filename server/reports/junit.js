@@ -0,0 +1,59 @@
+// JUnit XML for CI test report views: one test case per file, failing when
+// the file fails the gate and erroring when it could not be reviewed.
+import { bySeverity, formatLines, summarize } from "./summary.js";
+
+// Characters XML 1.0 does not allow at all are dropped
+const escapeXml = (text) =>
+  String(text)
+    .replace(/[^\t\n\r\u0020-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const seconds = (ms = 0) => (ms / 1000).toFixed(3);
+
+const describeFindings = (file) =>
+  [
+    `Score: ${file.score}`,
+    file.summary,
+    ...[...file.findings].sort(bySeverity).map((finding) => `${formatLines(finding)} [${finding.severity}/${finding.category}] ${finding.message}`),
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+export function toJunit(report) {
+  const summary = summarize(report);
+  const failures = new Map(report.gate.failures.map((failure) => [failure.path, failure.reasons]));
+  const totalMs = report.files.reduce((sum, file) => sum + (file.timeMs ?? 0), 0);
+
+  const cases = report.files.map((file) => {
+    const attributes = `name="${escapeXml(file.path)}" classname="code-amplifier" time="${seconds(file.timeMs)}"`;
+    if (file.error) {
+      return `    <testcase ${attributes}>\n      <error message="${escapeXml(file.error)}"/>\n    </testcase>`;
+    }
+    const reasons = failures.get(file.path);
+    const body = reasons
+      ? `<failure message="${escapeXml(reasons.join("; "))}" type="gate">${escapeXml(describeFindings(file))}</failure>`
+      : `<system-out>${escapeXml(describeFindings(file))}</system-out>`;
+    return `    <testcase ${attributes}>\n      ${body}\n    </testcase>`;
+  });
+
+  const counts = `tests="${summary.files}" failures="${failures.size}" errors="${summary.errors}" time="${seconds(totalMs)}"`;
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="Code-Amplifier" ${counts}>`,
+    `  <testsuite name="code-amplifier review" ${counts} skipped="0" timestamp="${report.createdAt}">`,
+    "    <properties>",
+    ...[
+      ["model", report.model],
+      ["provider", report.provider],
+      ["profile", report.profile.id],
+    ].map(([name, value]) => `      <property name="${name}" value="${escapeXml(value)}"/>`),
+    "    </properties>",
+    ...cases,
+    "  </testsuite>",
+    "</testsuites>",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,63 @@
+// Markdown summary, short enough to post as a pull request comment: totals,
+// the gate, a table of files and the findings of every file that has any.
+import { SEVERITIES } from "../analysis/schema.js";
+import { CATEGORY_LABELS, bySeverity, formatLines, summarize } from "./summary.js";
+
+// Keeps text on one table row and out of Markdown syntax
+const cell = (text) => String(text).replace(/\r?\n/g, " ").replace(/([|\\`*_[\]<>])/g, "\\$1");
+
+const capitalize = (text) => text[0].toUpperCase() + text.slice(1);
+
+function describeGate({ minScore, failOn, failures }) {
+  const thresholds = [minScore !== null && `minimum score ${minScore}`, failOn !== null && `fail on ${failOn}`].filter(Boolean);
+  if (!thresholds.length) return [];
+  if (!failures.length) return [`**Gate passed** (${thresholds.join(", ")}).`, ""];
+  return [
+    `**Gate failed** (${thresholds.join(", ")}):`,
+    "",
+    ...failures.map((failure) => `- \`${failure.path}\`: ${failure.reasons.join("; ")}`),
+    "",
+  ];
+}
+
+export function toMarkdown(report) {
+  const summary = summarize(report);
+  const lines = [
+    "# Code-Amplifier review",
+    "",
+    `Review of ${summary.files} file${summary.files === 1 ? "" : "s"} with \`${report.model}\` (${report.provider}), ` +
+      `profile ${report.profile.name}, on ${report.createdAt}.` +
+      (summary.averageScore === null ? "" : ` Average score: **${summary.averageScore}**.`),
+    "",
+    ...describeGate(report.gate),
+    `| ${SEVERITIES.map(capitalize).join(" | ")} |`,
+    `| ${SEVERITIES.map(() => "---:").join(" | ")} |`,
+    `| ${SEVERITIES.map((severity) => summary.bySeverity[severity]).join(" | ")} |`,
+    "",
+    "## Files",
+    "",
+    "| File | Score | Findings |",
+    "| --- | ---: | ---: |",
+    ...report.files.map((file) =>
+      file.error ? `| ${cell(file.path)} | error | ${cell(file.error)} |` : `| ${cell(file.path)} | ${file.score} | ${file.findings.length} |`
+    ),
+    "",
+  ];
+
+  const withFindings = report.files.filter((file) => !file.error && file.findings.length);
+  if (withFindings.length) lines.push("## Findings", "");
+  for (const file of withFindings) {
+    lines.push(`### \`${file.path}\` (${file.score})`, "");
+    if (file.summary) lines.push(file.summary, "");
+    for (const finding of [...file.findings].sort(bySeverity)) {
+      lines.push(`- **${finding.severity}** ${CATEGORY_LABELS[finding.category]}, ${formatLines(finding)}: ${cell(finding.message)}`);
+      if (finding.suggestedFix) lines.push(`  Fix: ${cell(finding.suggestedFix)}`);
+    }
+    lines.push("");
+  }
+
+  if (report.skipped.length) {
+    lines.push(`${report.skipped.length} file${report.skipped.length === 1 ? " was" : "s were"} skipped (binary, too large or excluded).`, "");
+  }
+  return lines.join("\n");
+}
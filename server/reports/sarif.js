@@ -0,0 +1,63 @@
+// SARIF 2.1.0, the format code scanning services import. Every finding is a
+// result; the finding categories are the rules.
+import { pathToFileURL } from "node:url";
+import { CATEGORIES } from "../analysis/schema.js";
+import { CATEGORY_LABELS } from "./summary.js";
+
+const LEVELS = { critical: "error", high: "error", medium: "warning", low: "note", info: "note" };
+
+const toUri = (path) => path.split("/").map(encodeURIComponent).join("/");
+
+export function toSarif(report) {
+  const rules = CATEGORIES.map((category) => ({
+    id: category,
+    name: CATEGORY_LABELS[category].replace(/\s+/g, ""),
+    shortDescription: { text: `${CATEGORY_LABELS[category]} findings` },
+  }));
+  const location = (path, region) => ({
+    physicalLocation: { artifactLocation: { uri: toUri(path), uriBaseId: "SRCROOT" }, ...(region && { region }) },
+  });
+
+  const results = report.files.flatMap((file) =>
+    (file.findings ?? []).map((finding) => ({
+      ruleId: finding.category,
+      ruleIndex: CATEGORIES.indexOf(finding.category),
+      level: LEVELS[finding.severity],
+      message: { text: finding.suggestedFix ? `${finding.message}\nFix: ${finding.suggestedFix}` : finding.message },
+      locations: [location(file.path, { startLine: finding.startLine, endLine: finding.endLine })],
+      properties: { severity: finding.severity, ...(finding.source && { source: finding.source }) },
+    }))
+  );
+  const errors = report.files.filter((file) => file.error);
+
+  const sarif = {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: { driver: { name: "Code-Amplifier", version: report.version, rules } },
+        originalUriBaseIds: { SRCROOT: { uri: pathToFileURL(`${report.root}/`).href } },
+        ...(report.commit && { versionControlProvenance: [{ repositoryUri: pathToFileURL(report.root).href, revisionId: report.commit }] }),
+        invocations: [
+          {
+            executionSuccessful: errors.length === 0,
+            endTimeUtc: report.createdAt,
+            toolExecutionNotifications: errors.map((file) => ({
+              level: "error",
+              message: { text: file.error },
+              locations: [location(file.path)],
+            })),
+          },
+        ],
+        results,
+        properties: {
+          provider: report.provider,
+          model: report.model,
+          profile: report.profile.id,
+          scores: Object.fromEntries(report.files.filter((file) => !file.error).map((file) => [file.path, file.score])),
+        },
+      },
+    ],
+  };
+  return `${JSON.stringify(sarif, null, 2)}\n`;
+}
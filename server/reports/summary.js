@@ -0,0 +1,55 @@
+// Figures every report format shares, and the pass/fail gate CI runs are judged by.
+//
+// A report is { version, createdAt, root, commit, provider, model, profile: { id, name },
+// files: [{ path, score, summary, findings, cached, verification, timeMs, error }],
+// skipped: [{ path, reason }], gate: { minScore, failOn, failures: [{ path, reasons }] } }.
+// Files whose review failed have `error` set and no score.
+import { SEVERITIES } from "../analysis/schema.js";
+
+export const CATEGORY_LABELS = {
+  syntax: "Syntax",
+  bug: "Bugs",
+  security: "Security",
+  performance: "Performance",
+  style: "Style",
+  maintainability: "Maintainability",
+  "best-practice": "Best Practices",
+  architecture: "Architecture",
+  other: "Other",
+};
+
+const rank = (severity) => SEVERITIES.indexOf(severity);
+
+export const bySeverity = (a, b) => rank(a.severity) - rank(b.severity) || a.startLine - b.startLine;
+
+export const formatLines = ({ startLine, endLine }) => (startLine === endLine ? `L${startLine}` : `L${startLine}-${endLine}`);
+
+export function summarize(report) {
+  const reviewed = report.files.filter((file) => !file.error);
+  const findings = reviewed.flatMap((file) => file.findings);
+  return {
+    files: report.files.length,
+    reviewed: reviewed.length,
+    errors: report.files.length - reviewed.length,
+    averageScore: reviewed.length ? Math.round(reviewed.reduce((sum, file) => sum + file.score, 0) / reviewed.length) : null,
+    findings: findings.length,
+    bySeverity: Object.fromEntries(SEVERITIES.map((severity) => [severity, findings.filter((finding) => finding.severity === severity).length])),
+  };
+}
+
+// Files failing the gate, with why: a score below `minScore`, or findings at
+// least as severe as `failOn`. Either threshold may be null.
+export function evaluateGate(files, { minScore = null, failOn = null } = {}) {
+  const failures = [];
+  for (const file of files) {
+    if (file.error) continue;
+    const reasons = [];
+    if (minScore !== null && file.score < minScore) reasons.push(`score ${file.score} is below ${minScore}`);
+    if (failOn !== null) {
+      const severe = file.findings.filter((finding) => rank(finding.severity) <= rank(failOn));
+      if (severe.length) reasons.push(`${severe.length} finding${severe.length === 1 ? "" : "s"} of severity ${failOn} or higher`);
+    }
+    if (reasons.length) failures.push({ path: file.path, reasons });
+  }
+  return failures;
+}
@@ -0,0 +1,39 @@
+// Reads the files below a plain directory, for trees that are not git
+// repositories. Dependency and VCS directories are never descended into.
+import { lstat, readFile, readdir } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import { checkLimits, toTextFiles } from "./files.js";
+
+const IGNORED_DIRECTORIES = new Set([".git", ".hg", ".svn", "node_modules"]);
+
+// Resolves to { root, files: [{ path, content }], skipped: [{ path, reason }] }
+// with paths relative to `path`, in sorted order. Symlinks are not followed.
+export async function readDirectory(path, limits) {
+  const root = resolve(path);
+  const stats = await lstat(root).catch(() => null);
+  if (!stats?.isDirectory()) throw new Error(`Not a directory: ${root}`);
+
+  const skipped = [];
+  const entries = [];
+  const walk = async (directory) => {
+    const items = await readdir(join(root, directory), { withFileTypes: true });
+    items.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+    for (const item of items) {
+      const relativePath = directory ? `${directory}/${item.name}` : item.name;
+      if (item.isDirectory()) {
+        if (!IGNORED_DIRECTORIES.has(item.name)) await walk(relativePath);
+      } else if (item.isFile()) {
+        const { size } = await lstat(join(root, relativePath));
+        if (size > limits.maxFileBytes) skipped.push({ path: relativePath, reason: "too-large" });
+        else entries.push({ path: relativePath, size });
+      }
+    }
+  };
+  await walk("");
+  checkLimits(entries, limits, "directory");
+
+  // One file at a time, so large trees do not run out of file handles
+  const buffers = [];
+  for (const entry of entries) buffers.push({ path: entry.path, buffer: await readFile(join(root, entry.path)) });
+  return { root, files: toTextFiles(buffers, skipped), skipped };
+}
@@ -0,0 +1,36 @@
+// Helpers shared by the places files are read from for review.
+
+// NUL bytes in the first few KB are the usual sign of a binary file
+const SNIFF_BYTES = 8000;
+
+// Text content, or null for binary files and anything that is not UTF-8
+export function decodeText(buffer) {
+  if (buffer.subarray(0, SNIFF_BYTES).includes(0)) return null;
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+  } catch {
+    return null;
+  }
+}
+
+// Checked before anything is read, so a huge tree fails fast. `entries` are { size }.
+export function checkLimits(entries, limits, source = "repository") {
+  if (entries.length > limits.maxFiles) {
+    throw new Error(`The ${source} has ${entries.length} files, more than the limit of ${limits.maxFiles}; pick a subdirectory`);
+  }
+  const totalBytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+  if (totalBytes > limits.maxTotalBytes) {
+    throw new Error(`The ${source} holds ${Math.ceil(totalBytes / 1024 / 1024)} MB of files, more than the limit; pick a subdirectory`);
+  }
+}
+
+// Text files as { path, content }, with binary ones added to `skipped`
+export function toTextFiles(entries, skipped) {
+  const files = [];
+  for (const { path, buffer } of entries) {
+    const content = decodeText(buffer);
+    if (content === null) skipped.push({ path, reason: "binary" });
+    else files.push({ path, content });
+  }
+  return files;
+}
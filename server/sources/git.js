@@ -0,0 +1,190 @@
+// Reads the files of a local git repository for review. Without a ref, a
+// working tree is read as it is on disk: uncommitted changes and untracked
+// files are included, ignored files are not. With a ref, or for a bare
+// repository, the files are those of that commit. Changes between two commits
+// are read as a unified diff plus the new content of the changed files.
+import { execFile } from "node:child_process";
+import { lstat, readFile, realpath } from "node:fs/promises";
+import { isAbsolute, join, relative, resolve } from "node:path";
+import { checkLimits, toTextFiles } from "./files.js";
+
+// Branch names, tags, commit ids and revision syntax such as HEAD~2; never an option
+const REF_PATTERN = /^(?!-)[\w./@{}^~+-]+$/;
+
+const git = (cwd, args, { input, encoding = "utf8" } = {}) =>
+  new Promise((resolvePromise, reject) => {
+    const child = execFile("git", args, { cwd, encoding, maxBuffer: 1024 * 1024 * 1024 }, (error, stdout, stderr) => {
+      if (error) reject(new Error(String(stderr).trim() || error.message));
+      else resolvePromise(stdout);
+    });
+    if (input !== undefined) child.stdin.end(input);
+  });
+
+// Absolute path with symlinks resolved; paths that do not exist are only made absolute
+const realPath = (path) => realpath(resolve(path)).catch(() => resolve(path));
+
+const isInside = (path, root) => {
+  const rel = relative(root, path);
+  return rel === "" || (!rel.startsWith("..") && !isAbsolute(rel));
+};
+
+// Blob contents in the order of `ids`, through a single `git cat-file --batch`
+async function readBlobs(cwd, ids) {
+  if (ids.length === 0) return [];
+  const output = await git(cwd, ["cat-file", "--batch"], { input: `${ids.join("\n")}\n`, encoding: "buffer" });
+  const blobs = [];
+  let offset = 0;
+  for (let index = 0; index < ids.length; index++) {
+    const headerEnd = output.indexOf(0x0a, offset);
+    const header = output.subarray(offset, headerEnd).toString();
+    // "<object> missing" has no content after it, so the rest cannot be parsed
+    if (header.endsWith(" missing")) throw new Error(`Object not found: ${ids[index]}`);
+    const size = Number(header.split(" ")[2]);
+    blobs.push(output.subarray(headerEnd + 1, headerEnd + 1 + size));
+    offset = headerEnd + 1 + size + 1;
+  }
+  return blobs;
+}
+
+// Regular files of a commit below the directory `cwd`, as { path, id, size }
+// with paths relative to it
+async function listCommit(cwd, commit) {
+  const listing = await git(cwd, ["ls-tree", "-r", "-z", "--long", commit]);
+  const entries = [];
+  for (const line of listing.split("\0").filter(Boolean)) {
+    const [meta, path] = line.split("\t");
+    const [mode, type, id, size] = meta.split(/\s+/);
+    // Submodules and symlinks have no content of their own to review
+    if (type !== "blob" || mode === "120000") continue;
+    entries.push({ path, id, size: Number(size) });
+  }
+  return entries;
+}
+
+// Contents of the given commit entries, skipping files over the size limit
+async function readCommitFiles(cwd, entries, limits, skipped) {
+  const files = entries.filter((entry) => {
+    if (entry.size <= limits.maxFileBytes) return true;
+    skipped.push({ path: entry.path, reason: "too-large" });
+    return false;
+  });
+  checkLimits(files, limits);
+  const blobs = await readBlobs(cwd, files.map((entry) => entry.id));
+  return files.map((entry, index) => ({ path: entry.path, buffer: blobs[index] }));
+}
+
+// Paths and contents of every file of a commit, below the directory `cwd`
+async function readCommit(cwd, commit, limits, skipped) {
+  return readCommitFiles(cwd, await listCommit(cwd, commit), limits, skipped);
+}
+
+// Contents of the given working tree paths, one file at a time. Only regular
+// files are read: symlinks could point anywhere, and submodules are directories.
+// Sizes are checked before anything is read.
+async function readWorkingTreeFiles(cwd, paths, limits, skipped) {
+  const files = [];
+  for (const path of paths) {
+    // Deleted but not yet committed files are listed too
+    const stats = await lstat(join(cwd, path)).catch(() => null);
+    if (!stats?.isFile()) continue;
+    if (stats.size > limits.maxFileBytes) skipped.push({ path, reason: "too-large" });
+    else files.push({ path, size: stats.size });
+  }
+  checkLimits(files, limits);
+  const entries = [];
+  for (const { path } of files) entries.push({ path, buffer: await readFile(join(cwd, path)) });
+  return entries;
+}
+
+async function readWorkingTree(cwd, limits, skipped) {
+  const listing = await git(cwd, ["ls-files", "-z", "--cached", "--others", "--exclude-standard"]);
+  const paths = [...new Set(listing.split("\0").filter(Boolean))].sort();
+  return readWorkingTreeFiles(cwd, paths, limits, skipped);
+}
+
+// Checks a repository path against the configured roots and whether it is a
+// repository at all. Resolves to { cwd, bare }.
+async function openRepository(path, limits) {
+  if (typeof path !== "string" || !path.trim()) throw new Error("A repository path is required");
+  // Symlinks are resolved first, so a link below a root cannot lead out of it
+  const cwd = await realPath(path.trim());
+  const roots = await Promise.all(limits.roots.map(realPath));
+  if (roots.length > 0 && !roots.some((root) => isInside(cwd, root))) {
+    throw new Error(`Repositories can only be read from ${limits.roots.join(", ")}`);
+  }
+  const stats = await lstat(cwd).catch(() => null);
+  if (!stats?.isDirectory()) throw new Error(`Not a directory: ${cwd}`);
+
+  try {
+    return { cwd, bare: (await git(cwd, ["rev-parse", "--is-bare-repository"])).trim() === "true" };
+  } catch {
+    throw new Error(`Not a git repository: ${cwd}`);
+  }
+}
+
+const checkRef = (ref) => {
+  if (ref !== undefined && ref !== "" && (typeof ref !== "string" || !REF_PATTERN.test(ref))) {
+    throw new Error(`Invalid ref: ${ref}`);
+  }
+};
+
+const resolveCommit = (cwd, name) =>
+  git(cwd, ["rev-parse", "--verify", "--quiet", `${name}^{commit}`])
+    .then((id) => id.trim())
+    .catch(() => {
+      throw new Error(`Unknown commit or branch: ${name}`);
+    });
+
+// Whether `path` is inside a git working tree or is a bare repository
+export const isRepository = (path) => git(resolve(path), ["rev-parse", "--git-dir"]).then(() => true, () => false);
+
+// Resolves to { root, commit, files: [{ path, content }], skipped: [{ path, reason }] }.
+// `path` may be a subdirectory of the repository, which limits the files to
+// that directory; paths in the result are relative to it. `commit` is the id
+// the files were read from, or null for a working tree without commits.
+export async function readRepository(path, { ref } = {}, limits) {
+  checkRef(ref);
+  const { cwd, bare } = await openRepository(path, limits);
+  const skipped = [];
+  let commit;
+  let entries;
+  if (ref || bare) {
+    commit = await resolveCommit(cwd, ref || "HEAD");
+    entries = await readCommit(cwd, commit, limits, skipped);
+  } else {
+    commit = await resolveCommit(cwd, "HEAD").catch(() => null);
+    entries = await readWorkingTree(cwd, limits, skipped);
+  }
+  return { root: cwd, commit, files: toTextFiles(entries, skipped), skipped };
+}
+
+// The change between two commits, or between `base` and the working tree when
+// `head` is empty. Resolves to { root, base, head, diff, files, skipped } where
+// `diff` is the unified diff with paths relative to `path`, as for
+// readRepository, and `files` hold the new content of every changed file that still exists.
+export async function readChange(path, { base, head } = {}, limits) {
+  if (!base) throw new Error("A base commit or branch is required");
+  checkRef(base);
+  checkRef(head);
+  const { cwd, bare } = await openRepository(path, limits);
+  if (bare && !head) throw new Error("A bare repository has no working tree; give a head commit or branch");
+
+  const baseCommit = await resolveCommit(cwd, base);
+  const headCommit = head ? await resolveCommit(cwd, head) : null;
+  const range = headCommit ? [baseCommit, headCommit] : [baseCommit];
+  const diff = await git(cwd, ["diff", "--no-color", "--no-ext-diff", "--find-renames", "--relative", ...range]);
+  const paths = (await git(cwd, ["diff", "--name-only", "-z", "--diff-filter=d", "--find-renames", "--relative", ...range]))
+    .split("\0")
+    .filter(Boolean);
+
+  const skipped = [];
+  let entries;
+  if (headCommit) {
+    const changed = new Set(paths);
+    const listed = await listCommit(cwd, headCommit);
+    entries = await readCommitFiles(cwd, listed.filter((entry) => changed.has(entry.path)), limits, skipped);
+  } else {
+    entries = await readWorkingTreeFiles(cwd, paths, limits, skipped);
+  }
+  return { root: cwd, base: baseCommit, head: headCommit, diff, files: toTextFiles(entries, skipped), skipped };
+}
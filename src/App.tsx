@@ -1,151 +1,526 @@
-import React, { useState, useCallback } from "react";
+import { useState, useCallback, useRef, useEffect, useMemo } from "react";
 import { FileUploader } from "./components/FileUploader";
+import { ChangeInput } from "./components/ChangeInput";
 import { ValidationResults } from "./components/ValidationResults";
 import { CodePreview } from "./components/CodePreview";
-import { Code2, Loader2, Wand2, Play, Terminal, Sun, Moon } from "lucide-react";
-import axios from "axios";
-import type { FileWithContent, ValidationResult, StreamingState } from "./types";
+import { Code2, Wand2, Play, Terminal, Sun, Moon, History, SlidersHorizontal, FolderOpen, GitCompare } from "lucide-react";
+import type {
+  FileWithContent,
+  ValidationResult,
+  StreamingState,
+  RunResult,
+  RunLanguage,
+  EditorTab,
+  Finding,
+  ProjectReviewState,
+  ProjectReview,
+  GeneratedTestsState,
+  ChatMessage,
+  ChatState,
+  ServerInfo,
+  AnalysisRun,
+  ProjectConfig,
+  ReviewProfile,
+  ReviewSettings,
+} from "./types";
 import { ThemeProvider, useTheme } from "./contexts/ThemeContext";
-
-const API_URL = "http://localhost:1234/v1/chat/completions";
-const MODEL = "deepseek-coder-7b-instruct";
-const JUDGE0_API_URL = "https://judge0-ce.p.rapidapi.com/submissions";
-const JUDGE0_HEADERS = {
-  "x-rapidapi-host": "judge0-ce.p.rapidapi.com",
-  "x-rapidapi-key": "f93374fe4fmsh608d5d902c40414p1d8441jsn39d1a5ee6e8e",
-  "Content-Type": "application/json",
+import {
+  createProject,
+  generateTests,
+  getReviewProfiles,
+  getServerInfo,
+  reviewProject,
+  runCode as runOnServer,
+  streamAnalysis,
+  streamChat,
+} from "./utils/api";
+import { cacheResult, getCachedResult, saveRun } from "./utils/history";
+import { HistoryPanel } from "./components/HistoryPanel";
+import { ComparisonView } from "./components/ComparisonView";
+import { ProfileEditor } from "./components/ProfileEditor";
+import { createAnalysisQueue, QUEUE_DEFAULTS, type AnalysisQueue } from "./utils/analysisQueue";
+import { AnalysisProgress } from "./components/AnalysisProgress";
+import { RunOutput } from "./components/RunOutput";
+import { CodeEditor } from "./components/CodeEditor";
+import { runPythonInBrowser } from "./utils/pyodideRunner";
+import { RUN_LANGUAGES, detectLanguage, getLanguageLabel, languageFromExtension } from "./utils/languages";
+import { saveCorrectedFile, saveCorrectedZip, savePatch, type SaveFormat } from "./utils/exports";
+import { saveReport, type ReportMetadata } from "./utils/report";
+import { getMergedCode } from "./utils/diff";
+import {
+  CONFIG_FILE_NAME,
+  SELECTED_PROFILE_KEY,
+  applyProfileEdits,
+  findConfigFile,
+  isProfileEdited,
+  parseProjectConfig,
+  resetProfileEdit,
+  saveProfileEdit,
+} from "./utils/profiles";
+import { isSameFileSet } from "./utils/uploads";
+
+const NO_FINDINGS: Finding[] = [];
+
+type InputMode = "files" | "change";
+
+const INPUT_MODE_LABELS: Record<InputMode, string> = {
+  files: "Review files",
+  change: "Review a change",
 };
 
+const createScratchTab = (id: string, index: number): EditorTab => ({
+  id,
+  name: `Scratch ${index}`,
+  extension: "",
+  content: "",
+  language: "auto",
+});
+
 function AppContent() {
   const { theme, toggleTheme } = useTheme();
   const [files, setFiles] = useState<FileWithContent[]>([]);
+  // The uploader is remounted with a new key to show the files of a reopened run
+  const [uploader, setUploader] = useState<{ key: number; files: FileWithContent[] }>({ key: 0, files: [] });
+  // The last set reported by the uploader, project config included
+  const uploadRef = useRef<FileWithContent[]>([]);
+  // Whole files from the uploader, or only the changed hunks of a diff
+  const [inputMode, setInputMode] = useState<InputMode>("files");
   const [validationResults, setValidationResults] = useState<ValidationResult[]>([]);
+  // Model, profile and time of the run the results belong to, for exported reports
+  const [reportMetadata, setReportMetadata] = useState<ReportMetadata | null>(null);
+  const [hunkDecisions, setHunkDecisions] = useState<Record<string, boolean[]>>({});
+  const [projectReview, setProjectReview] = useState<ProjectReviewState | null>(null);
+  // Project registered for the current results, so generated tests can import its other files
+  const [projectId, setProjectId] = useState<string>();
+  const [generatedTests, setGeneratedTests] = useState<Record<string, GeneratedTestsState>>({});
+  const [chats, setChats] = useState<Record<string, ChatState>>({});
+  // Answers being streamed, keyed by path, so they can be stopped
+  const chatControllersRef = useRef<Record<string, AbortController>>({});
+
+  // Conversations belong to the results they are about
+  const resetChats = useCallback(() => {
+    Object.values(chatControllersRef.current).forEach((controller) => controller.abort());
+    chatControllersRef.current = {};
+    setChats({});
+  }, []);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [comparedRuns, setComparedRuns] = useState<[AnalysisRun, AnalysisRun] | null>(null);
+  const [builtInProfiles, setBuiltInProfiles] = useState<ReviewProfile[]>([]);
+  const [profiles, setProfiles] = useState<ReviewProfile[]>([]);
+  const [selectedProfileId, setSelectedProfileId] = useState(() => localStorage.getItem(SELECTED_PROFILE_KEY) || "default");
+  const [isProfileEditorOpen, setIsProfileEditorOpen] = useState(false);
+  const [projectConfig, setProjectConfig] = useState<ProjectConfig | null>(null);
+  const [configErrors, setConfigErrors] = useState<string[]>([]);
   const [streamingState, setStreamingState] = useState<StreamingState>({
     isAnalyzing: false,
-    currentFile: "",
-    currentStep: "",
+    progress: null,
+    liveOutput: {},
   });
+  const [concurrency, setConcurrency] = useState(() => Number(localStorage.getItem("concurrency")) || QUEUE_DEFAULTS.concurrency);
+  const queueRef = useRef<AnalysisQueue | null>(null);
 
   const [isCodeEditorOpen, setIsCodeEditorOpen] = useState(false);
-  const [codeToRun, setCodeToRun] = useState("");
-  const [executionOutput, setExecutionOutput] = useState("");
-
-  // Handle file selection
-  const handleFilesSelected = useCallback(async (selectedFiles: File[]) => {
-    const fileContents = await Promise.all(
-      selectedFiles.map(async (file) => ({
-        name: file.name,
-        path: (file as any).path || file.webkitRelativePath || file.name,
-        content: await file.text(),
-        extension: file.name.split(".").pop() || "",
-      }))
-    );
+  const [editorTabs, setEditorTabs] = useState<EditorTab[]>([createScratchTab("scratch-1", 1)]);
+  const [activeTabId, setActiveTabId] = useState("scratch-1");
+  const [runEngine, setRunEngine] = useState<"server" | "browser">("server");
+  const [stdin, setStdin] = useState("");
+  const [runResult, setRunResult] = useState<RunResult | null>(null);
+  const [runError, setRunError] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  // Profiles come from the server; without them files are reviewed with the server default
+  useEffect(() => {
+    getReviewProfiles()
+      .then((list) => {
+        setBuiltInProfiles(list);
+        setProfiles(applyProfileEdits(list));
+      })
+      .catch((error) => console.warn("Review profiles unavailable:", error));
+  }, []);
+
+  const activeProfile = profiles.find((profile) => profile.id === selectedProfileId) ?? profiles[0];
+  const reviewSettings = useMemo<ReviewSettings | undefined>(
+    () => activeProfile && { profile: activeProfile, rules: projectConfig?.rules ?? [] },
+    [activeProfile, projectConfig]
+  );
+
+  const selectProfile = (id: string) => {
+    localStorage.setItem(SELECTED_PROFILE_KEY, id);
+    setSelectedProfileId(id);
+  };
+
+  const saveProfile = (profile: ReviewProfile) => {
+    saveProfileEdit(profile);
+    setProfiles(applyProfileEdits(builtInProfiles));
+    setIsProfileEditorOpen(false);
+  };
+
+  const resetProfile = (id: string) => {
+    resetProfileEdit(id);
+    setProfiles(applyProfileEdits(builtInProfiles));
+    setIsProfileEditorOpen(false);
+  };
+
+  // The uploader reports its whole ordered set on every change; results are
+  // only reset when files were added, removed or changed, not on a reorder
+  const handleFilesChange = useCallback((selectedFiles: FileWithContent[]) => {
+    // A .codeamplifier.json in the upload configures the review instead of being reviewed
+    setFiles(selectedFiles.filter((file) => file.name !== CONFIG_FILE_NAME));
+    const changed = !isSameFileSet(uploadRef.current, selectedFiles);
+    uploadRef.current = selectedFiles;
+    if (!changed) return;
+
+    const configFile = findConfigFile(selectedFiles);
+    const { config, errors } = configFile ? parseProjectConfig(configFile) : { config: null, errors: [] };
+    setProjectConfig(config);
+    setConfigErrors(errors);
+    if (config?.profile) setSelectedProfileId(config.profile);
 
-    setFiles(fileContents);
     setValidationResults([]);
-  }, []);
+    setHunkDecisions({});
+    setProjectReview(null);
+    setProjectId(undefined);
+    setGeneratedTests({});
+    resetChats();
+  }, [resetChats]);
+
+  // Each changed file carries its change, and is reviewed as that change only
+  const handleChangeLoaded = useCallback((changedFiles: FileWithContent[]) => {
+    setFiles(changedFiles);
+    setValidationResults([]);
+    setHunkDecisions({});
+    setProjectReview(null);
+    setProjectId(undefined);
+    setGeneratedTests({});
+    resetChats();
+  }, [resetChats]);
+
+  const switchInputMode = (mode: InputMode) => {
+    if (mode === inputMode) return;
+    setInputMode(mode);
+    uploadRef.current = [];
+    setUploader((prev) => ({ key: prev.key + 1, files: [] }));
+    handleChangeLoaded([]);
+    setProjectConfig(null);
+    setConfigErrors([]);
+  };
 
-  // Validate code using AI model
+  // Validate code through the analysis server, a bounded number of files at a time
   const validateCode = useCallback(async () => {
     if (files.length === 0) return;
 
-    setStreamingState({ isAnalyzing: true, currentFile: "", currentStep: "Initializing..." });
+    setStreamingState({ isAnalyzing: true, progress: null, liveOutput: {} });
     setValidationResults([]);
+    setHunkDecisions({});
+    setProjectReview(null);
+    setProjectId(undefined);
+    setGeneratedTests({});
+    resetChats();
+
+    const setLiveOutput = (path: string, update: (text: string) => string | undefined) =>
+      setStreamingState((prev) => {
+        const liveOutput = { ...prev.liveOutput };
+        const next = update(liveOutput[path] ?? "");
+        if (next === undefined) delete liveOutput[path];
+        else liveOutput[path] = next;
+        return { ...prev, liveOutput };
+      });
+
+    // The model and prompt version scope the result cache; without them nothing is cached
+    let serverInfo: ServerInfo | null = null;
+    try {
+      serverInfo = await getServerInfo();
+    } catch (error) {
+      console.warn("Result cache disabled:", error);
+    }
+
+    // Registering the upload as a project lets every review see the files it
+    // imports and its callers; without it each file is still reviewed on its own.
+    let projectId: string | undefined;
+    let contextKeys: Record<string, string> = {};
+    if (files.length > 1) {
+      try {
+        ({ projectId, contextKeys } = await createProject(files));
+        setProjectId(projectId);
+      } catch (error) {
+        console.warn("Reviewing files without project context:", error);
+      }
+    }
 
-    const processFile = async (file: FileWithContent) => {
-      setStreamingState((prev) => ({ ...prev, currentFile: file.path, currentStep: "Analyzing code..." }));
+    const completed: ValidationResult[] = [];
+    const queue = createAnalysisQueue(
+      files,
+      {
+        getKey: (file) => file.path,
+        run: async (file, signal) => {
+          const cached =
+            serverInfo && reviewSettings && (await getCachedResult(file, serverInfo, reviewSettings, contextKeys[file.path]));
+          if (cached) {
+            completed.push(cached);
+            setValidationResults((prev) => [...prev, cached]);
+            return;
+          }
+
+          setLiveOutput(file.path, () => "");
+          try {
+            const result = await streamAnalysis(file, {
+              signal,
+              projectId,
+              settings: reviewSettings,
+              onToken: (text) => setLiveOutput(file.path, (current) => current + text),
+              onRetry: () => setLiveOutput(file.path, () => ""),
+              onChunk: ({ index, total, startLine, endLine }) =>
+                setLiveOutput(file.path, () => `Part ${index + 1} of ${total} (lines ${startLine}-${endLine})\n`),
+            });
+            completed.push(result);
+            setValidationResults((prev) => [...prev, result]);
+            if (serverInfo && reviewSettings) cacheResult(file, serverInfo, reviewSettings, result, contextKeys[file.path]);
+          } finally {
+            setLiveOutput(file.path, () => undefined);
+          }
+        },
+        onFailed: (file, error) => {
+          console.error(`Error validating ${file.path}:`, error);
+          setValidationResults((prev) => [
+            ...prev,
+            {
+              fileName: file.name,
+              path: file.path,
+              code: file.content,
+              result: `Error: ${error.message || "Failed to analyze code"}`,
+              score: 0,
+              findings: [],
+              hasCorrections: false,
+            },
+          ]);
+        },
+        onProgress: (progress) => setStreamingState((prev) => ({ ...prev, progress })),
+      },
+      { ...QUEUE_DEFAULTS, concurrency }
+    );
+
+    queueRef.current = queue;
+    await queue.start();
+    queueRef.current = null;
+    setStreamingState({ isAnalyzing: false, progress: null, liveOutput: {} });
 
+    // Cross-file review once the individual files are done
+    let review: ProjectReview | null = null;
+    if (projectId && completed.length > 1) {
+      setProjectReview({ status: "loading" });
       try {
-        const response = await fetch(API_URL, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: "Bearer not-needed",
-          },
-          body: JSON.stringify({
-            model: MODEL,
-            messages: [
-              {
-                role: "system",
-                content:
-                  "You are a code review assistant. Analyze the code for errors, improvements, and security vulnerabilities. Provide a score (0-100) in <SCORE:XX> format and suggest corrections in a code block.",
-              },
-              { role: "user", content: `Analyze this ${file.extension} file:\n${file.content}` },
-            ],
-            temperature: 0.7,
-            max_tokens: 2048,
-          }),
-        });
+        review = await reviewProject(projectId, completed);
+        setProjectReview({ status: "done", review });
+      } catch (error) {
+        setProjectReview({ status: "error", error: (error as Error).message || "Failed to review the project" });
+      }
+    }
+
+    const metadata = { createdAt: Date.now(), model: serverInfo?.model ?? "unknown", profile: activeProfile?.name };
+    setReportMetadata(metadata);
+    if (completed.length) {
+      saveRun({ id: crypto.randomUUID(), ...metadata, results: completed, projectReview: review });
+    }
+  }, [files, concurrency, reviewSettings, activeProfile, resetChats]);
+
+  // Reopen a run from the History view, including the files it analyzed
+  const openRun = useCallback((run: AnalysisRun) => {
+    const runFiles = run.results.map((result) => ({
+      name: result.fileName,
+      path: result.path,
+      content: result.code,
+      extension: result.fileName.split(".").pop() || "",
+      ...(result.change && { change: result.change }),
+    }));
+    setInputMode(runFiles.some((file) => file.change) ? "change" : "files");
+    setFiles(runFiles);
+    uploadRef.current = runFiles;
+    setUploader((prev) => ({ key: prev.key + 1, files: runFiles }));
+    setValidationResults(run.results);
+    setReportMetadata({ createdAt: run.createdAt, model: run.model, profile: run.profile });
+    setHunkDecisions({});
+    setProjectReview(run.projectReview ? { status: "done", review: run.projectReview } : null);
+    setProjectId(undefined);
+    setGeneratedTests({});
+    resetChats();
+    setIsHistoryOpen(false);
+  }, [resetChats]);
+
+  // Cancel the analysis of a single file; the others keep running
+  const cancelAnalysis = useCallback((path: string) => {
+    queueRef.current?.cancelItem(path);
+  }, []);
+
+  const updateConcurrency = (value: number) => {
+    const next = Math.min(Math.max(Math.round(value) || 1, 1), 16);
+    localStorage.setItem("concurrency", String(next));
+    setConcurrency(next);
+  };
 
-        if (!response.ok) throw new Error(`Server error: ${response.status}`);
+  const activeTab = editorTabs.find((tab) => tab.id === activeTabId) ?? editorTabs[0];
+  const detectedLanguage = detectLanguage(activeTab.content, activeTab.extension);
+  const effectiveLanguage = activeTab.language === "auto" ? detectedLanguage : activeTab.language;
+  const activeFindings = validationResults.find((result) => result.path === activeTab.path)?.findings ?? NO_FINDINGS;
 
-        const data = await response.json();
-        const aiResponse = data?.choices?.[0]?.message?.content || "No response received.";
+  const updateTab = useCallback((id: string, changes: Partial<EditorTab>) => {
+    setEditorTabs((prev) => prev.map((tab) => (tab.id === id ? { ...tab, ...changes } : tab)));
+  }, []);
 
-        const scoreMatch = aiResponse.match(/<SCORE:(\d+)>/);
-        const score = Math.min(Math.max(parseInt(scoreMatch?.[1] || "0"), 0), 100);
+  const addScratchTab = () => {
+    const id = `scratch-${Date.now()}`;
+    setEditorTabs((prev) => [...prev, createScratchTab(id, prev.filter((tab) => !tab.path).length + 1)]);
+    setActiveTabId(id);
+  };
 
-        const correctedCodeMatch = aiResponse.match(/```(?:\w+\n)?([\s\S]*?)```/);
-        const correctedCode = correctedCodeMatch ? correctedCodeMatch[1].trim() : undefined;
+  const closeTab = (id: string) => {
+    const remaining = editorTabs.filter((tab) => tab.id !== id);
+    setEditorTabs(remaining);
+    if (id === activeTabId) setActiveTabId(remaining[0].id);
+  };
+
+  // Export corrections with the current accept/reject decisions applied
+  const saveCorrection = useCallback(
+    (result: ValidationResult, format: SaveFormat) => {
+      if (format === "file") saveCorrectedFile(result, hunkDecisions[result.path]);
+      else if (format === "patch") savePatch(validationResults, hunkDecisions);
+      else saveCorrectedZip(files, validationResults, hunkDecisions);
+    },
+    [files, validationResults, hunkDecisions]
+  );
+
+  const exportReport = useCallback(() => {
+    if (!reportMetadata) return;
+    saveReport({
+      ...reportMetadata,
+      results: validationResults,
+      projectReview: projectReview?.status === "done" ? projectReview.review : null,
+      decisions: hunkDecisions,
+    });
+  }, [reportMetadata, validationResults, projectReview, hunkDecisions]);
+
+  // Ask a follow-up question about a result, streaming the answer into its conversation
+  const sendChatMessage = useCallback(
+    async (result: ValidationResult, question: string) => {
+      const messages: ChatMessage[] = [...(chats[result.path]?.messages ?? []), { role: "user", content: question }];
+      const update = (changes: Partial<ChatState>) =>
+        setChats((prev) => ({ ...prev, [result.path]: { ...prev[result.path], ...changes } }));
+      setChats((prev) => ({ ...prev, [result.path]: { messages, reply: "", error: null } }));
+
+      const controller = new AbortController();
+      chatControllersRef.current[result.path] = controller;
+      const file = { name: result.fileName, path: result.path, content: result.code, extension: result.fileName.split(".").pop() || "" };
+      try {
+        const answer = await streamChat(file, messages, {
+          findings: result.findings,
+          correctedCode: result.correctedCode && getMergedCode(result.code, result.correctedCode, hunkDecisions[result.path]),
+          projectId,
+          signal: controller.signal,
+          onToken: (text) => setChats((prev) => ({ ...prev, [result.path]: { ...prev[result.path], reply: (prev[result.path]?.reply ?? "") + text } })),
+        });
+        update({ messages: [...messages, { role: "assistant", content: answer }], reply: null });
+      } catch (error) {
+        // A stopped answer is kept as far as it got
+        if (controller.signal.aborted) {
+          setChats((prev) => {
+            const chat = prev[result.path];
+            if (!chat) return prev;
+            const partial = chat.reply ? [{ role: "assistant" as const, content: chat.reply }] : [];
+            return { ...prev, [result.path]: { messages: [...chat.messages, ...partial], reply: null, error: null } };
+          });
+        } else {
+          update({ reply: null, error: (error as Error).message || "Failed to answer" });
+        }
+      } finally {
+        if (chatControllersRef.current[result.path] === controller) delete chatControllersRef.current[result.path];
+      }
+    },
+    [chats, hunkDecisions, projectId]
+  );
 
-        const result: ValidationResult = {
-          fileName: file.name,
-          path: file.path,
-          code: file.content,
-          result: aiResponse.replace(/```[\s\S]*?```/, "").trim(),
-          score,
-          correctedCode,
-          hasCorrections: !!correctedCode,
-        };
+  const stopChat = useCallback((path: string) => chatControllersRef.current[path]?.abort(), []);
+
+  // Show code from an answer as the result's correction. It has not been
+  // verified, and every change starts out accepted.
+  const applyChatCode = useCallback((result: ValidationResult, code: string) => {
+    const correctedCode = result.code.endsWith("\n") && !code.endsWith("\n") ? `${code}\n` : code;
+    setValidationResults((prev) =>
+      prev.map((other) =>
+        other.path === result.path
+          ? { ...other, correctedCode, hasCorrections: correctedCode !== other.code, verification: undefined }
+          : other
+      )
+    );
+    setHunkDecisions((prev) => {
+      const next = { ...prev };
+      delete next[result.path];
+      return next;
+    });
+  }, []);
 
-        setValidationResults((prev) => [...prev, result]);
+  // Write and run unit tests for a file; the corrected side uses the accepted changes only
+  const runGeneratedTests = useCallback(
+    async (result: ValidationResult) => {
+      setGeneratedTests((prev) => ({ ...prev, [result.path]: { status: "loading" } }));
+      const file = { name: result.fileName, path: result.path, content: result.code, extension: result.fileName.split(".").pop() || "" };
+      const correctedCode = result.correctedCode && getMergedCode(result.code, result.correctedCode, hunkDecisions[result.path]);
+      try {
+        const tests = await generateTests(file, { correctedCode, projectId });
+        setGeneratedTests((prev) => ({ ...prev, [result.path]: { status: "done", tests } }));
       } catch (error) {
-        console.error(`Error validating ${file.path}:`, error);
-        setValidationResults((prev) => [
+        setGeneratedTests((prev) => ({
           ...prev,
-          {
-            fileName: file.name,
-            path: file.path,
-            code: file.content,
-            result: `Error: ${error instanceof Error ? error.message : "Failed to analyze code"}`,
-            score: 0,
-            hasCorrections: false,
-          },
-        ]);
+          [result.path]: { status: "error", error: (error as Error).message || "Failed to generate tests" },
+        }));
       }
-    };
+    },
+    [hunkDecisions, projectId]
+  );
 
-    await Promise.all(files.map(processFile));
-    setStreamingState({ isAnalyzing: false, currentFile: "", currentStep: "" });
-  }, [files]);
+  // Open an uploaded file in its own Run panel tab, reusing the tab if it is already open
+  const openFileInRunner = useCallback((file: FileWithContent) => {
+    const id = `file:${file.path}`;
+    const tab: EditorTab = {
+      id,
+      name: file.name,
+      path: file.path,
+      extension: file.extension,
+      content: file.content,
+      language: languageFromExtension(file.extension) ?? "auto",
+    };
+    setEditorTabs((prev) => (prev.some((existing) => existing.id === id) ? prev.map((existing) => (existing.id === id ? tab : existing)) : [...prev, tab]));
+    setActiveTabId(id);
+    setRunResult(null);
+    setRunError(null);
+    setIsCodeEditorOpen(true);
+  }, []);
 
-  // Run code using Judge0
+  // Run code in the server's sandboxed runner, or in the browser with Pyodide for
+  // Python. When the server cannot be reached at all, Python falls back to the browser.
   const runCode = async () => {
-    setExecutionOutput("Running...");
+    if (isRunning) return;
+    const codeToRun = activeTab.content;
+    setIsRunning(true);
+    setRunError(null);
+    setRunResult(null);
 
+    const canRunInBrowser = effectiveLanguage === "python";
     try {
-      const response = await axios.post(
-        JUDGE0_API_URL,
-        { source_code: codeToRun, language_id: 71, stdin: "" }, // Example: Python 3
-        { headers: JUDGE0_HEADERS }
-      );
-
-      const token = response.data.token;
-
-      const checkResult = async () => {
-        const resultResponse = await axios.get(`${JUDGE0_API_URL}/${token}`, { headers: JUDGE0_HEADERS });
-
-        if (resultResponse.data.status.id <= 2) {
-          setTimeout(checkResult, 1000);
-        } else {
-          setExecutionOutput(resultResponse.data.stdout || "Error: " + resultResponse.data.stderr);
-        }
-      };
-
-      setTimeout(checkResult, 1000);
+      if (canRunInBrowser && runEngine === "browser") {
+        setRunResult(await runPythonInBrowser(codeToRun, { stdin }));
+        return;
+      }
+      try {
+        setRunResult(await runOnServer({ language: effectiveLanguage, source: codeToRun, stdin }));
+      } catch (error) {
+        // fetch rejects with a TypeError when the server is unreachable
+        if (!(canRunInBrowser && error instanceof TypeError)) throw error;
+        setRunResult(await runPythonInBrowser(codeToRun, { stdin }));
+      }
     } catch (error) {
       console.error("Error running code:", error);
-      setExecutionOutput("Execution failed.");
+      setRunError(error instanceof Error ? error.message : "Execution failed.");
+    } finally {
+      setIsRunning(false);
     }
   };
 
@@ -159,16 +534,25 @@ function AppContent() {
               <Code2 className="w-8 h-8 text-blue-400" />
               <h1 className="text-3xl font-bold text-gray-200 light:text-gray-800 glow-text-blue">Code Amplifier</h1>
             </div>
-            <button
-              onClick={toggleTheme}
-              className="p-2 rounded-lg bg-[#1a1a1a] light:bg-gray-100 border border-gray-800 light:border-gray-300 hover:border-gray-700 light:hover:border-gray-400 transition-all duration-300"
-            >
-              {theme === 'dark' ? (
-                <Sun className="w-5 h-5 text-yellow-400" />
-              ) : (
-                <Moon className="w-5 h-5 text-blue-400" />
-              )}
-            </button>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setIsHistoryOpen(true)}
+                className="flex items-center gap-2 px-3 py-2 rounded-lg bg-[#1a1a1a] light:bg-gray-100 border border-gray-800 light:border-gray-300 hover:border-gray-700 light:hover:border-gray-400 text-sm text-gray-300 light:text-gray-700 transition-all duration-300"
+              >
+                <History className="w-5 h-5 text-blue-400" />
+                History
+              </button>
+              <button
+                onClick={toggleTheme}
+                className="p-2 rounded-lg bg-[#1a1a1a] light:bg-gray-100 border border-gray-800 light:border-gray-300 hover:border-gray-700 light:hover:border-gray-400 transition-all duration-300"
+              >
+                {theme === 'dark' ? (
+                  <Sun className="w-5 h-5 text-yellow-400" />
+                ) : (
+                  <Moon className="w-5 h-5 text-blue-400" />
+                )}
+              </button>
+            </div>
           </div>
         </div>
       </header>
@@ -178,14 +562,76 @@ function AppContent() {
         {/* Left Panel */}
         <div className="w-1/2 p-6 overflow-y-auto border-r border-gray-800 light:border-gray-200">
           <div className="space-y-6 max-w-3xl mx-auto">
-            <FileUploader onFilesSelected={handleFilesSelected} selectedFiles={files.map((f) => ({ name: f.name, path: f.path }))} />
+            <div className="flex gap-2 p-1 w-fit rounded-lg bg-[#1a1a1a] light:bg-gray-100 border border-gray-800 light:border-gray-300 text-sm">
+              {(Object.keys(INPUT_MODE_LABELS) as InputMode[]).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => switchInputMode(mode)}
+                  disabled={streamingState.isAnalyzing}
+                  className={`flex items-center gap-2 px-3 py-1.5 rounded-md transition-colors duration-200 disabled:cursor-not-allowed ${
+                    inputMode === mode ? "bg-blue-500/20 text-blue-400" : "text-gray-400 light:text-gray-600 hover:text-gray-200 light:hover:text-gray-800"
+                  }`}
+                >
+                  {mode === "files" ? <FolderOpen className="w-4 h-4" /> : <GitCompare className="w-4 h-4" />}
+                  {INPUT_MODE_LABELS[mode]}
+                </button>
+              ))}
+            </div>
+
+            {inputMode === "files" ? (
+              <FileUploader key={uploader.key} onFilesChange={handleFilesChange} initialFiles={uploader.files} />
+            ) : (
+              <ChangeInput key={uploader.key} onChangeLoaded={handleChangeLoaded} initialFiles={uploader.files} />
+            )}
 
-            {files.length > 0 && <CodePreview files={files} />}
+            {files.length > 0 && <CodePreview files={files} onRunFile={openFileInRunner} />}
 
-            {streamingState.isAnalyzing && (
-              <div className="mt-4 p-3 bg-[#1a1a1a] border border-blue-900 rounded-lg shadow-lg glow-border-blue">
-                <p className="text-blue-400 font-semibold glow-text-blue">Processing: {streamingState.currentFile}</p>
-                <p className="text-gray-400">{streamingState.currentStep}</p>
+            {streamingState.isAnalyzing && streamingState.progress && (
+              <AnalysisProgress
+                progress={streamingState.progress}
+                onPause={() => queueRef.current?.pause()}
+                onResume={() => queueRef.current?.resume()}
+                onCancel={() => queueRef.current?.cancel()}
+              />
+            )}
+
+            <div className="flex items-center gap-3 text-sm text-gray-400 light:text-gray-600">
+              <label className="flex items-center gap-2" title={activeProfile?.description}>
+                <SlidersHorizontal className="w-4 h-4 text-blue-400" />
+                Review profile
+                <select
+                  value={activeProfile?.id ?? ""}
+                  disabled={!profiles.length || streamingState.isAnalyzing}
+                  onChange={(e) => selectProfile(e.target.value)}
+                  className="px-3 py-2 bg-gray-900 light:bg-white text-white light:text-gray-800 rounded-md border border-gray-700 light:border-gray-300 focus:border-blue-500 disabled:opacity-50"
+                >
+                  {profiles.map((profile) => (
+                    <option key={profile.id} value={profile.id}>
+                      {profile.name}
+                      {isProfileEdited(profile.id) ? " (edited)" : ""}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <button
+                onClick={() => setIsProfileEditorOpen(true)}
+                disabled={!activeProfile || streamingState.isAnalyzing}
+                className="px-3 py-2 bg-[#1a1a1a] light:bg-gray-100 rounded-md border border-gray-800 light:border-gray-300 hover:border-gray-700 light:hover:border-gray-400 disabled:opacity-50 transition-colors duration-200"
+              >
+                Edit
+              </button>
+              {projectConfig && (
+                <span className="truncate text-xs text-gray-500" title={projectConfig.path}>
+                  {CONFIG_FILE_NAME}: {projectConfig.rules.length} rule{projectConfig.rules.length === 1 ? "" : "s"}
+                </span>
+              )}
+            </div>
+            {configErrors.length > 0 && (
+              <div className="p-3 text-xs text-red-400 bg-red-400/10 border border-red-400/20 rounded-lg space-y-1">
+                <p className="font-semibold">The project config was ignored:</p>
+                {configErrors.map((error) => (
+                  <p key={error}>{error}</p>
+                ))}
               </div>
             )}
 
@@ -199,6 +645,19 @@ function AppContent() {
                 {streamingState.isAnalyzing ? "Analyzing..." : "Validate Code"}
               </button>
 
+              <label className="flex items-center gap-2 text-sm text-gray-400 light:text-gray-600" title="Files analyzed in parallel">
+                Parallel
+                <input
+                  type="number"
+                  min={1}
+                  max={16}
+                  value={concurrency}
+                  disabled={streamingState.isAnalyzing}
+                  onChange={(e) => updateConcurrency(Number(e.target.value))}
+                  className="w-16 px-2 py-2 bg-gray-900 light:bg-white text-white light:text-gray-800 rounded-md border border-gray-700 light:border-gray-300 focus:border-blue-500 disabled:opacity-50"
+                />
+              </label>
+
               <button 
                 onClick={() => setIsCodeEditorOpen(!isCodeEditorOpen)} 
                 className="flex-1 px-4 py-3 bg-green-700 hover:bg-green-600 rounded-lg transition-colors duration-200 flex items-center justify-center gap-2"
@@ -209,20 +668,62 @@ function AppContent() {
 
             {isCodeEditorOpen && (
               <div className="space-y-4 bg-[#121212] rounded-xl p-6 border border-gray-800">
-                <textarea 
-                  className="w-full p-4 bg-gray-900 text-white rounded-md border border-gray-700 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 transition-all duration-200" 
-                  value={codeToRun} 
-                  onChange={(e) => setCodeToRun(e.target.value)} 
-                  placeholder="Type or paste code here..."
-                  rows={8}
+                <div className="flex items-center justify-between gap-4">
+                  <span className="text-sm text-gray-400 truncate" title={activeTab.path}>
+                    {activeTab.path ? `Loaded from ${activeTab.path}` : "Scratch code"}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    {effectiveLanguage === "python" && (
+                      <select
+                        value={runEngine}
+                        onChange={(e) => setRunEngine(e.target.value as "server" | "browser")}
+                        className="px-3 py-2 bg-gray-900 text-white text-sm rounded-md border border-gray-700 focus:border-blue-500"
+                        title="Where the code is executed"
+                      >
+                        <option value="server">Server</option>
+                        <option value="browser">Browser (Pyodide)</option>
+                      </select>
+                    )}
+                    <select
+                      value={activeTab.language}
+                      onChange={(e) => updateTab(activeTab.id, { language: e.target.value as RunLanguage | "auto" })}
+                      className="px-3 py-2 bg-gray-900 text-white text-sm rounded-md border border-gray-700 focus:border-blue-500"
+                    >
+                      <option value="auto">Auto-detect ({getLanguageLabel(detectedLanguage)})</option>
+                      {RUN_LANGUAGES.map((language) => (
+                        <option key={language.id} value={language.id}>
+                          {language.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <CodeEditor
+                  tabs={editorTabs}
+                  activeTabId={activeTab.id}
+                  language={effectiveLanguage}
+                  findings={activeFindings}
+                  onSelectTab={setActiveTabId}
+                  onCloseTab={closeTab}
+                  onNewTab={addScratchTab}
+                  onChange={(id, content) => updateTab(id, { content })}
+                  onRun={runCode}
+                />
+                <textarea
+                  className="w-full p-3 bg-gray-900 text-white rounded-md border border-gray-700 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 transition-all duration-200 font-mono text-sm"
+                  value={stdin}
+                  onChange={(e) => setStdin(e.target.value)}
+                  placeholder="Standard input (optional)"
+                  rows={2}
                 />
                 <button 
                   onClick={runCode} 
-                  className="w-full px-4 py-3 bg-purple-700 hover:bg-purple-600 rounded-lg transition-colors duration-200 flex items-center justify-center gap-2"
+                  disabled={isRunning}
+                  className="w-full px-4 py-3 bg-purple-700 hover:bg-purple-600 rounded-lg transition-colors duration-200 flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   <Terminal className="w-5 h-5" /> Execute Code
                 </button>
-                <pre className="mt-2 bg-black text-white p-4 rounded-md max-h-[200px] overflow-y-auto">{executionOutput}</pre>
+                <RunOutput result={runResult} isRunning={isRunning} error={runError} />
               </div>
             )}
           </div>
@@ -231,10 +732,46 @@ function AppContent() {
         {/* Right Panel */}
         <div className="w-1/2 p-6 overflow-y-auto bg-[#0c0c0c] dark:bg-[#0c0c0c] light:bg-gray-50">
           <div className="max-w-3xl mx-auto">
-            <ValidationResults results={validationResults} onSaveCorrection={(result) => console.log("Save correction:", result)} />
+            <ValidationResults
+              results={validationResults}
+              projectReview={projectReview}
+              liveOutput={streamingState.liveOutput}
+              hunkDecisions={hunkDecisions}
+              onHunkDecisionsChange={(path, accepted) => setHunkDecisions((prev) => ({ ...prev, [path]: accepted }))}
+              onCancelAnalysis={cancelAnalysis}
+              onSaveCorrection={saveCorrection}
+              onExportReport={reportMetadata && !streamingState.isAnalyzing ? exportReport : undefined}
+              generatedTests={generatedTests}
+              onGenerateTests={runGeneratedTests}
+              chats={chats}
+              onSendChat={sendChatMessage}
+              onStopChat={stopChat}
+              onApplyChatCode={applyChatCode}
+            />
           </div>
         </div>
       </main>
+
+      {isHistoryOpen && (
+        <HistoryPanel
+          onOpenRun={openRun}
+          onCompareRuns={(base, head) => {
+            setIsHistoryOpen(false);
+            setComparedRuns([base, head]);
+          }}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+      {isProfileEditorOpen && activeProfile && (
+        <ProfileEditor
+          profile={activeProfile}
+          isEdited={isProfileEdited(activeProfile.id)}
+          onSave={saveProfile}
+          onReset={() => resetProfile(activeProfile.id)}
+          onClose={() => setIsProfileEditorOpen(false)}
+        />
+      )}
+      {comparedRuns && <ComparisonView base={comparedRuns[0]} head={comparedRuns[1]} onClose={() => setComparedRuns(null)} />}
     </div>
   );
 }
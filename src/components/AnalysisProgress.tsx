@@ -0,0 +1,61 @@
+import { Pause, Play, XCircle } from "lucide-react";
+import type { QueueProgress } from "../types";
+
+interface AnalysisProgressProps {
+  progress: QueueProgress;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+}
+
+const formatEta = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${seconds % 60}s`;
+};
+
+export function AnalysisProgress({ progress, onPause, onResume, onCancel }: AnalysisProgressProps) {
+  const { total, done, failed, cancelled, running, remaining, paused, etaMs } = progress;
+  const settled = done + failed + cancelled;
+  const percent = total ? Math.round((settled / total) * 100) : 0;
+
+  return (
+    <div className="p-4 bg-[#1a1a1a] light:bg-white border border-blue-900 light:border-blue-200 rounded-lg shadow-lg glow-border-blue space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-blue-400 font-semibold glow-text-blue">
+          {paused ? "Paused" : "Analyzing"} {settled}/{total} files
+        </p>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={paused ? onResume : onPause}
+            className="flex items-center gap-1 px-2 py-1 text-xs text-gray-300 light:text-gray-600 bg-[#242424] light:bg-gray-100 rounded-md hover:bg-[#2a2a2a] light:hover:bg-gray-200 transition-colors duration-200"
+          >
+            {paused ? <Play className="w-3 h-3" /> : <Pause className="w-3 h-3" />}
+            {paused ? "Resume" : "Pause"}
+          </button>
+          <button
+            onClick={onCancel}
+            className="flex items-center gap-1 px-2 py-1 text-xs text-red-400 bg-red-400/10 border border-red-400/20 rounded-md hover:bg-red-400/20 transition-colors duration-200"
+          >
+            <XCircle className="w-3 h-3" />
+            Cancel all
+          </button>
+        </div>
+      </div>
+
+      <div className="w-full bg-gray-700 light:bg-gray-200 rounded-full h-2 overflow-hidden">
+        <div className="bg-blue-500 h-full transition-all duration-300" style={{ width: `${percent}%` }} />
+      </div>
+
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-400 light:text-gray-500">
+        <span className="text-emerald-400">{done} done</span>
+        <span className="text-red-400">{failed} failed</span>
+        {cancelled > 0 && <span>{cancelled} cancelled</span>}
+        <span>{running} running</span>
+        <span>{remaining} remaining</span>
+        {etaMs !== null && remaining > 0 && <span>ETA {formatEta(etaMs)}</span>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { useRef, useState } from "react";
+import { FileDiff, FileUp, GitCompare, Loader2 } from "lucide-react";
+import type { FileWithContent } from "../types";
+import { loadRepositoryChange } from "../utils/api";
+import { countChangedLines, parseChange } from "../utils/changes";
+
+interface ChangeInputProps {
+  // Called with the changed files, each carrying its change
+  onChangeLoaded: (files: FileWithContent[]) => void;
+  // Files of a reopened run, listed without being reported again
+  initialFiles?: FileWithContent[];
+}
+
+type Source = "diff" | "commits";
+
+const inputClassName =
+  "w-full px-3 py-1.5 text-sm bg-gray-900 light:bg-white text-white light:text-gray-800 rounded-md border border-gray-700 light:border-gray-300 focus:border-blue-500";
+
+const buttonClassName =
+  "flex items-center gap-2 px-4 py-1.5 text-sm text-white bg-blue-700 hover:bg-blue-600 rounded-md disabled:opacity-50 disabled:cursor-not-allowed";
+
+// "Review a change" input: a pasted or opened unified diff, or two commits of a
+// local repository. Only the changed hunks of each file are reviewed.
+export function ChangeInput({ onChangeLoaded, initialFiles = [] }: ChangeInputProps) {
+  const [source, setSource] = useState<Source>("diff");
+  const [diff, setDiff] = useState("");
+  const [commits, setCommits] = useState({ path: "", base: "HEAD", head: "" });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notes, setNotes] = useState<string[]>([]);
+  const [loaded, setLoaded] = useState(() => initialFiles.filter((file) => file.change));
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const finish = (files: FileWithContent[], skipped: string[] = []) => {
+    if (files.length === 0) {
+      setError("The diff has no changes to files that can be reviewed");
+      return;
+    }
+    const partial = files.filter((file) => !file.change?.complete).length;
+    setNotes([
+      ...skipped,
+      partial
+        ? `${partial} file${partial === 1 ? " is" : "s are"} only known from the diff, so static analysis is skipped for ${partial === 1 ? "it" : "them"}.`
+        : "",
+    ].filter(Boolean));
+    setLoaded(files);
+    onChangeLoaded(files);
+  };
+
+  const loadDiff = () => {
+    setError(null);
+    try {
+      finish(parseChange(diff));
+    } catch (err) {
+      setError(`Not a unified diff: ${(err as Error).message}`);
+    }
+  };
+
+  const loadCommits = async () => {
+    setError(null);
+    setLoading(true);
+    try {
+      const change = await loadRepositoryChange(commits.path.trim(), commits.base.trim(), commits.head.trim());
+      const contents = Object.fromEntries(change.files.map((file) => [file.path, file.content]));
+      setDiff(change.diff);
+      finish(
+        parseChange(change.diff, contents),
+        change.skipped.map((entry) => `${entry.path} was skipped (${entry.reason === "binary" ? "binary" : "too large"}).`)
+      );
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openDiffFile = async (file: File | undefined) => {
+    if (!file) return;
+    setDiff(await file.text());
+    setError(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-gray-200 dark:text-gray-200 light:text-gray-800">Review a Change</h2>
+        <div className="flex gap-4">
+          {(["diff", "commits"] as const).map((mode) => (
+            <button
+              key={mode}
+              className={`px-4 py-2 rounded-lg transition-all ${
+                source === mode
+                  ? "bg-blue-500/20 text-blue-400 border border-blue-500/30"
+                  : "bg-[#1a1a1a] text-gray-400 border border-gray-800 hover:border-gray-700"
+              }`}
+              onClick={() => setSource(mode)}
+            >
+              {mode === "diff" ? "Paste Diff" : "Compare Commits"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="p-6 rounded-xl border-2 border-dashed border-gray-600 dark:border-gray-600 light:border-gray-300 space-y-3">
+        {source === "diff" ? (
+          <>
+            <textarea
+              value={diff}
+              onChange={(e) => setDiff(e.target.value)}
+              rows={10}
+              spellCheck={false}
+              placeholder={"diff --git a/src/app.ts b/src/app.ts\n--- a/src/app.ts\n+++ b/src/app.ts\n@@ -10,6 +10,7 @@\n..."}
+              className={`${inputClassName} font-mono text-xs resize-y`}
+            />
+            <div className="flex justify-between gap-3">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex items-center gap-2 px-3 py-1.5 text-sm text-gray-300 light:text-gray-600 bg-[#242424] light:bg-gray-100 rounded-md hover:bg-[#2a2a2a] light:hover:bg-gray-200"
+              >
+                <FileUp className="w-4 h-4" /> Open .diff or .patch
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".diff,.patch,text/x-diff,text/x-patch"
+                className="hidden"
+                onChange={(e) => openDiffFile(e.target.files?.[0])}
+              />
+              <button onClick={loadDiff} disabled={!diff.trim()} className={buttonClassName}>
+                <FileDiff className="w-4 h-4" /> Load diff
+              </button>
+            </div>
+          </>
+        ) : (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              loadCommits();
+            }}
+            className="space-y-3"
+          >
+            <p className="text-sm text-gray-400 light:text-gray-500">
+              A git repository on the analysis server's machine. Without a head commit the change goes up to the working
+              tree, uncommitted changes included.
+            </p>
+            <input
+              value={commits.path}
+              onChange={(e) => setCommits((prev) => ({ ...prev, path: e.target.value }))}
+              placeholder="/home/me/projects/app"
+              className={inputClassName}
+            />
+            <div className="flex gap-3">
+              <input
+                value={commits.base}
+                onChange={(e) => setCommits((prev) => ({ ...prev, base: e.target.value }))}
+                placeholder="Base, e.g. main"
+                className={inputClassName}
+              />
+              <input
+                value={commits.head}
+                onChange={(e) => setCommits((prev) => ({ ...prev, head: e.target.value }))}
+                placeholder="Head (working tree when empty)"
+                className={inputClassName}
+              />
+              <button type="submit" disabled={!commits.path.trim() || !commits.base.trim() || loading} className={buttonClassName}>
+                {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <GitCompare className="w-4 h-4" />}
+                Compare
+              </button>
+            </div>
+          </form>
+        )}
+        {error && <p className="text-sm text-red-400">{error}</p>}
+      </div>
+
+      {loaded.length > 0 && (
+        <div className="bg-[#1a1a1a] dark:bg-[#1a1a1a] light:bg-white rounded-xl p-6 border border-gray-800 dark:border-gray-800 light:border-gray-200 space-y-3">
+          <h3 className="text-lg font-medium text-gray-200 dark:text-gray-200 light:text-gray-800">Changed Files ({loaded.length})</h3>
+          <ul className="space-y-1 max-h-[300px] overflow-y-auto pr-2 scrollbar-dark">
+            {loaded.map((file) => {
+              const { added, removed } = countChangedLines(file.change!);
+              return (
+                <li key={file.path} className="flex items-center justify-between gap-4 px-3 py-2 glass-effect rounded-lg text-sm">
+                  <span className="truncate text-gray-300 light:text-gray-600" title={file.path}>{file.path}</span>
+                  <span className="shrink-0 font-mono text-xs">
+                    <span className="text-emerald-400">+{added}</span> <span className="text-red-400">-{removed}</span>
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+          {notes.map((note) => (
+            <p key={note} className="text-xs text-gray-500">{note}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { useMemo } from "react";
+import type { FileChange, Finding } from "../types";
+import { toDiffLines, type DiffLine } from "../utils/diff";
+
+interface ChangeViewProps {
+  change: FileChange;
+  findings: Finding[];
+}
+
+const LINE_STYLES: Record<DiffLine["type"], string> = {
+  context: "",
+  add: "bg-emerald-500/10 light:bg-emerald-50",
+  remove: "bg-red-500/10 light:bg-red-50",
+};
+
+const MARKERS: Record<DiffLine["type"], string> = { context: " ", add: "+", remove: "-" };
+
+const numberCell = "w-10 px-2 text-right text-gray-500 select-none align-top";
+
+// The reviewed hunks of a change; new-file lines with findings are marked
+export function ChangeView({ change, findings }: ChangeViewProps) {
+  const hunks = useMemo(() => change.hunks.map((hunk) => ({ hunk, lines: toDiffLines(hunk) })), [change]);
+
+  const findingsAt = (line?: number) =>
+    line === undefined ? [] : findings.filter((finding) => finding.startLine <= line && line <= finding.endLine);
+
+  return (
+    <div className="space-y-3">
+      {!change.complete && (
+        <p className="text-xs text-gray-400 light:text-gray-500">
+          Only the diff was available, so the rest of the file was not seen by the reviewer.
+        </p>
+      )}
+      {hunks.map(({ hunk, lines }, index) => (
+        <div key={index} className="rounded-lg overflow-hidden border border-gray-800 light:border-gray-200">
+          <div className="px-3 py-1.5 bg-[#242424] light:bg-gray-100 text-xs font-mono text-gray-400">
+            @@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@
+          </div>
+          <table className="w-full text-xs font-mono text-gray-300 light:text-gray-700 bg-[#1a1a1a] light:bg-white">
+            <tbody>
+              {lines.map((line, lineIndex) => {
+                const marked = findingsAt(line.newNumber);
+                return (
+                  <tr key={lineIndex} className={LINE_STYLES[line.type]}>
+                    <td className={numberCell}>{line.oldNumber}</td>
+                    <td
+                      className={`${numberCell} ${marked.length ? "text-amber-400 font-semibold" : ""}`}
+                      title={marked.map((finding) => finding.message).join("\n") || undefined}
+                    >
+                      {line.newNumber}
+                    </td>
+                    <td className="w-4 text-gray-500 select-none align-top">{MARKERS[line.type]}</td>
+                    <td className="px-2 whitespace-pre-wrap break-all">{line.text || " "}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      ))}
+    </div>
+  );
+}
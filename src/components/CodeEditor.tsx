@@ -0,0 +1,141 @@
+import { useMemo, useRef } from "react";
+import CodeMirror, { EditorView, Prec, keymap, type Extension, type Text } from "@uiw/react-codemirror";
+import { javascript } from "@codemirror/lang-javascript";
+import { python } from "@codemirror/lang-python";
+import { StreamLanguage } from "@codemirror/language";
+import { shell } from "@codemirror/legacy-modes/mode/shell";
+import { linter, lintGutter, type Diagnostic } from "@codemirror/lint";
+import { FileCode, Plus, X } from "lucide-react";
+import type { EditorTab, Finding, RunLanguage, Severity } from "../types";
+import { useTheme } from "../contexts/ThemeContext";
+import { SOURCE_LABELS, formatLineRange } from "../utils/findings";
+
+interface CodeEditorProps {
+  tabs: EditorTab[];
+  activeTabId: string;
+  language: RunLanguage;
+  findings?: Finding[];
+  onSelectTab: (id: string) => void;
+  onCloseTab: (id: string) => void;
+  onNewTab: () => void;
+  onChange: (id: string, content: string) => void;
+  onRun: () => void;
+}
+
+const LANGUAGE_EXTENSIONS: Record<RunLanguage, () => Extension> = {
+  javascript: () => javascript({ jsx: true }),
+  typescript: () => javascript({ jsx: true, typescript: true }),
+  python: () => python(),
+  shell: () => StreamLanguage.define(shell),
+};
+
+const DIAGNOSTIC_SEVERITY: Record<Severity, Diagnostic["severity"]> = {
+  critical: "error",
+  high: "error",
+  medium: "warning",
+  low: "info",
+  info: "hint",
+};
+
+// Maps review findings onto editor ranges, clamping line numbers the model got wrong.
+function toDiagnostics(doc: Text, findings: Finding[]): Diagnostic[] {
+  const clamp = (line: number) => Math.min(Math.max(line, 1), doc.lines);
+  return findings.map((finding) => ({
+    from: doc.line(clamp(finding.startLine)).from,
+    to: doc.line(clamp(finding.endLine)).to,
+    severity: DIAGNOSTIC_SEVERITY[finding.severity],
+    source: `${finding.source ? `${SOURCE_LABELS[finding.source]} · ` : ""}${finding.category} · ${formatLineRange(finding)}`,
+    message: finding.suggestedFix ? `${finding.message}\nFix: ${finding.suggestedFix}` : finding.message,
+  }));
+}
+
+export function CodeEditor({
+  tabs,
+  activeTabId,
+  language,
+  findings = [],
+  onSelectTab,
+  onCloseTab,
+  onNewTab,
+  onChange,
+  onRun,
+}: CodeEditorProps) {
+  const { theme } = useTheme();
+  const activeTab = tabs.find((tab) => tab.id === activeTabId) ?? tabs[0];
+
+  // Keep the keymap stable while still calling the latest onRun
+  const onRunRef = useRef(onRun);
+  onRunRef.current = onRun;
+
+  const extensions = useMemo(
+    () => [
+      LANGUAGE_EXTENSIONS[language](),
+      EditorView.lineWrapping,
+      Prec.highest(
+        keymap.of([
+          {
+            key: "Mod-Enter",
+            run: () => {
+              onRunRef.current();
+              return true;
+            },
+          },
+        ])
+      ),
+      lintGutter(),
+      linter((view) => toDiagnostics(view.state.doc, findings), { delay: 0 }),
+    ],
+    [language, findings]
+  );
+
+  return (
+    <div className="rounded-md border border-gray-700 light:border-gray-300 overflow-hidden">
+      {/* Tabs */}
+      <div className="flex items-center gap-1 px-2 pt-2 bg-[#1a1a1a] light:bg-gray-100 overflow-x-auto scrollbar-dark">
+        {tabs.map((tab) => (
+          <div
+            key={tab.id}
+            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-t-md text-xs whitespace-nowrap cursor-pointer transition-colors duration-200 ${
+              tab.id === activeTab?.id
+                ? "bg-gray-900 light:bg-white text-gray-100 light:text-gray-800"
+                : "text-gray-400 light:text-gray-500 hover:text-gray-200 light:hover:text-gray-700"
+            }`}
+            onClick={() => onSelectTab(tab.id)}
+            title={tab.path}
+          >
+            <FileCode className="w-3.5 h-3.5" />
+            {tab.name}
+            {tabs.length > 1 && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onCloseTab(tab.id);
+                }}
+                className="text-gray-500 hover:text-red-400"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+        ))}
+        <button onClick={onNewTab} className="p-1.5 text-gray-400 hover:text-gray-200 light:hover:text-gray-700" title="New tab">
+          <Plus className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {activeTab && (
+        <CodeMirror
+          value={activeTab.content}
+          onChange={(value) => onChange(activeTab.id, value)}
+          theme={theme}
+          extensions={extensions}
+          height="280px"
+          placeholder="Type or paste code here..."
+          basicSetup={{ tabSize: 4 }}
+        />
+      )}
+
+      <p className="px-3 py-1.5 text-[11px] text-gray-500 bg-[#1a1a1a] light:bg-gray-100">Ctrl+Enter to run</p>
+    </div>
+  );
+}
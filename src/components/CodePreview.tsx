@@ -1,14 +1,16 @@
-import React, { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
 import { FileWithContent } from '../types';
-import { FileCode, Clipboard, Download, WrapText, Folder } from 'lucide-react';
+import { FileCode, Clipboard, Download, WrapText, Folder, Play } from 'lucide-react';
+import { languageFromExtension } from '../utils/languages';
 
 interface CodePreviewProps {
   files: FileWithContent[];
+  onRunFile?: (file: FileWithContent) => void;
 }
 
-export function CodePreview({ files }: CodePreviewProps) {
+export function CodePreview({ files, onRunFile }: CodePreviewProps) {
   const [selectedFolder, setSelectedFolder] = useState<string | null>(null);
   const [selectedFile, setSelectedFile] = useState<FileWithContent | null>(null);
   const [copied, setCopied] = useState(false);
@@ -119,6 +121,17 @@ export function CodePreview({ files }: CodePreviewProps) {
             </span>
           </div>
           <div className="flex gap-1.5">
+            {/* Run Button */}
+            {onRunFile && languageFromExtension(selectedFile.extension) && (
+              <button
+                onClick={() => onRunFile(selectedFile)}
+                className="flex items-center gap-1.5 px-2 py-1 rounded-md text-xs bg-purple-500/20 text-purple-400 border border-purple-500/30 hover:bg-purple-500/30 transition-all dark:bg-purple-500/20 dark:text-purple-400 dark:border-purple-500/30 dark:hover:bg-purple-500/30 light:bg-purple-100 light:text-purple-600 light:border-purple-200 light:hover:bg-purple-200"
+              >
+                Run this file
+                <Play className="w-3.5 h-3.5" />
+              </button>
+            )}
+
             {/* Copy Button */}
             <button
               onClick={copyToClipboard}
@@ -0,0 +1,136 @@
+import { useMemo, useState } from "react";
+import { ArrowRight, ChevronDown, ChevronRight, GitCompare, X } from "lucide-react";
+import type { AnalysisRun, Finding } from "../types";
+import { compareRuns, type FileChange } from "../utils/compare";
+import { formatLineRange } from "../utils/findings";
+
+interface ComparisonViewProps {
+  base: AnalysisRun;
+  head: AnalysisRun;
+  onClose: () => void;
+}
+
+const CHANGE_STYLES: Record<FileChange, { label: string; className: string }> = {
+  improved: { label: "Improved", className: "text-emerald-400 bg-emerald-400/10 border-emerald-400/30" },
+  regressed: { label: "Regressed", className: "text-red-400 bg-red-400/10 border-red-400/30" },
+  unchanged: { label: "Unchanged", className: "text-gray-400 bg-gray-400/10 border-gray-400/30" },
+  added: { label: "New file", className: "text-blue-400 bg-blue-400/10 border-blue-400/30" },
+  removed: { label: "Removed", className: "text-gray-500 bg-gray-500/10 border-gray-500/30" },
+};
+
+const formatDelta = (delta: number) => (delta > 0 ? `+${delta}` : String(delta));
+const deltaColor = (delta: number) => (delta > 0 ? "text-emerald-400" : delta < 0 ? "text-red-400" : "text-gray-400");
+
+function FindingList({ title, findings, className }: { title: string; findings: Finding[]; className: string }) {
+  if (!findings.length) return null;
+  return (
+    <div className="space-y-1">
+      <p className={`text-xs font-semibold ${className}`}>
+        {title} ({findings.length})
+      </p>
+      {findings.map((finding, index) => (
+        <p key={index} className="text-xs text-gray-300 light:text-gray-600">
+          <span className="uppercase text-[10px] text-gray-500 mr-2">{finding.severity}</span>
+          <span className="text-gray-500 mr-2">{formatLineRange(finding)}</span>
+          {finding.message}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+export function ComparisonView({ base, head, onClose }: ComparisonViewProps) {
+  const comparison = useMemo(() => compareRuns(base, head), [base, head]);
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+  const scoreDelta = comparison.headScore - comparison.baseScore;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 p-6" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl max-h-[85vh] flex flex-col bg-[#121212] light:bg-white rounded-lg border border-gray-800 light:border-gray-200 shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-800 light:border-gray-200">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-200 light:text-gray-800">
+            <GitCompare className="w-5 h-5 text-blue-400" /> Compare runs
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-200 light:hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Aggregate */}
+        <div className="grid grid-cols-4 gap-3 p-4 border-b border-gray-800 light:border-gray-200 text-center">
+          <div>
+            <p className="text-xs text-gray-500">Project score</p>
+            <p className="flex items-center justify-center gap-2 text-lg font-bold text-gray-200 light:text-gray-800">
+              {comparison.baseScore}
+              <ArrowRight className="w-4 h-4 text-gray-500" />
+              {comparison.headScore}
+              <span className={`text-sm ${deltaColor(scoreDelta)}`}>{formatDelta(scoreDelta)}</span>
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-gray-500">Fixed findings</p>
+            <p className="text-lg font-bold text-emerald-400">{comparison.fixedCount}</p>
+          </div>
+          <div>
+            <p className="text-xs text-gray-500">New findings</p>
+            <p className="text-lg font-bold text-amber-400">{comparison.introducedCount}</p>
+          </div>
+          <div>
+            <p className="text-xs text-gray-500">Regressed files</p>
+            <p className="text-lg font-bold text-red-400">{comparison.regressions}</p>
+          </div>
+        </div>
+        <p className="px-4 pt-3 text-xs text-gray-500">
+          {new Date(base.createdAt).toLocaleString()} ({base.model}) → {new Date(head.createdAt).toLocaleString()} ({head.model})
+        </p>
+
+        {/* Per file */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-2 scrollbar-dark">
+          {comparison.files.map((file) => {
+            const delta = file.baseScore !== null && file.headScore !== null ? file.headScore - file.baseScore : null;
+            const hasDetails = file.fixed.length > 0 || file.introduced.length > 0;
+            const isExpanded = expanded[file.path];
+
+            return (
+              <div key={file.path} className="bg-[#1a1a1a] light:bg-gray-50 rounded-lg border border-gray-800 light:border-gray-200">
+                <div
+                  className={`flex items-center justify-between gap-3 p-3 ${hasDetails ? "cursor-pointer" : ""}`}
+                  onClick={() => hasDetails && setExpanded((prev) => ({ ...prev, [file.path]: !prev[file.path] }))}
+                >
+                  <div className="flex items-center gap-2 min-w-0">
+                    {hasDetails ? (
+                      isExpanded ? <ChevronDown className="w-4 h-4 text-gray-400 shrink-0" /> : <ChevronRight className="w-4 h-4 text-gray-400 shrink-0" />
+                    ) : (
+                      <span className="w-4 shrink-0" />
+                    )}
+                    <span className="text-sm font-mono text-gray-200 light:text-gray-800 truncate" title={file.path}>
+                      {file.path}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-3 shrink-0 text-sm">
+                    <span className="text-gray-400">
+                      {file.baseScore ?? "–"} → {file.headScore ?? "–"}
+                    </span>
+                    {delta !== null && <span className={`w-10 text-right font-semibold ${deltaColor(delta)}`}>{formatDelta(delta)}</span>}
+                    <span className={`px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase border ${CHANGE_STYLES[file.change].className}`}>
+                      {CHANGE_STYLES[file.change].label}
+                    </span>
+                  </div>
+                </div>
+                {isExpanded && (
+                  <div className="px-9 pb-3 space-y-3">
+                    <FindingList title="Fixed" findings={file.fixed} className="text-emerald-400" />
+                    <FindingList title="New" findings={file.introduced} className="text-amber-400" />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
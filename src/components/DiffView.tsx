@@ -0,0 +1,150 @@
+import { useMemo, useState } from "react";
+import { Check, Columns2, Rows2, X } from "lucide-react";
+import { computeHunks, toDiffLines, toSplitRows, type DiffLine } from "../utils/diff";
+
+interface DiffViewProps {
+  original: string;
+  corrected: string;
+  // Accept/reject decision per hunk; missing entries count as accepted
+  accepted?: boolean[];
+  onAcceptedChange?: (accepted: boolean[]) => void;
+}
+
+const LINE_STYLES: Record<DiffLine["type"], string> = {
+  context: "",
+  add: "bg-emerald-500/10 light:bg-emerald-50",
+  remove: "bg-red-500/10 light:bg-red-50",
+};
+
+const SEGMENT_STYLES: Record<DiffLine["type"], string> = {
+  context: "",
+  add: "bg-emerald-500/30 light:bg-emerald-200 rounded-sm",
+  remove: "bg-red-500/30 light:bg-red-200 rounded-sm",
+};
+
+const MARKERS: Record<DiffLine["type"], string> = { context: " ", add: "+", remove: "-" };
+
+function LineText({ line }: { line: DiffLine }) {
+  if (!line.segments) return <>{line.text || " "}</>;
+  return (
+    <>
+      {line.segments.map((segment, index) => (
+        <span key={index} className={segment.changed ? SEGMENT_STYLES[line.type] : undefined}>
+          {segment.text}
+        </span>
+      ))}
+    </>
+  );
+}
+
+const numberCell = "w-10 px-2 text-right text-gray-500 select-none align-top";
+const textCell = "px-2 whitespace-pre-wrap break-all";
+
+export function DiffView({ original, corrected, accepted = [], onAcceptedChange }: DiffViewProps) {
+  const [mode, setMode] = useState<"unified" | "split">("unified");
+  const hunks = useMemo(
+    () => computeHunks(original, corrected).map((hunk) => ({ hunk, lines: toDiffLines(hunk) })),
+    [original, corrected]
+  );
+
+  const setDecision = (index: number, value: boolean) => {
+    const next = hunks.map((_, hunkIndex) => accepted[hunkIndex] !== false);
+    next[index] = value;
+    onAcceptedChange?.(next);
+  };
+
+  if (hunks.length === 0) {
+    return <p className="text-sm text-gray-400 p-3">The corrected code is identical to the original.</p>;
+  }
+
+  const acceptedCount = hunks.filter((_, index) => accepted[index] !== false).length;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-xs text-gray-400 light:text-gray-500">
+        <span>
+          {hunks.length} change{hunks.length === 1 ? "" : "s"} · {acceptedCount} accepted
+        </span>
+        <div className="flex items-center gap-1">
+          {(["unified", "split"] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              className={`flex items-center gap-1 px-2 py-1 rounded-md transition-colors duration-200 ${
+                mode === option
+                  ? "bg-blue-500/20 text-blue-400 border border-blue-500/30"
+                  : "bg-[#242424] light:bg-gray-100 text-gray-300 light:text-gray-600 hover:bg-[#2a2a2a] light:hover:bg-gray-200"
+              }`}
+            >
+              {option === "unified" ? <Rows2 className="w-3 h-3" /> : <Columns2 className="w-3 h-3" />}
+              {option === "unified" ? "Unified" : "Split"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {hunks.map(({ hunk, lines }, index) => {
+        const isAccepted = accepted[index] !== false;
+
+        return (
+          <div
+            key={index}
+            className={`rounded-lg overflow-hidden border transition-opacity duration-200 ${
+              isAccepted ? "border-gray-800 light:border-gray-200" : "border-gray-800/50 light:border-gray-200 opacity-60"
+            }`}
+          >
+            <div className="flex items-center justify-between px-3 py-1.5 bg-[#242424] light:bg-gray-100 text-xs font-mono text-gray-400">
+              <span>
+                @@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@
+              </span>
+              {onAcceptedChange && (
+                <div className="flex items-center gap-1 font-sans">
+                  <button
+                    onClick={() => setDecision(index, true)}
+                    className={`flex items-center gap-1 px-2 py-0.5 rounded ${isAccepted ? "bg-emerald-500/20 text-emerald-400" : "hover:text-emerald-400"}`}
+                  >
+                    <Check className="w-3 h-3" /> Accept
+                  </button>
+                  <button
+                    onClick={() => setDecision(index, false)}
+                    className={`flex items-center gap-1 px-2 py-0.5 rounded ${!isAccepted ? "bg-red-500/20 text-red-400" : "hover:text-red-400"}`}
+                  >
+                    <X className="w-3 h-3" /> Reject
+                  </button>
+                </div>
+              )}
+            </div>
+
+            <table className="w-full text-xs font-mono text-gray-300 light:text-gray-700 bg-[#1a1a1a] light:bg-white">
+              <tbody>
+                {mode === "unified"
+                  ? lines.map((line, lineIndex) => (
+                      <tr key={lineIndex} className={LINE_STYLES[line.type]}>
+                        <td className={numberCell}>{line.oldNumber}</td>
+                        <td className={numberCell}>{line.newNumber}</td>
+                        <td className="w-4 text-gray-500 select-none align-top">{MARKERS[line.type]}</td>
+                        <td className={textCell}>
+                          <LineText line={line} />
+                        </td>
+                      </tr>
+                    ))
+                  : toSplitRows(lines).map(({ left, right }, rowIndex) => (
+                      <tr key={rowIndex}>
+                        <td className={`${numberCell} ${left ? LINE_STYLES[left.type] : ""}`}>{left?.oldNumber}</td>
+                        <td className={`${textCell} w-1/2 border-r border-gray-800 light:border-gray-200 ${left ? LINE_STYLES[left.type] : "bg-[#141414] light:bg-gray-50"}`}>
+                          {left && <LineText line={left} />}
+                        </td>
+                        <td className={`${numberCell} ${right ? LINE_STYLES[right.type] : ""}`}>{right?.newNumber}</td>
+                        <td className={`${textCell} w-1/2 ${right ? LINE_STYLES[right.type] : "bg-[#141414] light:bg-gray-50"}`}>
+                          {right && <LineText line={right} />}
+                        </td>
+                      </tr>
+                    ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
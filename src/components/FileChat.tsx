@@ -0,0 +1,160 @@
+import { useEffect, useRef, useState } from "react";
+import { Check, Copy, Loader2, MessageSquare, Send, Square } from "lucide-react";
+import { Prism as SyntaxHighlighter } from "react-syntax-highlighter";
+import { vscDarkPlus } from "react-syntax-highlighter/dist/esm/styles/prism";
+import type { ChatState } from "../types";
+import { splitAnswer } from "../utils/chat";
+
+interface FileChatProps {
+  chat?: ChatState;
+  // Language for highlighting code blocks that do not name one
+  language: string;
+  onSend: (question: string) => void;
+  onStop: () => void;
+  // Replaces the result's correction with code from an answer
+  onApplyCode: (code: string) => void;
+}
+
+const buttonClassName =
+  "flex items-center gap-1 px-2 py-1 text-xs bg-[#242424] dark:bg-[#242424] light:bg-gray-100 text-gray-300 dark:text-gray-300 light:text-gray-600 rounded-md hover:bg-[#2a2a2a] dark:hover:bg-[#2a2a2a] light:hover:bg-gray-200 transition-colors duration-200";
+
+function Answer({ content, language, onApplyCode }: { content: string; language: string; onApplyCode?: (code: string) => void }) {
+  const [copied, setCopied] = useState<number | null>(null);
+
+  const copy = async (code: string, index: number) => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(index);
+      setTimeout(() => setCopied(null), 2000);
+    } catch {
+      setCopied(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {splitAnswer(content).map((part, index) =>
+        part.type === "text" ? (
+          <p key={index} className="whitespace-pre-wrap break-words">
+            {part.text}
+          </p>
+        ) : (
+          <div key={index} className="rounded-lg overflow-hidden border border-gray-800">
+            {onApplyCode && (
+              <div className="flex justify-end gap-2 px-2 py-1 bg-[#1a1a1a] light:bg-gray-100">
+                <button onClick={() => copy(part.code, index)} className={buttonClassName}>
+                  <Copy className="w-3 h-3" />
+                  {copied === index ? "Copied!" : "Copy"}
+                </button>
+                <button
+                  onClick={() => onApplyCode(part.code)}
+                  className={buttonClassName}
+                  title="Show this code as the file's correction, replacing the current one"
+                >
+                  <Check className="w-3 h-3" />
+                  Use as correction
+                </button>
+              </div>
+            )}
+            <SyntaxHighlighter
+              language={part.language || language}
+              style={vscDarkPlus}
+              customStyle={{ margin: 0, padding: "0.75rem", backgroundColor: "#242424", fontSize: "0.8rem", lineHeight: "1.5" }}
+            >
+              {part.code}
+            </SyntaxHighlighter>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
+
+// Follow-up conversation about one reviewed file
+export function FileChat({ chat, language, onSend, onStop, onApplyCode }: FileChatProps) {
+  const [question, setQuestion] = useState("");
+  const endRef = useRef<HTMLDivElement>(null);
+  const isAnswering = !!chat && chat.reply !== null;
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: "nearest" });
+  }, [chat?.messages.length, chat?.reply]);
+
+  const send = () => {
+    if (!question.trim() || isAnswering) return;
+    onSend(question.trim());
+    setQuestion("");
+  };
+
+  return (
+    <div className="bg-[#1a1a1a] dark:bg-[#1a1a1a] light:bg-gray-50 p-4 rounded-lg border border-gray-800 dark:border-gray-800 light:border-gray-200 space-y-3">
+      <h5 className="text-base font-medium text-gray-200 dark:text-gray-200 light:text-gray-800 flex items-center gap-2">
+        <MessageSquare className="w-5 h-5 text-blue-400" /> Ask about this file
+      </h5>
+
+      <div className="max-h-[420px] overflow-y-auto space-y-3 text-sm scrollbar-dark">
+        {!chat?.messages.length && !isAnswering && (
+          <p className="text-gray-500">
+            The model sees the file, its findings and the current correction. Ask why a finding matters, or for a
+            different fix.
+          </p>
+        )}
+        {chat?.messages.map((message, index) =>
+          message.role === "user" ? (
+            <p
+              key={index}
+              className="ml-8 p-2 rounded-lg bg-blue-900/30 light:bg-blue-50 text-gray-200 light:text-gray-800 whitespace-pre-wrap break-words"
+            >
+              {message.content}
+            </p>
+          ) : (
+            <div key={index} className="mr-8 text-gray-300 light:text-gray-700">
+              <Answer content={message.content} language={language} onApplyCode={onApplyCode} />
+            </div>
+          )
+        )}
+        {isAnswering && (
+          <div className="mr-8 text-gray-300 light:text-gray-700">
+            {chat?.reply ? (
+              <Answer content={chat.reply} language={language} />
+            ) : (
+              <Loader2 className="w-4 h-4 text-blue-400 animate-spin" />
+            )}
+          </div>
+        )}
+        {chat?.error && <p className="text-red-400">{chat.error}</p>}
+        <div ref={endRef} />
+      </div>
+
+      <div className="flex items-end gap-2">
+        <textarea
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && !e.shiftKey) {
+              e.preventDefault();
+              send();
+            }
+          }}
+          rows={2}
+          placeholder="Why is line 40 a security risk?"
+          className="flex-1 px-3 py-2 text-sm bg-gray-900 light:bg-white text-white light:text-gray-800 rounded-md border border-gray-700 light:border-gray-300 focus:border-blue-500 resize-none"
+        />
+        {isAnswering ? (
+          <button onClick={onStop} className="p-2 text-red-400 bg-red-400/10 border border-red-400/20 rounded-md hover:bg-red-400/20" title="Stop">
+            <Square className="w-4 h-4" />
+          </button>
+        ) : (
+          <button
+            onClick={send}
+            disabled={!question.trim()}
+            className="p-2 text-white bg-blue-700 hover:bg-blue-600 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Send (Enter)"
+          >
+            <Send className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
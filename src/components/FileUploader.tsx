@@ -1,5 +1,5 @@
-import React, { useCallback, useState } from "react";
-import { useDropzone } from "react-dropzone";
+import { useCallback, useMemo, useRef, useState } from "react";
+import { useDropzone, type FileWithPath } from "react-dropzone";
 import {
   Upload,
   FileCode,
@@ -7,10 +7,15 @@ import {
   XCircle,
   GripVertical,
   Trash2,
+  Filter,
+  EyeOff,
+  GitBranch,
+  Loader2,
 } from "lucide-react";
 import {
   DndContext,
   closestCenter,
+  type DragEndEvent,
 } from "@dnd-kit/core";
 import {
   SortableContext,
@@ -19,56 +24,119 @@ import {
   verticalListSortingStrategy,
 } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
+import type { FileWithContent, ReadProgress, SkippedUpload, SkipReason, UploadedFile, UploadFilters } from "../types";
+import { loadRepository } from "../utils/api";
+import {
+  MAX_FILE_BYTES,
+  applyFilters,
+  formatBytes,
+  fromRepository,
+  loadFilters,
+  mergeUploads,
+  readUploads,
+  saveFilters,
+  toUploadedFile,
+} from "../utils/uploads";
 
 interface FileUploaderProps {
-  onFilesSelected: (files: File[]) => void;
+  // Called with the full ordered set of files to review whenever it changes
+  onFilesChange: (files: FileWithContent[]) => void;
+  // Files to start with, e.g. those of a run reopened from History
+  initialFiles?: FileWithContent[];
 }
 
-interface UploadedFile {
-  file: File;
-  path: string;
-  size: number;
-}
+type UploadMode = "file" | "folder" | "repository";
+
+const MODE_LABELS: Record<UploadMode, string> = {
+  file: "Upload Files",
+  folder: "Upload Folder",
+  repository: "Git Repository",
+};
+
+const SKIP_REASONS: Record<SkipReason, string> = {
+  binary: "binary",
+  "too-large": `over ${formatBytes(MAX_FILE_BYTES)}`,
+  unreadable: "could not be read",
+  excluded: "excluded by filter",
+  gitignored: "in .gitignore",
+};
+
+// The uploader owns the file set: it reads the files, drops duplicates and
+// applies the filters, and hands the parent the result in the user's order
+export function FileUploader({ onFilesChange, initialFiles = [] }: FileUploaderProps) {
+  const [uploadMode, setUploadMode] = useState<UploadMode>("file");
+  const [repository, setRepository] = useState({ path: "", ref: "", loading: false, error: null as string | null });
+  const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>(() =>
+    initialFiles.map((file) => ({ ...file, size: new Blob([file.content]).size, hash: "" }))
+  );
+  const [readProgress, setReadProgress] = useState<ReadProgress | null>(null);
+  const [skippedOnRead, setSkippedOnRead] = useState<SkippedUpload[]>([]);
+  const [duplicates, setDuplicates] = useState(0);
+  const [filters, setFilters] = useState<UploadFilters>(loadFilters);
+  const [filterDrafts, setFilterDrafts] = useState({ include: filters.include, exclude: filters.exclude });
+  const [showSkipped, setShowSkipped] = useState(false);
 
-export function FileUploader({ onFilesSelected }: FileUploaderProps) {
-  const [uploadMode, setUploadMode] = useState<"file" | "folder">("file");
-  const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
-  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  // The latest set, for drops that finish reading after other changes
+  const filesRef = useRef(uploadedFiles);
+
+  const filtered = useMemo(() => applyFilters(uploadedFiles, filters), [uploadedFiles, filters]);
+  const skipped = [...skippedOnRead.filter((entry) => !uploadedFiles.some((file) => file.path === entry.path)), ...filtered.skipped];
+
+  const update = useCallback(
+    (files: UploadedFile[], nextFilters: UploadFilters) => {
+      filesRef.current = files;
+      setUploadedFiles(files);
+      onFilesChange(applyFilters(files, nextFilters).files.map(({ name, path, content, extension }) => ({ name, path, content, extension })));
+    },
+    [onFilesChange]
+  );
+
+  const addFiles = useCallback(
+    async (files: UploadedFile[], notRead: SkippedUpload[]) => {
+      setSkippedOnRead((prev) => [...prev.filter((entry) => !notRead.some((other) => other.path === entry.path)), ...notRead]);
+      // Initial files are hashed only once something is added next to them
+      const existing = await Promise.all(filesRef.current.map((file) => (file.hash ? file : toUploadedFile(file))));
+      const merged = mergeUploads(existing, files);
+      setDuplicates(merged.duplicates);
+      update(merged.files, filters);
+    },
+    [filters, update]
+  );
 
   const onDrop = useCallback(
-    (acceptedFiles: File[]) => {
-      setUploadProgress(0);
-
-      const fileEntries = acceptedFiles.map(file => ({
-        file,
-        path: file.webkitRelativePath || file.name,
-        size: file.size,
-      }));
-
-      setUploadedFiles(prev => [...prev, ...fileEntries]);
-      onFilesSelected(acceptedFiles);
-
-      // Simulated upload progress
-      let progress = 0;
-      const interval = setInterval(() => {
-        progress += 10;
-        setUploadProgress(progress);
-        if (progress >= 100) clearInterval(interval);
-      }, 200);
+    async (acceptedFiles: FileWithPath[]) => {
+      const { files, skipped: notRead } = await readUploads(acceptedFiles, filters, setReadProgress);
+      setReadProgress(null);
+      await addFiles(files, notRead);
     },
-    [onFilesSelected]
+    [filters, addFiles]
   );
 
-  const removeFile = (index: number) => {
-    const updatedFiles = uploadedFiles.filter((_, i) => i !== index);
-    setUploadedFiles(updatedFiles);
-    onFilesSelected(updatedFiles.map(entry => entry.file));
+  const loadFromRepository = async () => {
+    setRepository((prev) => ({ ...prev, loading: true, error: null }));
+    try {
+      const { files, skipped: notRead } = await fromRepository(await loadRepository(repository.path.trim(), repository.ref.trim()), filters);
+      await addFiles(files, notRead);
+      setRepository((prev) => ({ ...prev, loading: false }));
+    } catch (error) {
+      setRepository((prev) => ({ ...prev, loading: false, error: (error as Error).message }));
+    }
   };
 
+  const removeFile = (path: string) => update(uploadedFiles.filter((file) => file.path !== path), filters);
+
   const clearAllFiles = () => {
-    setUploadedFiles([]);
-    setUploadProgress(null);
-    onFilesSelected([]);
+    setSkippedOnRead([]);
+    setDuplicates(0);
+    update([], filters);
+  };
+
+  const changeFilters = (changes: Partial<UploadFilters>) => {
+    const next = { ...filters, ...changes };
+    if (next.include === filters.include && next.exclude === filters.exclude && next.useGitignore === filters.useGitignore) return;
+    setFilters(next);
+    saveFilters(next);
+    update(uploadedFiles, next);
   };
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
@@ -76,87 +144,192 @@ export function FileUploader({ onFilesSelected }: FileUploaderProps) {
     multiple: true,
     noClick: false,
     noKeyboard: false,
-    directory: uploadMode === "folder",
   });
 
-  // Handle drag-and-drop sorting
-  const handleDragEnd = (event: any) => {
-    const { active, over } = event;
-    if (!active || !over) return;
-
-    const oldIndex = uploadedFiles.findIndex(file => file.path === active.id);
-    const newIndex = uploadedFiles.findIndex(file => file.path === over.id);
-    
-    if (oldIndex !== newIndex) {
-      setUploadedFiles(prevFiles => arrayMove(prevFiles, oldIndex, newIndex));
-    }
+  // Reordering the shown files moves them within the full set, hidden files included
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    if (!over || active.id === over.id) return;
+    const oldIndex = uploadedFiles.findIndex((file) => file.path === active.id);
+    const newIndex = uploadedFiles.findIndex((file) => file.path === over.id);
+    if (oldIndex === -1 || newIndex === -1) return;
+    update(arrayMove(uploadedFiles, oldIndex, newIndex), filters);
   };
 
+  const filterInputClassName =
+    "w-full px-3 py-1.5 text-sm bg-gray-900 light:bg-white text-white light:text-gray-800 rounded-md border border-gray-700 light:border-gray-300 focus:border-blue-500";
+
   return (
     <div className="space-y-6">
       {/* Upload Section Title */}
       <div className="flex items-center justify-between">
         <h2 className="text-2xl font-bold text-gray-200 dark:text-gray-200 light:text-gray-800">Upload Your Code</h2>
         <div className="flex gap-4">
-          {["file", "folder"].map(mode => (
+          {(Object.keys(MODE_LABELS) as UploadMode[]).map(mode => (
             <button
               key={mode}
               className={`px-4 py-2 rounded-lg transition-all ${
-                uploadMode === mode 
+                uploadMode === mode
                   ? "bg-blue-500/20 text-blue-400 border border-blue-500/30"
                   : "bg-[#1a1a1a] text-gray-400 border border-gray-800 hover:border-gray-700"
               }`}
-              onClick={() => setUploadMode(mode as "file" | "folder")}
+              onClick={() => setUploadMode(mode)}
             >
-              {mode === "file" ? "Upload Files" : "Upload Folder"}
+              {MODE_LABELS[mode]}
             </button>
           ))}
         </div>
       </div>
 
-      {/* Dropzone */}
-      <div
-        {...getRootProps()}
-        className={`p-12 border-2 border-dashed rounded-xl cursor-pointer transition-all duration-200 flex flex-col items-center justify-center
-          ${isDragActive 
-            ? "border-blue-500/50 bg-blue-500/5" 
-            : "border-gray-600 dark:border-gray-600 light:border-gray-300 hover:border-gray-500 dark:hover:border-gray-500 light:hover:border-gray-400 hover:bg-gray-800/30 dark:hover:bg-gray-800/30 light:hover:bg-gray-100/80"}
-        `}
-      >
-        <input {...getInputProps()} webkitdirectory={uploadMode === "folder" ? "true" : undefined} />
-        <div className="flex flex-col items-center text-center">
-          {uploadMode === "folder" ? (
-            <FolderOpen className="w-16 h-16 mb-4 text-blue-400" />
-          ) : (
-            <Upload className="w-16 h-16 mb-4 text-blue-400" />
-          )}
-          <p className="text-xl font-medium text-gray-300 dark:text-gray-300 light:text-gray-600">
-            {isDragActive ? "Drop your files here" : `Drag & drop your ${uploadMode} here`}
-          </p>
-          <p className="text-sm text-gray-500 dark:text-gray-500 light:text-gray-400 mt-2">or click to browse</p>
+      {uploadMode === "repository" ? (
+        /* Local repository, read by the server */
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            loadFromRepository();
+          }}
+          className="p-6 rounded-xl border-2 border-dashed border-gray-600 dark:border-gray-600 light:border-gray-300 space-y-3"
+        >
+          <div className="flex items-center gap-3 text-gray-300 light:text-gray-600">
+            <GitBranch className="w-8 h-8 text-blue-400" />
+            <p className="text-sm">
+              A git repository on the analysis server's machine, bare or with a working tree. Without a commit or
+              branch the working tree is read as it is, uncommitted changes included.
+            </p>
+          </div>
+          <div className="flex gap-3">
+            <input
+              value={repository.path}
+              onChange={(e) => setRepository((prev) => ({ ...prev, path: e.target.value }))}
+              placeholder="/home/me/projects/app"
+              className={`${filterInputClassName} flex-[3]`}
+            />
+            <input
+              value={repository.ref}
+              onChange={(e) => setRepository((prev) => ({ ...prev, ref: e.target.value }))}
+              placeholder="Commit or branch (optional)"
+              className={`${filterInputClassName} flex-[2]`}
+            />
+            <button
+              type="submit"
+              disabled={!repository.path.trim() || repository.loading}
+              className="flex items-center gap-2 px-4 py-1.5 text-sm text-white bg-blue-700 hover:bg-blue-600 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {repository.loading && <Loader2 className="w-4 h-4 animate-spin" />}
+              Load
+            </button>
+          </div>
+          {repository.error && <p className="text-sm text-red-400">{repository.error}</p>}
+        </form>
+      ) : (
+        /* Dropzone */
+        <div
+          {...getRootProps()}
+          className={`p-12 border-2 border-dashed rounded-xl cursor-pointer transition-all duration-200 flex flex-col items-center justify-center
+            ${isDragActive
+              ? "border-blue-500/50 bg-blue-500/5"
+              : "border-gray-600 dark:border-gray-600 light:border-gray-300 hover:border-gray-500 dark:hover:border-gray-500 light:hover:border-gray-400 hover:bg-gray-800/30 dark:hover:bg-gray-800/30 light:hover:bg-gray-100/80"}
+          `}
+        >
+          {/* webkitdirectory is not in React's input attributes, so it is passed as a plain attribute */}
+          <input {...getInputProps()} {...(uploadMode === "folder" ? { webkitdirectory: "" } : {})} />
+          <div className="flex flex-col items-center text-center">
+            {uploadMode === "folder" ? (
+              <FolderOpen className="w-16 h-16 mb-4 text-blue-400" />
+            ) : (
+              <Upload className="w-16 h-16 mb-4 text-blue-400" />
+            )}
+            <p className="text-xl font-medium text-gray-300 dark:text-gray-300 light:text-gray-600">
+              {isDragActive ? "Drop your files here" : `Drag & drop your ${uploadMode} here`}
+            </p>
+            <p className="text-sm text-gray-500 dark:text-gray-500 light:text-gray-400 mt-2">
+              or click to browse · .zip and .tar.gz archives are unpacked
+            </p>
+          </div>
         </div>
+      )}
+
+      {/* Filters */}
+      <div className="bg-[#1a1a1a] dark:bg-[#1a1a1a] light:bg-white rounded-xl p-4 border border-gray-800 dark:border-gray-800 light:border-gray-200 space-y-3">
+        <h3 className="text-sm font-medium text-gray-300 light:text-gray-700 flex items-center gap-2">
+          <Filter className="w-4 h-4 text-blue-400" /> Filters
+        </h3>
+        <div className="grid grid-cols-2 gap-3">
+          {(["include", "exclude"] as const).map((field) => (
+            <label key={field} className="text-xs text-gray-400 light:text-gray-500 space-y-1">
+              <span>{field === "include" ? "Include (empty for all)" : "Exclude"}</span>
+              <input
+                value={filterDrafts[field]}
+                onChange={(e) => setFilterDrafts((prev) => ({ ...prev, [field]: e.target.value }))}
+                onBlur={() => changeFilters({ [field]: filterDrafts[field] })}
+                onKeyDown={(e) => e.key === "Enter" && changeFilters({ [field]: filterDrafts[field] })}
+                placeholder={field === "include" ? "src/**, *.py" : "node_modules, *.min.js"}
+                className={filterInputClassName}
+              />
+            </label>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-xs text-gray-400 light:text-gray-500">
+          <input
+            type="checkbox"
+            checked={filters.useGitignore}
+            onChange={(e) => changeFilters({ useGitignore: e.target.checked })}
+          />
+          Skip files listed in uploaded .gitignore files
+        </label>
       </div>
 
-      {/* Upload Progress */}
-      {uploadProgress !== null && (
+      {/* Read Progress */}
+      {readProgress && (
         <div className="bg-[#1a1a1a] dark:bg-[#1a1a1a] light:bg-gray-100 rounded-lg p-4 border border-gray-800 dark:border-gray-800 light:border-gray-200">
           <div className="w-full bg-gray-700 rounded-full h-2 mb-2 overflow-hidden">
-            <div 
-              className="bg-blue-500 h-full transition-all duration-300" 
-              style={{ width: `${uploadProgress}%` }} 
+            <div
+              className="bg-blue-500 h-full transition-all duration-300"
+              style={{ width: `${readProgress.totalBytes ? (readProgress.bytes / readProgress.totalBytes) * 100 : 100}%` }}
             />
           </div>
-          <p className="text-sm text-gray-400 dark:text-gray-400 light:text-gray-500">{uploadProgress}% uploaded</p>
+          <p className="text-sm text-gray-400 dark:text-gray-400 light:text-gray-500">
+            Reading {readProgress.files} of {readProgress.totalFiles} files ({formatBytes(readProgress.bytes)} of{" "}
+            {formatBytes(readProgress.totalBytes)})
+          </p>
+        </div>
+      )}
+
+      {/* Skipped Files */}
+      {(skipped.length > 0 || duplicates > 0) && (
+        <div className="text-sm text-gray-400 light:text-gray-500 space-y-2">
+          <div className="flex items-center gap-3">
+            {skipped.length > 0 && (
+              <button onClick={() => setShowSkipped((prev) => !prev)} className="flex items-center gap-2 hover:text-gray-300 light:hover:text-gray-700">
+                <EyeOff className="w-4 h-4" />
+                {skipped.length} file{skipped.length === 1 ? "" : "s"} skipped {showSkipped ? "(hide)" : "(show)"}
+              </button>
+            )}
+            {duplicates > 0 && (
+              <span>
+                {duplicates} unchanged file{duplicates === 1 ? " was" : "s were"} already uploaded
+              </span>
+            )}
+          </div>
+          {showSkipped && (
+            <ul className="max-h-[160px] overflow-y-auto pr-2 scrollbar-dark text-xs space-y-1">
+              {skipped.map((entry) => (
+                <li key={entry.path} className="flex justify-between gap-4">
+                  <span className="truncate" title={entry.path}>{entry.path}</span>
+                  <span className="shrink-0 text-gray-500">{SKIP_REASONS[entry.reason]}</span>
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
       )}
 
       {/* Uploaded Files Preview */}
-      {uploadedFiles.length > 0 && (
+      {filtered.files.length > 0 && (
         <div className="bg-[#1a1a1a] dark:bg-[#1a1a1a] light:bg-white rounded-xl p-6 border border-gray-800 dark:border-gray-800 light:border-gray-200">
           <div className="flex justify-between items-center mb-4">
-            <h3 className="text-lg font-medium text-gray-200 dark:text-gray-200 light:text-gray-800">Uploaded Files ({uploadedFiles.length})</h3>
-            <button 
-              className="flex items-center gap-2 px-3 py-1.5 text-sm text-red-400 dark:text-red-400 light:text-red-500 hover:text-red-300 dark:hover:text-red-300 light:hover:text-red-600 transition-colors" 
+            <h3 className="text-lg font-medium text-gray-200 dark:text-gray-200 light:text-gray-800">Uploaded Files ({filtered.files.length})</h3>
+            <button
+              className="flex items-center gap-2 px-3 py-1.5 text-sm text-red-400 dark:text-red-400 light:text-red-500 hover:text-red-300 dark:hover:text-red-300 light:hover:text-red-600 transition-colors"
               onClick={clearAllFiles}
             >
               <Trash2 className="w-4 h-4" /> Clear All
@@ -164,10 +337,10 @@ export function FileUploader({ onFilesSelected }: FileUploaderProps) {
           </div>
 
           <DndContext collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
-            <SortableContext items={uploadedFiles.map(file => file.path)} strategy={verticalListSortingStrategy}>
+            <SortableContext items={filtered.files.map(file => file.path)} strategy={verticalListSortingStrategy}>
               <div className="space-y-2 max-h-[300px] overflow-y-auto pr-2 scrollbar-dark">
-                {uploadedFiles.map((file, index) => (
-                  <SortableFileItem key={file.path} file={file} index={index} removeFile={removeFile} />
+                {filtered.files.map(file => (
+                  <SortableFileItem key={file.path} file={file} removeFile={removeFile} />
                 ))}
               </div>
             </SortableContext>
@@ -179,7 +352,7 @@ export function FileUploader({ onFilesSelected }: FileUploaderProps) {
 }
 
 // Sortable file item component
-function SortableFileItem({ file, index, removeFile }: { file: UploadedFile; index: number; removeFile: (index: number) => void }) {
+function SortableFileItem({ file, removeFile }: { file: UploadedFile; removeFile: (path: string) => void }) {
   const { attributes, listeners, setNodeRef, transform, transition } = useSortable({ id: file.path });
 
   return (
@@ -191,11 +364,11 @@ function SortableFileItem({ file, index, removeFile }: { file: UploadedFile; ind
       <div className="flex items-center gap-2">
         <GripVertical {...listeners} {...attributes} className="w-4 h-4 text-gray-500 cursor-grab" />
         <FileCode className="w-5 h-5 text-gray-400" />
-        <span className="text-sm text-gray-600 dark:text-gray-600 light:text-gray-500 truncate max-w-xs" title={file.path}>{file.path} ({(file.size / 1024).toFixed(1)} KB)</span>
+        <span className="text-sm text-gray-600 dark:text-gray-600 light:text-gray-500 truncate max-w-xs" title={file.path}>{file.path} ({formatBytes(file.size)})</span>
       </div>
-      <button onClick={() => removeFile(index)}>
+      <button onClick={() => removeFile(file.path)}>
         <XCircle className="w-5 h-5 text-red-500 hover:text-red-700" />
       </button>
     </div>
   );
-}
\ No newline at end of file
+}
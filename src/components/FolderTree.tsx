@@ -0,0 +1,69 @@
+import { useState } from "react";
+import { ChevronDown, ChevronRight, Folder, FolderOpen } from "lucide-react";
+import type { Severity } from "../types";
+import type { FolderNode } from "../utils/results";
+
+interface FolderTreeProps {
+  root: FolderNode;
+  // Path of the selected folder; "" for all files
+  selected: string;
+  onSelect: (path: string) => void;
+}
+
+const SEVERITY_DOTS: Record<Severity, string> = {
+  critical: "bg-red-500",
+  high: "bg-orange-400",
+  medium: "bg-amber-400",
+  low: "bg-blue-400",
+  info: "bg-gray-400",
+};
+
+const scoreColor = (score: number) => (score >= 90 ? "text-emerald-400" : score >= 70 ? "text-amber-400" : "text-red-400");
+
+// Folders of the results with their aggregate scores; selecting one limits the results to it
+export function FolderTree({ root, selected, onSelect }: FolderTreeProps) {
+  const [collapsed, setCollapsed] = useState<Record<string, boolean>>({});
+
+  const renderNode = (node: FolderNode, depth: number) => {
+    const isCollapsed = collapsed[node.path];
+    const isSelected = node.path === selected;
+    const Icon = isSelected ? FolderOpen : Folder;
+    return (
+      <li key={node.path}>
+        <div
+          className={`flex items-center gap-2 pr-2 py-1 rounded-md cursor-pointer text-sm transition-colors duration-200 ${
+            isSelected ? "bg-blue-500/20 text-blue-400" : "text-gray-300 light:text-gray-700 hover:bg-[#242424] light:hover:bg-gray-100"
+          }`}
+          style={{ paddingLeft: `${depth * 16 + 4}px` }}
+          onClick={() => onSelect(node.path)}
+        >
+          {node.children.length > 0 ? (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                setCollapsed((prev) => ({ ...prev, [node.path]: !prev[node.path] }));
+              }}
+              className="text-gray-500 hover:text-gray-300"
+            >
+              {isCollapsed ? <ChevronRight className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+            </button>
+          ) : (
+            <span className="w-3" />
+          )}
+          <Icon className="w-4 h-4 shrink-0 text-blue-400" />
+          <span className="truncate" title={node.path || node.name}>{node.name}</span>
+          {node.worstSeverity && (
+            <span className={`w-2 h-2 shrink-0 rounded-full ${SEVERITY_DOTS[node.worstSeverity]}`} title={`Most severe finding: ${node.worstSeverity}`} />
+          )}
+          <span className="ml-auto shrink-0 text-xs text-gray-500">{node.fileCount} files</span>
+          <span className={`w-8 shrink-0 text-right text-xs font-semibold ${scoreColor(node.averageScore)}`} title="Average score">
+            {node.averageScore}
+          </span>
+        </div>
+        {!isCollapsed && node.children.length > 0 && <ul>{node.children.map((child) => renderNode(child, depth + 1))}</ul>}
+      </li>
+    );
+  };
+
+  return <ul className="max-h-[240px] overflow-y-auto pr-1 scrollbar-dark">{renderNode(root, 0)}</ul>;
+}
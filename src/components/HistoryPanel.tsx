@@ -0,0 +1,170 @@
+import { useEffect, useMemo, useState } from "react";
+import { FolderOpen, GitCompare, History, Loader2, Trash2, X } from "lucide-react";
+import type { AnalysisRun } from "../types";
+import { clearResultCache, deleteRun, listRuns } from "../utils/history";
+import { averageScore, getProjectName, getScoreTrend, type ScorePoint } from "../utils/compare";
+
+interface HistoryPanelProps {
+  onOpenRun: (run: AnalysisRun) => void;
+  // Called with the older run first
+  onCompareRuns: (base: AnalysisRun, head: AnalysisRun) => void;
+  onClose: () => void;
+}
+
+// Aggregate project score over time as a small inline chart
+function ScoreTrend({ points }: { points: ScorePoint[] }) {
+  if (points.length < 2) return null;
+  const width = 120;
+  const height = 28;
+  const step = width / (points.length - 1);
+  const path = points.map((point, index) => `${index ? "L" : "M"}${index * step},${height - (point.score / 100) * height}`).join(" ");
+
+  return (
+    <svg width={width} height={height} className="overflow-visible" aria-label="Score trend">
+      <path d={path} fill="none" strokeWidth={1.5} className="stroke-blue-400" />
+      {points.map((point, index) => (
+        <circle key={point.runId} cx={index * step} cy={height - (point.score / 100) * height} r={2} className="fill-blue-400">
+          <title>
+            {new Date(point.createdAt).toLocaleString()}: {point.score}
+          </title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
+
+export function HistoryPanel({ onOpenRun, onCompareRuns, onClose }: HistoryPanelProps) {
+  const [runs, setRuns] = useState<AnalysisRun[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [cacheCleared, setCacheCleared] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+
+  useEffect(() => {
+    listRuns()
+      .then(setRuns)
+      .catch((error) => setError(error?.message || "History is unavailable in this browser"));
+  }, []);
+
+  // Runs grouped by project, most recently analyzed project first
+  const projects = useMemo(() => {
+    const groups = new Map<string, AnalysisRun[]>();
+    (runs ?? []).forEach((run) => {
+      const name = getProjectName(run.results);
+      groups.set(name, [...(groups.get(name) ?? []), run]);
+    });
+    return [...groups.entries()];
+  }, [runs]);
+
+  const selectedRuns = (runs ?? []).filter((run) => selected.includes(run.id));
+  const canCompare =
+    selectedRuns.length === 2 && getProjectName(selectedRuns[0].results) === getProjectName(selectedRuns[1].results);
+
+  const toggleSelected = (id: string) =>
+    setSelected((prev) => (prev.includes(id) ? prev.filter((other) => other !== id) : [...prev, id].slice(-2)));
+
+  const compareSelected = () => {
+    const [older, newer] = [...selectedRuns].sort((a, b) => a.createdAt - b.createdAt);
+    onCompareRuns(older, newer);
+  };
+
+  const removeRun = async (id: string) => {
+    await deleteRun(id);
+    setRuns((prev) => prev?.filter((run) => run.id !== id) ?? null);
+    setSelected((prev) => prev.filter((other) => other !== id));
+  };
+
+  const clearCache = async () => {
+    await clearResultCache();
+    setCacheCleared(true);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 p-6" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[80vh] flex flex-col bg-[#121212] light:bg-white rounded-lg border border-gray-800 light:border-gray-200 shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-800 light:border-gray-200">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-200 light:text-gray-800">
+            <History className="w-5 h-5 text-blue-400" /> History
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-200 light:hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-5 scrollbar-dark">
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          {!runs && !error && <Loader2 className="w-5 h-5 mx-auto text-blue-400 animate-spin" />}
+          {runs?.length === 0 && <p className="text-sm text-gray-400 text-center py-6">No past runs yet.</p>}
+          {projects.map(([name, projectRuns]) => (
+            <div key={name} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-semibold text-gray-300 light:text-gray-700">{name}</h3>
+                <ScoreTrend points={getScoreTrend(projectRuns)} />
+              </div>
+              {projectRuns.map((run) => (
+                <div
+                  key={run.id}
+                  className="flex items-center justify-between gap-4 p-3 bg-[#1a1a1a] light:bg-gray-50 rounded-lg border border-gray-800 light:border-gray-200"
+                >
+                  <label className="flex items-center gap-3 min-w-0 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(run.id)}
+                      onChange={() => toggleSelected(run.id)}
+                      className="accent-blue-500"
+                      title="Select two runs to compare"
+                    />
+                    <div className="min-w-0">
+                      <p className="text-sm text-gray-200 light:text-gray-800">{new Date(run.createdAt).toLocaleString()}</p>
+                      <p className="text-xs text-gray-500 truncate" title={run.results.map((result) => result.path).join("\n")}>
+                        {run.results.length} file{run.results.length === 1 ? "" : "s"} · average score {averageScore(run.results)} · {run.model}
+                        {run.profile ? ` · ${run.profile}` : ""}
+                      </p>
+                    </div>
+                  </label>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <button
+                      onClick={() => onOpenRun(run)}
+                      className="flex items-center gap-1 px-2 py-1 text-xs bg-[#242424] light:bg-gray-100 text-gray-300 light:text-gray-600 rounded-md hover:bg-[#2a2a2a] light:hover:bg-gray-200 transition-colors duration-200"
+                    >
+                      <FolderOpen className="w-3 h-3" /> Open
+                    </button>
+                    <button
+                      onClick={() => removeRun(run.id)}
+                      className="flex items-center gap-1 px-2 py-1 text-xs text-red-400 bg-red-400/10 border border-red-400/20 rounded-md hover:bg-red-400/20 transition-colors duration-200"
+                    >
+                      <Trash2 className="w-3 h-3" /> Delete
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between gap-4 p-4 border-t border-gray-800 light:border-gray-200 text-xs text-gray-500">
+          <button
+            onClick={compareSelected}
+            disabled={!canCompare}
+            title={canCompare ? undefined : "Select two runs of the same project"}
+            className="flex items-center gap-1 px-2 py-1 text-blue-400 bg-blue-500/10 border border-blue-500/30 rounded-md hover:bg-blue-500/20 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+          >
+            <GitCompare className="w-3 h-3" /> Compare selected
+          </button>
+          <div className="flex items-center gap-3">
+            <span>Unchanged files are answered from the result cache.</span>
+            <button
+              onClick={clearCache}
+              disabled={cacheCleared}
+              className="px-2 py-1 text-gray-300 light:text-gray-600 bg-[#242424] light:bg-gray-100 rounded-md hover:bg-[#2a2a2a] light:hover:bg-gray-200 disabled:opacity-50 transition-colors duration-200"
+            >
+              {cacheCleared ? "Cache cleared" : "Clear cache"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { RotateCcw, SlidersHorizontal, X } from "lucide-react";
+import type { FindingCategory, ReviewProfile } from "../types";
+import { CATEGORY_LABELS } from "../utils/findings";
+import { ALL_CATEGORIES } from "../utils/profiles";
+
+interface ProfileEditorProps {
+  profile: ReviewProfile;
+  // Whether the profile differs from the built-in one it started as
+  isEdited: boolean;
+  onSave: (profile: ReviewProfile) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+const inputClassName =
+  "w-full px-3 py-2 bg-gray-900 light:bg-white text-white light:text-gray-800 rounded-md border border-gray-700 light:border-gray-300 focus:border-blue-500";
+
+export function ProfileEditor({ profile, isEdited, onSave, onReset, onClose }: ProfileEditorProps) {
+  const [draft, setDraft] = useState(profile);
+  const update = (changes: Partial<ReviewProfile>) => setDraft((prev) => ({ ...prev, ...changes }));
+
+  const toggleCategory = (category: FindingCategory) =>
+    update({
+      categories: draft.categories.includes(category)
+        ? draft.categories.filter((other) => other !== category)
+        : ALL_CATEGORIES.filter((other) => other === category || draft.categories.includes(other)),
+    });
+
+  const setWeight = (category: FindingCategory, value: number) =>
+    update({ weights: { ...draft.weights, [category]: Math.max(value || 0, 0) } });
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 p-6" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[85vh] flex flex-col bg-[#121212] light:bg-white rounded-lg border border-gray-800 light:border-gray-200 shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-800 light:border-gray-200">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-200 light:text-gray-800">
+            <SlidersHorizontal className="w-5 h-5 text-blue-400" /> {profile.name}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-200 light:hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-5 text-sm scrollbar-dark">
+          <p className="text-gray-400 light:text-gray-600">{profile.description}</p>
+
+          <label className="block space-y-1">
+            <span className="text-gray-300 light:text-gray-700">Reviewer instructions</span>
+            <textarea
+              value={draft.systemPrompt}
+              onChange={(e) => update({ systemPrompt: e.target.value })}
+              rows={10}
+              className={`${inputClassName} font-mono text-xs`}
+            />
+            <span className="text-xs text-gray-500">The response format and any project rules are added after these.</span>
+          </label>
+
+          <label className="block space-y-1">
+            <span className="text-gray-300 light:text-gray-700">File heading</span>
+            <input value={draft.userPrompt} onChange={(e) => update({ userPrompt: e.target.value })} className={`${inputClassName} font-mono text-xs`} />
+            <span className="text-xs text-gray-500">{"{{extension}} and {{path}} are replaced with the file's extension and path."}</span>
+          </label>
+
+          <div className="space-y-2">
+            <span className="text-gray-300 light:text-gray-700">Reported categories</span>
+            <div className="grid grid-cols-3 gap-2">
+              {ALL_CATEGORIES.map((category) => (
+                <label key={category} className="flex items-center gap-2 text-gray-300 light:text-gray-700 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={draft.categories.includes(category)}
+                    onChange={() => toggleCategory(category)}
+                    className="accent-blue-500"
+                  />
+                  {CATEGORY_LABELS[category]}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-gray-300 light:text-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={draft.weights !== null}
+                onChange={(e) => update({ weights: e.target.checked ? {} : null })}
+                className="accent-blue-500"
+              />
+              Score from findings
+            </label>
+            <p className="text-xs text-gray-500">
+              {draft.weights
+                ? "Each finding lowers the score by its severity penalty times the weight of its category."
+                : "The model's own score is kept."}
+            </p>
+            {draft.weights && (
+              <div className="grid grid-cols-3 gap-2">
+                {draft.categories.map((category) => (
+                  <label key={category} className="flex items-center justify-between gap-2 text-gray-300 light:text-gray-700">
+                    {CATEGORY_LABELS[category]}
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      value={draft.weights?.[category] ?? 1}
+                      onChange={(e) => setWeight(category, Number(e.target.value))}
+                      className="w-16 px-2 py-1 bg-gray-900 light:bg-white text-white light:text-gray-800 rounded-md border border-gray-700 light:border-gray-300 focus:border-blue-500"
+                    />
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-4 p-4 border-t border-gray-800 light:border-gray-200">
+          <button
+            onClick={onReset}
+            disabled={!isEdited}
+            className="flex items-center gap-1 px-2 py-1 text-xs text-gray-300 light:text-gray-600 bg-[#242424] light:bg-gray-100 rounded-md hover:bg-[#2a2a2a] light:hover:bg-gray-200 disabled:opacity-50 transition-colors duration-200"
+          >
+            <RotateCcw className="w-3 h-3" /> Reset to built-in
+          </button>
+          <div className="flex items-center gap-2">
+            <button onClick={onClose} className="px-3 py-1.5 text-sm text-gray-400 hover:text-gray-200 light:hover:text-gray-700">
+              Cancel
+            </button>
+            <button
+              onClick={() => onSave(draft)}
+              disabled={!draft.categories.length || !draft.systemPrompt.trim()}
+              title={draft.categories.length ? undefined : "Enable at least one category"}
+              className="px-3 py-1.5 text-sm text-white bg-blue-700 hover:bg-blue-600 rounded-md disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+            >
+              Save profile
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
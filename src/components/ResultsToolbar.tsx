@@ -0,0 +1,113 @@
+import { ChevronsDownUp, ChevronsUpDown, Search, X } from "lucide-react";
+import type { FindingCategory } from "../types";
+import { CATEGORY_LABELS, SEVERITY_ORDER } from "../utils/findings";
+import { NO_FILTERS, SORT_LABELS, hasActiveFilters, type ResultFilters, type ResultSort } from "../utils/results";
+
+interface ResultsToolbarProps {
+  filters: ResultFilters;
+  onFiltersChange: (filters: ResultFilters) => void;
+  sort: ResultSort;
+  onSortChange: (sort: ResultSort) => void;
+  // Categories that occur in the results; only these can be filtered on
+  categories: FindingCategory[];
+  shown: number;
+  total: number;
+  onExpandAll: () => void;
+  onCollapseAll: () => void;
+}
+
+const toggle = <T,>(list: T[], value: T) => (list.includes(value) ? list.filter((item) => item !== value) : [...list, value]);
+
+const chipClassName = (active: boolean) =>
+  `px-2 py-0.5 rounded-full text-xs border transition-colors duration-200 ${
+    active
+      ? "bg-blue-500/20 text-blue-400 border-blue-500/30"
+      : "text-gray-400 light:text-gray-600 border-gray-700 light:border-gray-300 hover:border-gray-500"
+  }`;
+
+const buttonClassName =
+  "flex items-center gap-1 px-2 py-1 text-xs bg-[#242424] dark:bg-[#242424] light:bg-gray-100 text-gray-300 dark:text-gray-300 light:text-gray-600 rounded-md hover:bg-[#2a2a2a] dark:hover:bg-[#2a2a2a] light:hover:bg-gray-200 transition-colors duration-200";
+
+// Search, sorting, category and severity filters and bulk expand/collapse for the results
+export function ResultsToolbar({
+  filters,
+  onFiltersChange,
+  sort,
+  onSortChange,
+  categories,
+  shown,
+  total,
+  onExpandAll,
+  onCollapseAll,
+}: ResultsToolbarProps) {
+  const update = (changes: Partial<ResultFilters>) => onFiltersChange({ ...filters, ...changes });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-500" />
+          <input
+            value={filters.query}
+            onChange={(e) => update({ query: e.target.value })}
+            placeholder="Search paths, summaries and findings"
+            className="w-full pl-8 pr-3 py-1.5 text-sm bg-gray-900 light:bg-white text-white light:text-gray-800 rounded-md border border-gray-700 light:border-gray-300 focus:border-blue-500"
+          />
+        </div>
+        <select
+          value={sort}
+          onChange={(e) => onSortChange(e.target.value as ResultSort)}
+          title="Sort results"
+          className="px-2 py-1.5 text-sm bg-gray-900 light:bg-white text-white light:text-gray-800 rounded-md border border-gray-700 light:border-gray-300 focus:border-blue-500"
+        >
+          {(Object.keys(SORT_LABELS) as ResultSort[]).map((option) => (
+            <option key={option} value={option}>
+              {SORT_LABELS[option]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1.5">
+        {SEVERITY_ORDER.map((severity) => (
+          <button
+            key={severity}
+            onClick={() => update({ severities: toggle(filters.severities, severity) })}
+            className={`${chipClassName(filters.severities.includes(severity))} capitalize`}
+          >
+            {severity}
+          </button>
+        ))}
+        <span className="mx-1 h-4 border-l border-gray-700 light:border-gray-300" />
+        {categories.map((category) => (
+          <button
+            key={category}
+            onClick={() => update({ categories: toggle(filters.categories, category) })}
+            className={chipClassName(filters.categories.includes(category))}
+          >
+            {CATEGORY_LABELS[category]}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between text-xs text-gray-400 light:text-gray-500">
+        <span className="flex items-center gap-2">
+          {shown === total ? `${total} file${total === 1 ? "" : "s"}` : `${shown} of ${total} files`}
+          {hasActiveFilters(filters) && (
+            <button onClick={() => onFiltersChange(NO_FILTERS)} className="flex items-center gap-1 text-blue-400 hover:text-blue-300">
+              <X className="w-3 h-3" /> Clear filters
+            </button>
+          )}
+        </span>
+        <span className="flex items-center gap-2">
+          <button onClick={onExpandAll} className={buttonClassName}>
+            <ChevronsUpDown className="w-3 h-3" /> Expand all
+          </button>
+          <button onClick={onCollapseAll} className={buttonClassName}>
+            <ChevronsDownUp className="w-3 h-3" /> Collapse all
+          </button>
+        </span>
+      </div>
+    </div>
+  );
+}
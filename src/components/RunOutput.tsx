@@ -0,0 +1,55 @@
+import { Clock, Loader2 } from "lucide-react";
+import type { RunResult, RunStatus } from "../types";
+
+interface RunOutputProps {
+  result: RunResult | null;
+  isRunning: boolean;
+  error: string | null;
+}
+
+const STATUS_LABELS: Record<RunStatus, { label: string; className: string }> = {
+  success: { label: "Success", className: "text-emerald-400 bg-emerald-400/10 border-emerald-400/20" },
+  runtime_error: { label: "Runtime error", className: "text-red-400 bg-red-400/10 border-red-400/20" },
+  timeout: { label: "Time limit exceeded", className: "text-amber-400 bg-amber-400/10 border-amber-400/20" },
+  output_limit: { label: "Output limit exceeded", className: "text-amber-400 bg-amber-400/10 border-amber-400/20" },
+  error: { label: "Failed to start", className: "text-red-400 bg-red-400/10 border-red-400/20" },
+};
+
+export function RunOutput({ result, isRunning, error }: RunOutputProps) {
+  if (isRunning) {
+    return (
+      <div className="flex items-center gap-2 p-4 bg-black rounded-md text-gray-400 text-sm">
+        <Loader2 className="w-4 h-4 animate-spin" /> Running...
+      </div>
+    );
+  }
+
+  if (error) {
+    return <pre className="p-4 bg-black text-red-400 rounded-md text-sm whitespace-pre-wrap">{error}</pre>;
+  }
+
+  if (!result) return null;
+
+  const status = STATUS_LABELS[result.status];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <span className={`px-2 py-0.5 rounded border ${status.className}`}>{status.label}</span>
+        <span className="text-gray-400">exit code {result.exitCode ?? result.signal ?? "n/a"}</span>
+        <span className="flex items-center gap-1 text-gray-400">
+          <Clock className="w-3 h-3" /> {result.timeMs} ms
+        </span>
+        {result.outputTruncated && <span className="text-amber-400">output truncated</span>}
+      </div>
+      <pre className="bg-black text-white p-4 rounded-md max-h-[200px] overflow-y-auto whitespace-pre-wrap scrollbar-dark">
+        {result.stdout || <span className="text-gray-500">No output</span>}
+      </pre>
+      {result.stderr && (
+        <pre className="bg-black text-red-400 p-4 rounded-md max-h-[150px] overflow-y-auto whitespace-pre-wrap scrollbar-dark">
+          {result.stderr}
+        </pre>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { CheckCircle, Copy, Download, FileCode, FlaskConical, Loader2, MinusCircle, XCircle, type LucideIcon } from "lucide-react";
+import { Prism as SyntaxHighlighter } from "react-syntax-highlighter";
+import { vscDarkPlus } from "react-syntax-highlighter/dist/esm/styles/prism";
+import type { GeneratedTests, GeneratedTestsState, TestCaseResult, TestRun, TestStatus } from "../types";
+import { downloadBlob } from "../utils/exports";
+
+const STATUS_STYLES: Record<TestStatus, { icon: LucideIcon; className: string }> = {
+  passed: { icon: CheckCircle, className: "text-emerald-400" },
+  failed: { icon: XCircle, className: "text-red-400" },
+  skipped: { icon: MinusCircle, className: "text-gray-500" },
+};
+
+const buttonClassName =
+  "flex items-center gap-1 px-2 py-1 text-xs bg-[#242424] dark:bg-[#242424] light:bg-gray-100 text-gray-300 dark:text-gray-300 light:text-gray-600 rounded-md hover:bg-[#2a2a2a] dark:hover:bg-[#2a2a2a] light:hover:bg-gray-200 transition-colors duration-200";
+
+const countPassed = (run: TestRun) => `${run.tests.filter((test) => test.status === "passed").length}/${run.tests.length} passed`;
+
+function StatusCell({ result, run }: { result?: TestCaseResult; run: TestRun | null }) {
+  if (!run) return <span className="text-gray-600">–</span>;
+  // A run without results never got to this test
+  if (!result) return <XCircle className="w-4 h-4 text-red-400" aria-label="did not run" />;
+  const { icon: Icon, className } = STATUS_STYLES[result.status];
+  return <Icon className={`w-4 h-4 ${className}`} aria-label={result.status} />;
+}
+
+// Per-test results against the original and the corrected code, with the test file itself
+function GeneratedTestsView({ tests }: { tests: GeneratedTests }) {
+  const [showCode, setShowCode] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const { original, corrected } = tests;
+  const byName = (run: TestRun | null) => new Map(run?.tests.map((test) => [test.name, test]));
+  const originalResults = byName(original);
+  const correctedResults = byName(corrected);
+  const names = [...new Set([...originalResults.keys(), ...correctedResults.keys()])];
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(tests.code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2 text-xs text-gray-400">
+        <span>
+          {tests.framework} · Original: {countPassed(original)}
+          {corrected && ` · Corrected: ${countPassed(corrected)}`}
+        </span>
+        <div className="flex items-center gap-2">
+          <button onClick={() => setShowCode((prev) => !prev)} className={buttonClassName}>
+            <FileCode className="w-3 h-3" />
+            {showCode ? "Hide tests" : "Show tests"}
+          </button>
+          <button onClick={copy} className={buttonClassName}>
+            <Copy className="w-3 h-3" />
+            {copied ? "Copied!" : "Copy"}
+          </button>
+          <button
+            onClick={() => downloadBlob(new Blob([tests.code], { type: "text/plain" }), tests.path.split("/").pop() || tests.path)}
+            className={buttonClassName}
+            title={tests.path}
+          >
+            <Download className="w-3 h-3" />
+            Save
+          </button>
+        </div>
+      </div>
+
+      {(
+        [
+          ["original", original],
+          ["corrected", corrected],
+        ] as const
+      ).map(([label, run]) =>
+        run?.error ? (
+          <div key={label} className="p-3 text-xs text-red-400 bg-red-400/10 border border-red-400/20 rounded-lg space-y-1">
+            <p className="font-semibold">The tests could not run against the {label} code:</p>
+            <pre className="whitespace-pre-wrap font-mono text-red-300 light:text-red-600">{run.error}</pre>
+          </div>
+        ) : null
+      )}
+
+      {names.length > 0 && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-gray-500 text-left">
+              <th className="font-normal pb-1">Test</th>
+              <th className="font-normal pb-1 w-20 text-center">Original</th>
+              <th className="font-normal pb-1 w-20 text-center">Corrected</th>
+            </tr>
+          </thead>
+          <tbody>
+            {names.map((name) => {
+              const before = originalResults.get(name);
+              const after = correctedResults.get(name);
+              const messages = [
+                before?.message && before.status === "failed" ? `Original: ${before.message}` : "",
+                after?.message && after.status === "failed" ? `Corrected: ${after.message}` : "",
+              ].filter(Boolean);
+              return (
+                <tr key={name} className="align-top border-t border-gray-800 light:border-gray-200">
+                  <td className="py-1.5 pr-2 text-gray-300 light:text-gray-700">
+                    <span className="font-mono text-xs break-all">{name}</span>
+                    {messages.map((message) => (
+                      <pre key={message} className="mt-1 text-[11px] whitespace-pre-wrap break-words text-gray-500">
+                        {message}
+                      </pre>
+                    ))}
+                  </td>
+                  <td className="py-1.5">
+                    <div className="flex justify-center">
+                      <StatusCell result={before} run={original} />
+                    </div>
+                  </td>
+                  <td className="py-1.5">
+                    <div className="flex justify-center">
+                      <StatusCell result={after} run={corrected} />
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      {showCode && (
+        <div className="rounded-lg overflow-hidden border border-gray-800">
+          <SyntaxHighlighter
+            language={tests.path.split(".").pop() || "text"}
+            style={vscDarkPlus}
+            showLineNumbers
+            customStyle={{ margin: 0, padding: "1rem", backgroundColor: "#242424", fontSize: "0.8rem", lineHeight: "1.5" }}
+          >
+            {tests.code}
+          </SyntaxHighlighter>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function TestResults({ state }: { state: GeneratedTestsState }) {
+  return (
+    <div className="bg-[#1a1a1a] dark:bg-[#1a1a1a] light:bg-gray-50 p-4 rounded-lg border border-gray-800 dark:border-gray-800 light:border-gray-200">
+      <h5 className="text-base font-medium text-gray-200 dark:text-gray-200 light:text-gray-800 flex items-center gap-2 mb-3">
+        {state.status === "loading" ? (
+          <Loader2 className="w-5 h-5 text-blue-400 animate-spin" />
+        ) : (
+          <FlaskConical className="w-5 h-5 text-blue-400" />
+        )}
+        Unit tests
+      </h5>
+      {state.status === "loading" && <p className="text-sm text-gray-400">Writing tests and running them in the sandbox...</p>}
+      {state.status === "error" && <p className="text-sm text-red-400">{state.error}</p>}
+      {state.status === "done" && <GeneratedTestsView tests={state.tests} />}
+    </div>
+  );
+}
@@ -1,26 +1,177 @@
-import React, { useState, useCallback } from "react";
+import { useState, useCallback, useMemo } from "react";
 import {
   CheckCircle,
   AlertCircle,
   Code2,
-  Loader2,
   ChevronDown,
   ChevronRight,
   Download,
   Copy,
+  Bug,
+  ShieldAlert,
+  Gauge,
+  Paintbrush,
+  Wrench,
+  BookOpen,
+  FileWarning,
+  FileCode,
+  FileText,
+  FlaskConical,
+  GitCompare,
+  Loader2,
+  MessageSquare,
+  Network,
+  ShieldCheck,
+  ShieldQuestion,
+  ShieldX,
+  XCircle,
+  type LucideIcon,
 } from "lucide-react";
 import { Prism as SyntaxHighlighter } from "react-syntax-highlighter";
 import { vscDarkPlus } from "react-syntax-highlighter/dist/esm/styles/prism";
-import { ValidationResult } from "../types";
+import {
+  ChatState,
+  FileChange,
+  FindingCategory,
+  GeneratedTestsState,
+  ProjectReviewState,
+  Severity,
+  ValidationResult,
+  Verification,
+  VerificationStatus,
+} from "../types";
+import { CATEGORY_LABELS, SOURCE_LABELS, formatLineRange, groupFindingsByCategory } from "../utils/findings";
+import { getMergedCode } from "../utils/diff";
+import { canGenerateTests } from "../utils/api";
+import { countChangedLines } from "../utils/changes";
+import { NO_FILTERS, buildFolderTree, filterResults, sortResults, type ResultFilters, type ResultSort } from "../utils/results";
+import type { SaveFormat } from "../utils/exports";
+import { DiffView } from "./DiffView";
+import { ChangeView } from "./ChangeView";
+import { TestResults } from "./TestResults";
+import { FolderTree } from "./FolderTree";
+import { ResultsToolbar } from "./ResultsToolbar";
+import { FileChat } from "./FileChat";
+
+const SAVE_OPTIONS: { format: SaveFormat; label: string; description: string }[] = [
+  { format: "file", label: "Corrected file", description: "This file with the accepted changes" },
+  { format: "patch", label: "Patch (.patch)", description: "Accepted changes across all files" },
+  { format: "zip", label: "Corrected project (.zip)", description: "Every uploaded file, folders preserved" },
+];
+
+const CATEGORY_ICONS: Record<FindingCategory, LucideIcon> = {
+  syntax: FileWarning,
+  bug: Bug,
+  security: ShieldAlert,
+  performance: Gauge,
+  style: Paintbrush,
+  maintainability: Wrench,
+  "best-practice": BookOpen,
+  architecture: Network,
+  other: AlertCircle,
+};
+
+const SEVERITY_STYLES: Record<Severity, { text: string; badge: string }> = {
+  critical: { text: "text-red-500", badge: "bg-red-500/10 border-red-500/30" },
+  high: { text: "text-orange-400", badge: "bg-orange-400/10 border-orange-400/30" },
+  medium: { text: "text-amber-400", badge: "bg-amber-400/10 border-amber-400/30" },
+  low: { text: "text-blue-400", badge: "bg-blue-400/10 border-blue-400/30" },
+  info: { text: "text-gray-400", badge: "bg-gray-400/10 border-gray-400/30" },
+};
+
+const VERIFICATION_STYLES: Record<VerificationStatus, { label: string; icon: LucideIcon; className: string; title: string }> = {
+  verified: {
+    label: "Verified",
+    icon: ShieldCheck,
+    className: "text-emerald-400 border-emerald-400/30",
+    title: "The correction parses, type-checks and runs",
+  },
+  broken: {
+    label: "Broken",
+    icon: ShieldX,
+    className: "text-red-400 border-red-400/30",
+    title: "The correction introduces errors; review it before using it",
+  },
+  untested: {
+    label: "Untested",
+    icon: ShieldQuestion,
+    className: "text-gray-400 border-gray-700 light:border-gray-300",
+    title: "No checks are available for this language",
+  },
+};
+
+function VerificationBadge({ verification }: { verification: Verification }) {
+  const { label, icon: Icon, className, title } = VERIFICATION_STYLES[verification.status];
+  return (
+    <span
+      className={`flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase border ${className}`}
+      title={verification.checks.map((check) => `${check.name}: ${check.outcome}`).join("\n") || title}
+    >
+      <Icon className="w-3 h-3" />
+      {label}
+    </span>
+  );
+}
+
+// Results of "review a change" only cover the changed lines
+function ChangeBadge({ change }: { change: FileChange }) {
+  const { added, removed } = countChangedLines(change);
+  return (
+    <span
+      className="px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase border text-blue-400 border-blue-400/30"
+      title="Only the changed lines were reviewed"
+    >
+      Change +{added} -{removed}
+    </span>
+  );
+}
 
 interface ValidationResultsProps {
   results: ValidationResult[];
-  onSaveCorrection: (result: ValidationResult) => void;
+  // Cross-file review of the whole upload, shown above the per-file results
+  projectReview?: ProjectReviewState | null;
+  liveOutput?: Record<string, string>;
+  // Accepted/rejected state of each correction hunk, keyed by path
+  hunkDecisions?: Record<string, boolean[]>;
+  onHunkDecisionsChange?: (path: string, accepted: boolean[]) => void;
+  onCancelAnalysis?: (path: string) => void;
+  onSaveCorrection: (result: ValidationResult, format: SaveFormat) => void;
+  // Downloads an HTML report of every result; hidden while there is nothing to export
+  onExportReport?: () => void;
+  // Generated unit tests and their results, keyed by path
+  generatedTests?: Record<string, GeneratedTestsState>;
+  onGenerateTests?: (result: ValidationResult) => void;
+  // Follow-up conversations, keyed by path
+  chats?: Record<string, ChatState>;
+  onSendChat?: (result: ValidationResult, question: string) => void;
+  onStopChat?: (path: string) => void;
+  onApplyChatCode?: (result: ValidationResult, code: string) => void;
 }
 
-export function ValidationResults({ results, onSaveCorrection }: ValidationResultsProps) {
+export function ValidationResults({
+  results,
+  projectReview,
+  liveOutput = {},
+  hunkDecisions = {},
+  onHunkDecisionsChange,
+  onCancelAnalysis,
+  onSaveCorrection,
+  onExportReport,
+  generatedTests = {},
+  onGenerateTests,
+  chats = {},
+  onSendChat,
+  onStopChat,
+  onApplyChatCode,
+}: ValidationResultsProps) {
+  // Keyed by path, since files in different folders can share a name
   const [expandedFiles, setExpandedFiles] = useState<Record<string, boolean>>({});
+  const [filters, setFilters] = useState<ResultFilters>(NO_FILTERS);
+  const [sort, setSort] = useState<ResultSort>("path");
   const [copiedFile, setCopiedFile] = useState<string | null>(null);
+  const [showFullCorrection, setShowFullCorrection] = useState<Record<string, boolean>>({});
+  const [saveMenuPath, setSaveMenuPath] = useState<string | null>(null);
+  const [openChats, setOpenChats] = useState<Record<string, boolean>>({});
 
   // Function to determine score styling
   const getStyles = useCallback((score: number) => {
@@ -30,183 +181,386 @@ export function ValidationResults({ results, onSaveCorrection }: ValidationResul
   }, []);
 
   // Toggle file expansion
-  const toggleExpand = useCallback((fileName: string) => {
-    setExpandedFiles((prev) => ({ ...prev, [fileName]: !prev[fileName] }));
+  const toggleExpand = useCallback((path: string) => {
+    setExpandedFiles((prev) => ({ ...prev, [path]: !prev[path] }));
   }, []);
 
+  const visibleResults = useMemo(() => sortResults(filterResults(results, filters), sort), [results, filters, sort]);
+  const folderTree = useMemo(() => buildFolderTree(results), [results]);
+  const categories = useMemo(
+    () => (Object.keys(CATEGORY_LABELS) as FindingCategory[]).filter((category) => results.some((result) => result.findings.some((finding) => finding.category === category))),
+    [results]
+  );
+
+  const setAllExpanded = (expanded: boolean) =>
+    setExpandedFiles((prev) => ({ ...prev, ...Object.fromEntries(visibleResults.map(({ result }) => [result.path, expanded])) }));
+
   // Copy code to clipboard
-  const handleCopyCode = useCallback(async (code: string, fileName: string) => {
+  const handleCopyCode = useCallback(async (code: string, path: string) => {
     try {
       await navigator.clipboard.writeText(code);
-      setCopiedFile(fileName);
+      setCopiedFile(path);
       setTimeout(() => setCopiedFile(null), 2000);
     } catch {
       setCopiedFile(null);
     }
   }, []);
 
-  // Function to clean and structure analysis results
-  const processAnalysisResult = (result: string) => {
-    // Remove score and think tags
-    const cleanedResult = result
-      .replace(/<SCORE:\d+>/g, "")
-      .replace(/<think>[\s\S]*?<\/think>/g, "")
-      .trim();
-
-    // Split into sections
-    const sections = {
-      analysis: [],
-      suggestions: [],
-      security: [],
-      performance: []
-    };
-
-    const lines = cleanedResult.split('\n');
-    let currentSection = 'analysis';
-
-    lines.forEach(line => {
-      const lowerLine = line.toLowerCase();
-      if (lowerLine.includes('security') || lowerLine.includes('vulnerability')) {
-        currentSection = 'security';
-      } else if (lowerLine.includes('performance') || lowerLine.includes('optimization')) {
-        currentSection = 'performance';
-      } else if (lowerLine.includes('suggestion') || lowerLine.includes('recommendation')) {
-        currentSection = 'suggestions';
-      }
-      
-      if (line.trim()) {
-        sections[currentSection].push(line.trim());
-      }
-    });
-
-    return sections;
-  };
+  const livePaths = Object.keys(liveOutput);
+  // A patch only makes sense while at least one correction hunk is still accepted
+  const hasAcceptedChanges = results.some(
+    (result) => result.hasCorrections && (hunkDecisions[result.path] ?? [true]).includes(true)
+  );
 
   return (
     <div className="space-y-4">
-      {results.length === 0 ? (
+      {/* Project-level review */}
+      {projectReview && (
+        <div className="bg-[#121212] dark:bg-[#121212] light:bg-white rounded-lg border border-gray-800 dark:border-gray-800 light:border-gray-200 overflow-hidden shadow-lg">
+          <div className="flex items-center justify-between p-4 border-b border-gray-800 dark:border-gray-800 light:border-gray-200">
+            <div className="flex items-center gap-3">
+              {projectReview.status === "loading" ? (
+                <Loader2 className="w-5 h-5 text-blue-400 animate-spin" />
+              ) : (
+                <Network className="w-5 h-5 text-blue-400" />
+              )}
+              <h3 className="text-base font-semibold text-gray-200 dark:text-gray-200 light:text-gray-800">Project review</h3>
+            </div>
+            {projectReview.status === "done" && (
+              <div className={`px-3 py-1 rounded-full text-sm font-semibold border ${getStyles(projectReview.review.score).text} ${getStyles(projectReview.review.score).bg} ${getStyles(projectReview.review.score).border}`}>
+                {projectReview.review.score}/100
+              </div>
+            )}
+          </div>
+          <div className="p-4 space-y-3">
+            {projectReview.status === "loading" && <p className="text-sm text-gray-400">Looking for issues that span several files...</p>}
+            {projectReview.status === "error" && <p className="text-sm text-red-400">{projectReview.error}</p>}
+            {projectReview.status === "done" && (
+              <>
+                <p className="text-sm text-gray-300 dark:text-gray-300 light:text-gray-600">{projectReview.review.summary}</p>
+                {projectReview.review.findings.map((finding, index) => {
+                  const Icon = CATEGORY_ICONS[finding.category];
+                  return (
+                    <div key={index} className="flex items-start gap-3 text-sm">
+                      <Icon className={`w-4 h-4 mt-0.5 shrink-0 ${SEVERITY_STYLES[finding.severity].text}`} />
+                      <div className="min-w-0 space-y-1">
+                        <p className="text-gray-300 dark:text-gray-300 light:text-gray-700">
+                          <span className={`mr-2 px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase border ${SEVERITY_STYLES[finding.severity].text} ${SEVERITY_STYLES[finding.severity].badge}`}>
+                            {finding.severity}
+                          </span>
+                          {finding.message}
+                        </p>
+                        {finding.paths.length > 0 && (
+                          <p className="text-xs font-mono text-gray-500 break-all">{finding.paths.join(", ")}</p>
+                        )}
+                        {finding.suggestedFix && <p className="text-xs text-green-400/80 light:text-green-700">Fix: {finding.suggestedFix}</p>}
+                      </div>
+                    </div>
+                  );
+                })}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {results.length > 0 && onExportReport && (
+        <div className="flex justify-end">
+          <button
+            onClick={onExportReport}
+            title="Self-contained HTML with every result, ready to print or save as PDF"
+            className="flex items-center gap-1 px-3 py-1.5 text-xs bg-[#242424] dark:bg-[#242424] light:bg-gray-100 text-gray-300 dark:text-gray-300 light:text-gray-600 rounded-md hover:bg-[#2a2a2a] dark:hover:bg-[#2a2a2a] light:hover:bg-gray-200 transition-colors duration-200"
+          >
+            <FileText className="w-3 h-3" />
+            Export report
+          </button>
+        </div>
+      )}
+
+      {/* Files still being analyzed, with the model output as it arrives */}
+      {livePaths.map((path) => (
+        <div key={path} className="bg-[#121212] dark:bg-[#121212] light:bg-white rounded-lg border border-blue-900 light:border-blue-200 overflow-hidden shadow-lg">
+          <div className="flex items-center justify-between p-4 border-b border-gray-800 dark:border-gray-800 light:border-gray-200">
+            <div className="flex items-center gap-3 min-w-0">
+              <Loader2 className="w-5 h-5 text-blue-400 animate-spin shrink-0" />
+              <h3 className="text-base font-semibold text-gray-200 dark:text-gray-200 light:text-gray-800 truncate" title={path}>{path}</h3>
+            </div>
+            {onCancelAnalysis && (
+              <button
+                onClick={() => onCancelAnalysis(path)}
+                className="flex items-center gap-1 px-2 py-1 text-xs text-red-400 bg-red-400/10 border border-red-400/20 rounded-md hover:bg-red-400/20 transition-colors duration-200"
+              >
+                <XCircle className="w-3 h-3" />
+                Cancel
+              </button>
+            )}
+          </div>
+          <pre className="p-4 max-h-[200px] overflow-y-auto text-xs text-gray-400 whitespace-pre-wrap break-words scrollbar-dark">
+            {liveOutput[path] || "Waiting for the model..."}
+          </pre>
+        </div>
+      ))}
+
+      {results.length === 0 && livePaths.length === 0 ? (
         <div className="text-center text-gray-400 py-8 bg-[#121212] dark:bg-[#121212] light:bg-white rounded-xl p-6 border border-gray-800 dark:border-gray-800 light:border-gray-200">
           <Code2 className="w-12 h-12 mx-auto mb-4 text-gray-500" />
           <p className="text-lg">No validation results available.</p>
           <p className="text-sm text-gray-500">Upload and validate your code to see the analysis.</p>
         </div>
       ) : (
-        results.map((result) => {
-          const score = result.score ?? 0;
-          const { text, bg, border } = getStyles(score);
-          const isExpanded = expandedFiles[result.fileName];
-
-          return (
-            <div key={result.fileName} className="bg-[#121212] dark:bg-[#121212] light:bg-white rounded-lg border border-gray-800 dark:border-gray-800 light:border-gray-200 hover:border-gray-700 dark:hover:border-gray-700 light:hover:border-gray-300 transition-all duration-300 overflow-hidden shadow-lg">
-              {/* File Header */}
-              <div
-                className={`flex items-center justify-between p-4 cursor-pointer hover:bg-[#1a1a1a] dark:hover:bg-[#1a1a1a] light:hover:bg-gray-50 transition-all duration-300 ${isExpanded ? 'border-b border-gray-800 dark:border-gray-800 light:border-gray-200' : ''}`}
-                onClick={() => toggleExpand(result.fileName)}
-              >
-                <div className="flex items-center gap-3">
-                  {isExpanded ? <ChevronDown className="w-5 h-5 text-gray-400" /> : <ChevronRight className="w-5 h-5 text-gray-400" />}
-                  <Code2 className="w-6 h-6 text-gray-300" />
-                  <h3 className="text-lg font-semibold text-gray-200 dark:text-gray-200 light:text-gray-800">{result.fileName}</h3>
-                </div>
-                <div className={`flex items-center gap-2 px-4 py-2 rounded-lg ${bg} ${border}`}>
-                  {score >= 90 ? <CheckCircle className={`w-5 h-5 ${text}`} /> : <AlertCircle className={`w-5 h-5 ${text}`} />}
-                  <span className={`text-lg font-bold ${text}`}>{score}%</span>
+        <>
+          {results.length > 0 && (
+            <div className="bg-[#121212] dark:bg-[#121212] light:bg-white rounded-lg border border-gray-800 dark:border-gray-800 light:border-gray-200 p-4 space-y-3">
+              <ResultsToolbar
+                filters={filters}
+                onFiltersChange={setFilters}
+                sort={sort}
+                onSortChange={setSort}
+                categories={categories}
+                shown={visibleResults.length}
+                total={results.length}
+                onExpandAll={() => setAllExpanded(true)}
+                onCollapseAll={() => setAllExpanded(false)}
+              />
+              {folderTree.children.length > 0 && (
+                <FolderTree root={folderTree} selected={filters.folder} onSelect={(folder) => setFilters((prev) => ({ ...prev, folder }))} />
+              )}
+            </div>
+          )}
+
+          {results.length > 0 && visibleResults.length === 0 && (
+            <p className="text-center text-sm text-gray-400 py-6">No results match the filters.</p>
+          )}
+
+          {visibleResults.map(({ result, findings }) => {
+            const score = result.score ?? 0;
+            const { text, bg, border } = getStyles(score);
+            const isExpanded = expandedFiles[result.path];
+            const folder = result.path.replace(/^\/+/, "").split("/").slice(0, -1).join("/");
+
+            return (
+              <div key={result.path} className="bg-[#121212] dark:bg-[#121212] light:bg-white rounded-lg border border-gray-800 dark:border-gray-800 light:border-gray-200 hover:border-gray-700 dark:hover:border-gray-700 light:hover:border-gray-300 transition-all duration-300 overflow-hidden shadow-lg">
+                {/* File Header */}
+                <div
+                  className={`flex items-center justify-between p-4 cursor-pointer hover:bg-[#1a1a1a] dark:hover:bg-[#1a1a1a] light:hover:bg-gray-50 transition-all duration-300 ${isExpanded ? 'border-b border-gray-800 dark:border-gray-800 light:border-gray-200' : ''}`}
+                  onClick={() => toggleExpand(result.path)}
+                >
+                  <div className="flex items-center gap-3 min-w-0">
+                    {isExpanded ? <ChevronDown className="w-5 h-5 text-gray-400" /> : <ChevronRight className="w-5 h-5 text-gray-400" />}
+                    <Code2 className="w-6 h-6 shrink-0 text-gray-300" />
+                    <div className="min-w-0" title={result.path}>
+                      <h3 className="text-lg font-semibold text-gray-200 dark:text-gray-200 light:text-gray-800 truncate">{result.fileName}</h3>
+                      {folder && <p className="text-xs text-gray-500 truncate">{folder}</p>}
+                    </div>
+                    {result.cached && (
+                      <span className="px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase border text-gray-400 border-gray-700 light:border-gray-300" title="Unchanged since an earlier review">
+                        Cached
+                      </span>
+                    )}
+                    {result.verification && <VerificationBadge verification={result.verification} />}
+                    {result.change && <ChangeBadge change={result.change} />}
+                  </div>
+                  <div className={`flex items-center gap-2 px-4 py-2 rounded-lg ${bg} ${border}`}>
+                    {score >= 90 ? <CheckCircle className={`w-5 h-5 ${text}`} /> : <AlertCircle className={`w-5 h-5 ${text}`} />}
+                    <span className={`text-lg font-bold ${text}`}>{score}%</span>
+                  </div>
                 </div>
-              </div>
 
-              {/* Expandable Content */}
-              {isExpanded && (
-                <div className="p-4 space-y-4">
-                  {/* Analysis Sections */}
-                  {Object.entries(processAnalysisResult(result.result)).map(([section, items]) => {
-                    if (items.length === 0) return null;
-                    
-                    const icons = {
-                      analysis: <AlertCircle className="w-5 h-5 text-blue-400" />,
-                      suggestions: <Code2 className="w-5 h-5 text-green-400" />,
-                      security: <AlertCircle className="w-5 h-5 text-red-400" />,
-                      performance: <AlertCircle className="w-5 h-5 text-amber-400" />
-                    };
-
-                    return (
-                      <div key={section} className="bg-[#1a1a1a] dark:bg-[#1a1a1a] light:bg-gray-50 p-4 rounded-lg border border-gray-800 dark:border-gray-800 light:border-gray-200 hover:border-gray-700 dark:hover:border-gray-700 light:hover:border-gray-300 transition-all duration-300">
-                        <h5 className="text-base font-medium text-gray-200 dark:text-gray-200 light:text-gray-800 flex items-center gap-2 mb-3">
-                          {icons[section]}
-                          {section.charAt(0).toUpperCase() + section.slice(1)}
-                        </h5>
-                        <div className="space-y-2 text-gray-300 text-sm">
-                          {items.map((item, index) => (
-                            <div key={index} className="flex items-start gap-2 hover:bg-[#242424] dark:hover:bg-[#242424] light:hover:bg-gray-100 p-2 rounded-md transition-colors duration-200">
-                              <span className="text-gray-500 mt-1">•</span>
-                              <span className="flex-1">{item}</span>
-                            </div>
-                          ))}
+                {/* Expandable Content */}
+                {isExpanded && (
+                  <div className="p-4 space-y-4">
+                    {/* Summary */}
+                    {(result.result || onGenerateTests || onSendChat) && (
+                      <div className="flex items-start justify-between gap-4">
+                        <p className="text-sm text-gray-300 dark:text-gray-300 light:text-gray-600 whitespace-pre-wrap">{result.result}</p>
+                        <div className="shrink-0 flex items-center gap-2">
+                          {onSendChat && (
+                            <button
+                              onClick={() => setOpenChats((prev) => ({ ...prev, [result.path]: !prev[result.path] }))}
+                              className="flex items-center gap-1 px-2 py-1 text-xs bg-[#242424] dark:bg-[#242424] light:bg-gray-100 text-gray-300 dark:text-gray-300 light:text-gray-600 rounded-md hover:bg-[#2a2a2a] dark:hover:bg-[#2a2a2a] light:hover:bg-gray-200 transition-colors duration-200"
+                            >
+                              <MessageSquare className="w-3 h-3" />
+                              {openChats[result.path] ? "Hide chat" : "Ask"}
+                            </button>
+                          )}
+                          {onGenerateTests && canGenerateTests(result.path) && (
+                            <button
+                              onClick={() => onGenerateTests(result)}
+                              disabled={generatedTests[result.path]?.status === "loading"}
+                              title="Have the model write unit tests and run them against the original and corrected code"
+                              className="flex items-center gap-1 px-2 py-1 text-xs bg-[#242424] dark:bg-[#242424] light:bg-gray-100 text-gray-300 dark:text-gray-300 light:text-gray-600 rounded-md hover:bg-[#2a2a2a] dark:hover:bg-[#2a2a2a] light:hover:bg-gray-200 disabled:opacity-50 transition-colors duration-200"
+                            >
+                              <FlaskConical className="w-3 h-3" />
+                              {generatedTests[result.path] ? "Regenerate tests" : "Generate tests"}
+                            </button>
+                          )}
                         </div>
                       </div>
-                    );
-                  })}
-
-                  {/* Corrected Code Section */}
-                  {result.correctedCode && (
-                    <div className="bg-[#1a1a1a] dark:bg-[#1a1a1a] light:bg-gray-50 p-4 rounded-lg border border-gray-800 dark:border-gray-800 light:border-gray-200 hover:border-gray-700 dark:hover:border-gray-700 light:hover:border-gray-300 transition-all duration-300">
-                      <div className="flex items-center justify-between mb-3">
-                        <h4 className="text-base font-medium text-gray-200 dark:text-gray-200 light:text-gray-800 flex items-center gap-2">
-                          <Code2 className="w-5 h-5 text-green-400" /> Corrected Code
-                        </h4>
-                        <div className="flex items-center gap-2">
-                          <button
-                            onClick={() => handleCopyCode(result.correctedCode!, result.fileName)}
-                            className="flex items-center gap-1 px-2 py-1 text-xs bg-[#242424] dark:bg-[#242424] light:bg-gray-100 text-gray-300 dark:text-gray-300 light:text-gray-600 rounded-md hover:bg-[#2a2a2a] dark:hover:bg-[#2a2a2a] light:hover:bg-gray-200 transition-colors duration-200"
-                          >
-                            <Copy className="w-3 h-3" />
-                            {copiedFile === result.fileName ? "Copied!" : "Copy"}
-                          </button>
-                          <button
-                            onClick={() => onSaveCorrection(result)}
-                            className="flex items-center gap-1 px-2 py-1 text-xs bg-[#242424] dark:bg-[#242424] light:bg-gray-100 text-gray-300 dark:text-gray-300 light:text-gray-600 rounded-md hover:bg-[#2a2a2a] dark:hover:bg-[#2a2a2a] light:hover:bg-gray-200 transition-colors duration-200"
-                          >
-                            <Download className="w-3 h-3" />
-                            Save
-                          </button>
+                    )}
+
+                    {generatedTests[result.path] && <TestResults state={generatedTests[result.path]} />}
+
+                    {result.change && <ChangeView change={result.change} findings={result.findings} />}
+
+                    {findings.length < result.findings.length && (
+                      <p className="text-xs text-gray-500">
+                        Showing {findings.length} of {result.findings.length} findings that match the filters.
+                      </p>
+                    )}
+
+                    {/* Findings grouped by category */}
+                    {groupFindingsByCategory(findings).map(([category, findings]) => {
+                      const Icon = CATEGORY_ICONS[category];
+
+                      return (
+                        <div key={category} className="bg-[#1a1a1a] dark:bg-[#1a1a1a] light:bg-gray-50 p-4 rounded-lg border border-gray-800 dark:border-gray-800 light:border-gray-200 hover:border-gray-700 dark:hover:border-gray-700 light:hover:border-gray-300 transition-all duration-300">
+                          <h5 className="text-base font-medium text-gray-200 dark:text-gray-200 light:text-gray-800 flex items-center gap-2 mb-3">
+                            <Icon className={`w-5 h-5 ${SEVERITY_STYLES[findings[0].severity].text}`} />
+                            {CATEGORY_LABELS[category]}
+                            <span className="text-xs text-gray-500">({findings.length})</span>
+                          </h5>
+                          <div className="space-y-2 text-gray-300 text-sm">
+                            {findings.map((finding, index) => (
+                              <div key={index} className="flex items-start gap-2 hover:bg-[#242424] dark:hover:bg-[#242424] light:hover:bg-gray-100 p-2 rounded-md transition-colors duration-200">
+                                <span className={`mt-0.5 px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase border ${SEVERITY_STYLES[finding.severity].text} ${SEVERITY_STYLES[finding.severity].badge}`}>
+                                  {finding.severity}
+                                </span>
+                                <div className="flex-1 space-y-1">
+                                  <p>
+                                    <span className="text-gray-500 mr-2">{formatLineRange(finding)}</span>
+                                    {finding.message}
+                                    {finding.source && (
+                                      <span
+                                        className="ml-2 px-1.5 py-0.5 rounded text-[10px] text-gray-400 bg-gray-400/10 border border-gray-400/20"
+                                        title="Reported by a static analyzer, not the model"
+                                      >
+                                        {SOURCE_LABELS[finding.source]}
+                                      </span>
+                                    )}
+                                  </p>
+                                  {finding.suggestedFix && (
+                                    <p className="text-xs text-green-400/80 light:text-green-700">Fix: {finding.suggestedFix}</p>
+                                  )}
+                                </div>
+                              </div>
+                            ))}
+                          </div>
                         </div>
-                      </div>
+                      );
+                    })}
+
+                    {/* Corrected Code Section */}
+                    {result.correctedCode && (
+                      <div className="bg-[#1a1a1a] dark:bg-[#1a1a1a] light:bg-gray-50 p-4 rounded-lg border border-gray-800 dark:border-gray-800 light:border-gray-200 hover:border-gray-700 dark:hover:border-gray-700 light:hover:border-gray-300 transition-all duration-300">
+                        <div className="flex items-center justify-between mb-3">
+                          <h4 className="text-base font-medium text-gray-200 dark:text-gray-200 light:text-gray-800 flex items-center gap-2">
+                            <Code2 className="w-5 h-5 text-green-400" /> Corrected Code
+                          </h4>
+                          <div className="flex items-center gap-2">
+                            <button
+                              onClick={() => setShowFullCorrection((prev) => ({ ...prev, [result.path]: !prev[result.path] }))}
+                              className="flex items-center gap-1 px-2 py-1 text-xs bg-[#242424] dark:bg-[#242424] light:bg-gray-100 text-gray-300 dark:text-gray-300 light:text-gray-600 rounded-md hover:bg-[#2a2a2a] dark:hover:bg-[#2a2a2a] light:hover:bg-gray-200 transition-colors duration-200"
+                            >
+                              {showFullCorrection[result.path] ? <GitCompare className="w-3 h-3" /> : <FileCode className="w-3 h-3" />}
+                              {showFullCorrection[result.path] ? "Show diff" : "Full file"}
+                            </button>
+                            <button
+                              onClick={() => handleCopyCode(getMergedCode(result.code, result.correctedCode!, hunkDecisions[result.path]), result.path)}
+                              className="flex items-center gap-1 px-2 py-1 text-xs bg-[#242424] dark:bg-[#242424] light:bg-gray-100 text-gray-300 dark:text-gray-300 light:text-gray-600 rounded-md hover:bg-[#2a2a2a] dark:hover:bg-[#2a2a2a] light:hover:bg-gray-200 transition-colors duration-200"
+                            >
+                              <Copy className="w-3 h-3" />
+                              {copiedFile === result.path ? "Copied!" : "Copy"}
+                            </button>
+                            <div className="relative">
+                              <button
+                                onClick={() => setSaveMenuPath((prev) => (prev === result.path ? null : result.path))}
+                                className="flex items-center gap-1 px-2 py-1 text-xs bg-[#242424] dark:bg-[#242424] light:bg-gray-100 text-gray-300 dark:text-gray-300 light:text-gray-600 rounded-md hover:bg-[#2a2a2a] dark:hover:bg-[#2a2a2a] light:hover:bg-gray-200 transition-colors duration-200"
+                              >
+                                <Download className="w-3 h-3" />
+                                Save
+                                <ChevronDown className="w-3 h-3" />
+                              </button>
+                              {saveMenuPath === result.path && (
+                                <div className="absolute right-0 z-10 mt-1 w-56 py-1 bg-[#1a1a1a] light:bg-white border border-gray-700 light:border-gray-200 rounded-md shadow-lg">
+                                  {SAVE_OPTIONS.map(({ format, label, description }) => (
+                                    <button
+                                      key={format}
+                                      disabled={format === "patch" && !hasAcceptedChanges}
+                                      onClick={() => {
+                                        setSaveMenuPath(null);
+                                        onSaveCorrection(result, format);
+                                      }}
+                                      className="block w-full px-3 py-2 text-left hover:bg-[#242424] light:hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                      <span className="block text-xs text-gray-200 light:text-gray-800">{label}</span>
+                                      <span className="block text-[11px] text-gray-500">{description}</span>
+                                    </button>
+                                  ))}
+                                </div>
+                              )}
+                            </div>
+                          </div>
+                        </div>
+
+                        {result.verification?.status === "broken" && (
+                          <div className="mb-3 p-3 text-xs text-red-400 bg-red-400/10 border border-red-400/20 rounded-lg space-y-2">
+                            <p className="font-semibold">
+                              This correction introduces errors{result.verification.repaired ? ", even after the model was asked to fix them" : ""}:
+                            </p>
+                            {result.verification.checks
+                              .filter((check) => check.outcome === "failed")
+                              .map((check) => (
+                                <pre key={check.name} className="whitespace-pre-wrap font-mono text-red-300 light:text-red-600">
+                                  {check.name}: {check.details}
+                                </pre>
+                              ))}
+                          </div>
+                        )}
 
-                      <div className="rounded-lg overflow-hidden border border-gray-800">
-                        <SyntaxHighlighter
-                          language={result.fileName.split(".").pop() || "text"}
-                          style={vscDarkPlus}
-                          showLineNumbers
-                          customStyle={{
-                            margin: 0,
-                            padding: "1rem",
-                            backgroundColor: "#242424",
-                            fontSize: "0.85rem",
-                            lineHeight: "1.5",
-                          }}
-                        >
-                          {result.correctedCode}
-                        </SyntaxHighlighter>
+                        {!showFullCorrection[result.path] ? (
+                          <DiffView
+                            original={result.code}
+                            corrected={result.correctedCode}
+                            accepted={hunkDecisions[result.path]}
+                            onAcceptedChange={onHunkDecisionsChange && ((accepted) => onHunkDecisionsChange(result.path, accepted))}
+                          />
+                        ) : (
+                          <div className="rounded-lg overflow-hidden border border-gray-800">
+                            <SyntaxHighlighter
+                              language={result.fileName.split(".").pop() || "text"}
+                              style={vscDarkPlus}
+                              showLineNumbers
+                              customStyle={{
+                                margin: 0,
+                                padding: "1rem",
+                                backgroundColor: "#242424",
+                                fontSize: "0.85rem",
+                                lineHeight: "1.5",
+                              }}
+                            >
+                              {getMergedCode(result.code, result.correctedCode, hunkDecisions[result.path])}
+                            </SyntaxHighlighter>
+                          </div>
+                        )}
                       </div>
-                    </div>
-                  )}
-                </div>
-              )}
-            </div>
-          );
-        })
+                    )}
+
+                    {onSendChat && openChats[result.path] && (
+                      <FileChat
+                        chat={chats[result.path]}
+                        language={result.fileName.split(".").pop() || "text"}
+                        onSend={(question) => onSendChat(result, question)}
+                        onStop={() => onStopChat?.(result.path)}
+                        onApplyCode={(code) => onApplyChatCode?.(result, code)}
+                      />
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </>
       )}
     </div>
   );
 }
-
-// Additional Execution Result Component
-const ExecutionResult: React.FC<{ output: string }> = ({ output }) => {
-  return (
-    <div className="p-4 border mt-4 bg-[#1a1a1a] border-gray-700 rounded-lg">
-      <h2 className="text-lg font-bold text-gray-200">Execution Result:</h2>
-      <pre className="bg-gray-100 text-black p-3 rounded">{output}</pre>
-    </div>
-  );
-};
-
-export default ExecutionResult;
\ No newline at end of file
@@ -1,11 +1,209 @@
+export type Severity = "critical" | "high" | "medium" | "low" | "info";
+
+export type FindingCategory =
+  | "syntax"
+  | "bug"
+  | "security"
+  | "performance"
+  | "style"
+  | "maintainability"
+  | "best-practice"
+  | "architecture"
+  | "other";
+
+// Static analyzer a finding came from; findings without one come from the model
+export type FindingSource = "typescript" | "eslint" | "python";
+
+export interface Finding {
+  severity: Severity;
+  category: FindingCategory;
+  startLine: number;
+  endLine: number;
+  message: string;
+  suggestedFix: string;
+  source?: FindingSource;
+}
+
+export type VerificationStatus = "verified" | "broken" | "untested";
+
+// One check of a correction: the parsing analyzers ("typescript", "python") or a
+// sandbox run of the file's "tests" or "entrypoint"
+export interface VerificationCheck {
+  name: string;
+  // Inconclusive when the original code failed the same way
+  outcome: "passed" | "failed" | "inconclusive";
+  details: string;
+}
+
+// Whether correctedCode was shown to parse, type-check and run
+export interface Verification {
+  status: VerificationStatus;
+  checks: VerificationCheck[];
+  // The model was given the errors and asked once more
+  repaired: boolean;
+}
+
 export interface ValidationResult {
   fileName: string;
   path: string;
   code: string;
   result: string;
   score: number;
+  findings: Finding[];
   correctedCode?: string;
   hasCorrections: boolean;
+  // Served from the client or server cache instead of a fresh model call
+  cached?: boolean;
+  // Present whenever the server checked correctedCode
+  verification?: Verification;
+  // Set when only a change to the file was reviewed; findings use new-file line numbers
+  change?: FileChange;
+}
+
+// One hunk of a unified diff; each line keeps its " ", "+" or "-" mark
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[];
+}
+
+export interface FileChange {
+  // False when the diff was all there was: the file content then only holds the
+  // hunks' lines, at their line numbers, with the rest left blank
+  complete: boolean;
+  hunks: DiffHunk[];
+}
+
+export type TestStatus = "passed" | "failed" | "skipped";
+
+export interface TestCaseResult {
+  name: string;
+  status: TestStatus;
+  message: string;
+}
+
+// One sandbox run of the generated tests
+export interface TestRun {
+  status: RunStatus;
+  tests: TestCaseResult[];
+  // Set when the tests could not run at all, e.g. the code under test failed to load
+  error: string;
+}
+
+// Unit tests written for a file and their results before and after the correction
+export interface GeneratedTests {
+  framework: string;
+  // Where the test file belongs in the project
+  path: string;
+  code: string;
+  original: TestRun;
+  // Null when there was no corrected code to test
+  corrected: TestRun | null;
+}
+
+export type GeneratedTestsState =
+  | { status: "loading" }
+  | { status: "done"; tests: GeneratedTests }
+  | { status: "error"; error: string };
+
+export interface ChatMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+// Follow-up conversation about one result
+export interface ChatState {
+  messages: ChatMessage[];
+  // The answer being streamed, or null when no question is pending
+  reply: string | null;
+  error: string | null;
+}
+
+// A cross-file issue from the project-level review
+export interface ProjectFinding {
+  severity: Severity;
+  category: FindingCategory;
+  paths: string[];
+  message: string;
+  suggestedFix: string;
+}
+
+// A project as registered on the server
+export interface RegisteredProject {
+  projectId: string;
+  // Per path, a hash of the related code that file is reviewed with
+  contextKeys: Record<string, string>;
+}
+
+export interface ProjectReview {
+  summary: string;
+  score: number;
+  findings: ProjectFinding[];
+}
+
+export type ProjectReviewState =
+  | { status: "loading" }
+  | { status: "done"; review: ProjectReview }
+  | { status: "error"; error: string };
+
+// Model and prompt the server reviews with; part of every cache key
+export interface ServerInfo {
+  provider: string;
+  model: string;
+  promptVersion: string;
+}
+
+// Named set of reviewer instructions, kept categories and score weights
+export interface ReviewProfile {
+  id: string;
+  name: string;
+  description: string;
+  systemPrompt: string;
+  // Heading above the code; {{extension}} and {{path}} are filled in
+  userPrompt: string;
+  categories: FindingCategory[];
+  // Per-category multipliers for a score computed from the findings, or null to keep the model's score
+  weights: Partial<Record<FindingCategory, number>> | null;
+}
+
+// Project-specific check from .codeamplifier.json. Rules with a `pattern` are
+// matched line by line; the others are instructions for the model.
+export interface CustomRule {
+  id?: string;
+  message: string;
+  pattern?: string;
+  flags?: string;
+  // Glob limiting the files the rule applies to
+  files?: string;
+  severity?: Severity;
+  category?: FindingCategory;
+  suggestedFix?: string;
+}
+
+export interface ProjectConfig {
+  // Path of the .codeamplifier.json it was loaded from
+  path: string;
+  profile?: string;
+  rules: CustomRule[];
+}
+
+// What a review is run with, sent along with every file
+export interface ReviewSettings {
+  profile: ReviewProfile;
+  rules: CustomRule[];
+}
+
+// A finished validation saved to the History view
+export interface AnalysisRun {
+  id: string;
+  createdAt: number;
+  model: string;
+  // Name of the review profile used; missing for runs saved before profiles existed
+  profile?: string;
+  results: ValidationResult[];
+  projectReview: ProjectReview | null;
 }
 
 export interface FileWithContent {
@@ -13,10 +211,97 @@ export interface FileWithContent {
   path: string;
   content: string;
   extension: string;
+  // In "review a change" mode, the change to review instead of the whole file
+  change?: FileChange;
+}
+
+// A file held by the uploader; `hash` is the SHA-256 of its content
+export interface UploadedFile extends FileWithContent {
+  size: number;
+  hash: string;
+}
+
+export type SkipReason = "binary" | "too-large" | "unreadable" | "excluded" | "gitignored";
+
+export interface SkippedUpload {
+  path: string;
+  reason: SkipReason;
+}
+
+export interface UploadFilters {
+  // Comma- or newline-separated globs; an empty include list keeps everything
+  include: string;
+  exclude: string;
+  useGitignore: boolean;
+}
+
+// Files of a local git repository, as read by the server
+export interface RepositoryFiles {
+  root: string;
+  // Commit the files were read from; null for a working tree without commits
+  commit: string | null;
+  files: { path: string; content: string }[];
+  skipped: SkippedUpload[];
+}
+
+// A change between two commits of a local git repository, as read by the server
+export interface RepositoryChange {
+  root: string;
+  base: string;
+  // Null when the change goes up to the working tree
+  head: string | null;
+  diff: string;
+  // New content of the changed files that still exist
+  files: { path: string; content: string }[];
+  skipped: SkippedUpload[];
+}
+
+export interface ReadProgress {
+  files: number;
+  totalFiles: number;
+  bytes: number;
+  totalBytes: number;
+}
+
+export interface QueueProgress {
+  total: number;
+  done: number;
+  failed: number;
+  cancelled: number;
+  running: number;
+  remaining: number;
+  paused: boolean;
+  // Estimated milliseconds until the queue drains, or null before the first job finishes
+  etaMs: number | null;
 }
 
 export interface StreamingState {
   isAnalyzing: boolean;
-  currentFile: string;
-  currentStep: string;
-}
\ No newline at end of file
+  progress: QueueProgress | null;
+  // Model output received so far for each file still being analyzed, keyed by path
+  liveOutput: Record<string, string>;
+}
+
+export type RunLanguage = "javascript" | "typescript" | "python" | "shell";
+
+export type RunStatus = "success" | "runtime_error" | "timeout" | "output_limit" | "error";
+
+export interface RunResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  signal: string | null;
+  timeMs: number;
+  status: RunStatus;
+  outputTruncated: boolean;
+}
+
+export interface EditorTab {
+  id: string;
+  name: string;
+  // Set when the tab was opened from an uploaded file
+  path?: string;
+  extension: string;
+  content: string;
+  language: RunLanguage | "auto";
+}
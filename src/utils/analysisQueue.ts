@@ -0,0 +1,198 @@
+import type { QueueProgress } from "../types";
+import { ApiError } from "./api";
+
+export type JobStatus = "pending" | "running" | "retrying" | "done" | "failed" | "cancelled";
+
+export interface AnalysisQueueOptions {
+  concurrency: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  timeoutMs: number;
+}
+
+export const QUEUE_DEFAULTS: AnalysisQueueOptions = {
+  concurrency: 2,
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  timeoutMs: 180000,
+};
+
+interface Job<T> {
+  key: string;
+  item: T;
+  status: JobStatus;
+  attempts: number;
+}
+
+interface QueueHandlers<T> {
+  getKey: (item: T) => string;
+  run: (item: T, signal: AbortSignal) => Promise<void>;
+  onFailed?: (item: T, error: Error) => void;
+  onProgress?: (progress: QueueProgress) => void;
+}
+
+export interface AnalysisQueue {
+  start: () => Promise<void>;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  cancelItem: (key: string) => void;
+}
+
+// Rate limiting and server-side failures are worth retrying; bad requests are not.
+const isRetryable = (error: unknown) =>
+  error instanceof ApiError && (error.status === 429 || (error.status ?? 0) >= 500);
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      },
+      { once: true }
+    );
+  });
+
+// Runs `run` over every item with at most `concurrency` jobs in flight. Each
+// attempt gets its own AbortSignal that fires on timeout or cancellation;
+// 429/5xx failures are retried with exponential backoff.
+export function createAnalysisQueue<T>(
+  items: T[],
+  { getKey, run, onFailed, onProgress }: QueueHandlers<T>,
+  options: AnalysisQueueOptions = QUEUE_DEFAULTS
+): AnalysisQueue {
+  const jobs: Job<T>[] = items.map((item) => ({ key: getKey(item), item, status: "pending", attempts: 0 }));
+  const controllers = new Map<string, AbortController>();
+  const durations: number[] = [];
+  let resumeWaiters: (() => void)[] = [];
+  let paused = false;
+  let cancelled = false;
+
+  const count = (...statuses: JobStatus[]) => jobs.filter((job) => statuses.includes(job.status)).length;
+
+  const emit = () => {
+    const remaining = count("pending", "running", "retrying");
+    const average = durations.length ? durations.reduce((sum, ms) => sum + ms, 0) / durations.length : null;
+    onProgress?.({
+      total: jobs.length,
+      done: count("done"),
+      failed: count("failed"),
+      cancelled: count("cancelled"),
+      running: count("running", "retrying"),
+      remaining,
+      paused,
+      etaMs: average === null ? null : (average * remaining) / Math.max(1, Math.min(options.concurrency, remaining)),
+    });
+  };
+
+  const runJob = async (job: Job<T>) => {
+    const startedAt = Date.now();
+
+    for (;;) {
+      const controller = new AbortController();
+      controllers.set(job.key, controller);
+      job.status = "running";
+      job.attempts++;
+      emit();
+
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, options.timeoutMs);
+
+      try {
+        await run(job.item, controller.signal);
+        clearTimeout(timer);
+        job.status = "done";
+        durations.push(Date.now() - startedAt);
+        return;
+      } catch (error) {
+        clearTimeout(timer);
+        if (controller.signal.aborted && !timedOut) {
+          job.status = "cancelled";
+          return;
+        }
+
+        if (!timedOut && isRetryable(error) && job.attempts <= options.maxRetries) {
+          job.status = "retrying";
+          emit();
+          try {
+            await sleep(options.baseDelayMs * 2 ** (job.attempts - 1), controller.signal);
+            continue;
+          } catch {
+            job.status = "cancelled";
+            return;
+          }
+        }
+
+        job.status = "failed";
+        onFailed?.(
+          job.item,
+          timedOut
+            ? new Error(`Timed out after ${Math.round(options.timeoutMs / 1000)}s`)
+            : error instanceof Error
+              ? error
+              : new Error(String(error))
+        );
+        return;
+      } finally {
+        controllers.delete(job.key);
+      }
+    }
+  };
+
+  const worker = async () => {
+    for (;;) {
+      while (paused && !cancelled) {
+        await new Promise<void>((resolve) => resumeWaiters.push(resolve));
+      }
+      const job = cancelled ? undefined : jobs.find((candidate) => candidate.status === "pending");
+      if (!job) return;
+      await runJob(job);
+      emit();
+    }
+  };
+
+  const wakeWorkers = () => {
+    resumeWaiters.forEach((resolve) => resolve());
+    resumeWaiters = [];
+  };
+
+  return {
+    start: async () => {
+      emit();
+      await Promise.all(Array.from({ length: Math.max(1, options.concurrency) }, worker));
+      emit();
+    },
+    pause: () => {
+      paused = true;
+      emit();
+    },
+    resume: () => {
+      paused = false;
+      wakeWorkers();
+      emit();
+    },
+    cancel: () => {
+      cancelled = true;
+      jobs.forEach((job) => {
+        if (job.status === "pending") job.status = "cancelled";
+      });
+      controllers.forEach((controller) => controller.abort());
+      wakeWorkers();
+      emit();
+    },
+    cancelItem: (key: string) => {
+      const job = jobs.find((candidate) => candidate.key === key);
+      if (job?.status === "pending") {
+        job.status = "cancelled";
+        emit();
+      }
+      controllers.get(key)?.abort();
+    },
+  };
+}
@@ -0,0 +1,263 @@
+import type {
+  ChatMessage,
+  FileWithContent,
+  Finding,
+  GeneratedTests,
+  ProjectReview,
+  RegisteredProject,
+  RepositoryChange,
+  RepositoryFiles,
+  ReviewProfile,
+  ReviewSettings,
+  RunLanguage,
+  RunResult,
+  ServerInfo,
+  ValidationResult,
+} from "../types";
+
+// import.meta.env only exists in Vite builds; the unit tests load this module in Node
+export const API_URL = import.meta.env?.VITE_API_URL || "http://localhost:3000";
+
+export type AnalysisResponse = Pick<
+  ValidationResult,
+  "result" | "score" | "findings" | "correctedCode" | "hasCorrections" | "cached" | "verification"
+>;
+
+interface AnalysisOptions {
+  signal?: AbortSignal;
+  // Project registered with createProject, so the review sees related files
+  projectId?: string;
+  // Review profile and custom rules; the server default profile when omitted
+  settings?: ReviewSettings;
+}
+
+export interface ChunkProgress {
+  index: number;
+  total: number;
+  startLine: number;
+  endLine: number;
+}
+
+interface StreamCallbacks extends AnalysisOptions {
+  onToken?: (text: string) => void;
+  onRetry?: (attempt: number, errors: string[]) => void;
+  // Called as each part of a file too large for one request starts
+  onChunk?: (chunk: ChunkProgress) => void;
+}
+
+// Error carrying the HTTP status of the failed request (or of the upstream model
+// server, for streamed analyses) so callers can decide whether to retry.
+export class ApiError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+export const toValidationResult = (file: FileWithContent, analysis: AnalysisResponse): ValidationResult => ({
+  fileName: file.name,
+  path: file.path,
+  code: file.content,
+  ...analysis,
+  ...(file.change && { change: file.change }),
+});
+
+// The request body for a review; a file's change is sent next to it
+const reviewBody = ({ change, ...file }: FileWithContent, projectId?: string, settings?: ReviewSettings) =>
+  JSON.stringify({ file, change, projectId, ...settings });
+
+async function readError(response: Response) {
+  const data = await response.json().catch(() => null);
+  return new ApiError(data?.error || `Server error: ${response.status}`, response.status);
+}
+
+export async function getServerInfo(signal?: AbortSignal): Promise<ServerInfo> {
+  const response = await fetch(`${API_URL}/info`, { signal });
+  if (!response.ok) throw await readError(response);
+  return response.json();
+}
+
+// Built-in review profiles, as the starting point for the user's own edits
+export async function getReviewProfiles(signal?: AbortSignal): Promise<ReviewProfile[]> {
+  const response = await fetch(`${API_URL}/profiles`, { signal });
+  if (!response.ok) throw await readError(response);
+  return response.json();
+}
+
+// Reads a local git repository on the server's machine: its working tree as it
+// is on disk, or the files of `ref` (a commit, branch or tag) when given.
+export async function loadRepository(path: string, ref?: string, signal?: AbortSignal): Promise<RepositoryFiles> {
+  const response = await fetch(`${API_URL}/repository`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ path, ref: ref || undefined }),
+    signal,
+  });
+
+  if (!response.ok) throw await readError(response);
+  return response.json();
+}
+
+// Reads the change between two commits of a local git repository on the
+// server's machine, or between `base` and the working tree without `head`.
+export async function loadRepositoryChange(path: string, base: string, head?: string, signal?: AbortSignal): Promise<RepositoryChange> {
+  const response = await fetch(`${API_URL}/repository/change`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ path, base, head: head || undefined }),
+    signal,
+  });
+
+  if (!response.ok) throw await readError(response);
+  return response.json();
+}
+
+// Registers the uploaded files as one project so each review can include code
+// from the files it imports and the files that use it.
+export async function createProject(files: FileWithContent[], signal?: AbortSignal): Promise<RegisteredProject> {
+  const response = await fetch(`${API_URL}/project`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ files }),
+    signal,
+  });
+
+  if (!response.ok) throw await readError(response);
+  const { projectId, contextKeys } = await response.json();
+  return { projectId, contextKeys };
+}
+
+// Asks for a review of cross-file issues, given the per-file results.
+export async function reviewProject(projectId: string, results: ValidationResult[], signal?: AbortSignal): Promise<ProjectReview> {
+  const response = await fetch(`${API_URL}/project/${projectId}/summary`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      results: results.map(({ path, result, score, findings }) => ({ path, summary: result, score, findingCount: findings.length })),
+    }),
+    signal,
+  });
+
+  if (!response.ok) throw await readError(response);
+  return response.json();
+}
+
+// Yields the events of a Server-Sent Events response body as they arrive
+async function* readEvents(body: ReadableStream<Uint8Array>) {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffer += value;
+
+    let boundary;
+    while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      const event = frame.match(/^event: (.*)$/m)?.[1];
+      const data = JSON.parse(frame.match(/^data: (.*)$/m)?.[1] || "{}");
+      yield { event, data };
+    }
+  }
+}
+
+// Sends a single file to the server for review and maps the reply onto a
+// ValidationResult, reporting the model output token by token through the
+// /analyze/stream Server-Sent Events endpoint. Aborting the signal cancels the
+// upstream generation on the server as well.
+export async function streamAnalysis(
+  file: FileWithContent,
+  { signal, projectId, settings, onToken, onRetry, onChunk }: StreamCallbacks = {}
+): Promise<ValidationResult> {
+  const response = await fetch(`${API_URL}/analyze/stream`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+    body: reviewBody(file, projectId, settings),
+    signal,
+  });
+
+  if (!response.ok || !response.body) throw await readError(response);
+
+  for await (const { event, data } of readEvents(response.body)) {
+    if (event === "token") onToken?.(data.text);
+    else if (event === "retry") onRetry?.(data.attempt, data.errors);
+    else if (event === "chunk") onChunk?.(data);
+    else if (event === "error") throw new ApiError(data.error, data.status);
+    else if (event === "result") return toValidationResult(file, data.analysis);
+  }
+
+  throw new Error("Stream ended before the analysis completed");
+}
+
+// Executes a program in the server's sandboxed runner.
+export async function runCode(
+  { language, source, stdin = "" }: { language: RunLanguage; source: string; stdin?: string },
+  signal?: AbortSignal
+): Promise<RunResult> {
+  const response = await fetch(`${API_URL}/run`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ language, source, stdin }),
+    signal,
+  });
+
+  if (!response.ok) throw await readError(response);
+  return response.json();
+}
+
+// Files the server can write and run tests for
+export const canGenerateTests = (path: string) => /\.(py|[cm]?[jt]sx?)$/i.test(path);
+
+// Has the model write unit tests for a file and runs them in the sandbox against
+// the original code and, when it differs, `correctedCode`.
+export async function generateTests(
+  file: FileWithContent,
+  { correctedCode, projectId, signal }: { correctedCode?: string; projectId?: string; signal?: AbortSignal } = {}
+): Promise<GeneratedTests> {
+  const response = await fetch(`${API_URL}/tests`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ file, correctedCode, projectId }),
+    signal,
+  });
+
+  if (!response.ok) throw await readError(response);
+  return response.json();
+}
+
+interface ChatOptions {
+  // The review the conversation is about; the corrected code is the one currently accepted
+  findings?: Finding[];
+  correctedCode?: string;
+  projectId?: string;
+  signal?: AbortSignal;
+  onToken?: (text: string) => void;
+}
+
+// Asks a follow-up question about a reviewed file. `messages` is the whole
+// conversation so far, ending with the question; resolves to the full answer.
+export async function streamChat(
+  file: FileWithContent,
+  messages: ChatMessage[],
+  { findings, correctedCode, projectId, signal, onToken }: ChatOptions = {}
+): Promise<string> {
+  const response = await fetch(`${API_URL}/chat/stream`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+    body: JSON.stringify({ file, messages, findings, correctedCode, projectId }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) throw await readError(response);
+
+  for await (const { event, data } of readEvents(response.body)) {
+    if (event === "token") onToken?.(data.text);
+    else if (event === "error") throw new ApiError(data.error, data.status);
+    else if (event === "result") return data.content;
+  }
+
+  throw new Error("Stream ended before the answer completed");
+}
@@ -0,0 +1,102 @@
+import { Gunzip, unzip } from "fflate";
+import type { SkippedUpload, SkipReason } from "../types";
+
+// Larger archives are not opened, and a .tar.gz may expand to at most this much
+export const MAX_ARCHIVE_BYTES = 100 * 1024 * 1024;
+const MAX_EXPANDED_BYTES = 500 * 1024 * 1024;
+
+export const isArchive = (name: string) => /\.(zip|tar|tar\.gz|tgz)$/i.test(name);
+
+export interface ArchiveEntry {
+  path: string;
+  data: Uint8Array;
+}
+
+// Decides per entry whether to extract it; returns a reason to leave it out
+export type EntryFilter = (path: string, size: number) => SkipReason | null;
+
+function unzipEntries(data: Uint8Array, filter: EntryFilter, skipped: SkippedUpload[]) {
+  return new Promise<ArchiveEntry[]>((resolve, reject) => {
+    unzip(
+      data,
+      {
+        filter: (info) => {
+          if (info.name.endsWith("/")) return false;
+          const reason = filter(info.name, info.originalSize);
+          if (reason) skipped.push({ path: info.name, reason });
+          return !reason;
+        },
+      },
+      (error, files) => (error ? reject(error) : resolve(Object.entries(files).map(([path, content]) => ({ path, data: content }))))
+    );
+  });
+}
+
+function gunzipData(data: Uint8Array) {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const stream = new Gunzip((chunk) => {
+    size += chunk.length;
+    if (size > MAX_EXPANDED_BYTES) throw new Error("The archive expands to more than 500 MB");
+    chunks.push(chunk);
+  });
+  stream.push(data, true);
+  const result = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+const decoder = new TextDecoder();
+const readString = (data: Uint8Array, start: number, length: number) =>
+  decoder.decode(data.subarray(start, start + length)).replace(/\0.*$/s, "");
+const readOctal = (data: Uint8Array, start: number, length: number) => parseInt(readString(data, start, length).trim() || "0", 8);
+
+// Regular files of a (ustar, pax or GNU) tar archive
+function untarEntries(data: Uint8Array, filter: EntryFilter, skipped: SkippedUpload[]) {
+  const entries: ArchiveEntry[] = [];
+  let offset = 0;
+  let longName: string | null = null;
+  while (offset + 512 <= data.length) {
+    const header = data.subarray(offset, offset + 512);
+    // The archive ends with zero blocks
+    if (header.every((byte) => byte === 0)) break;
+    const size = readOctal(header, 124, 12);
+    const type = String.fromCharCode(header[156] || 48);
+    const body = offset + 512;
+    offset = body + Math.ceil(size / 512) * 512;
+
+    if (type === "L") {
+      longName = readString(data, body, size);
+      continue;
+    }
+    if (type === "x") {
+      longName = readString(data, body, size).match(/^\d+ path=(.*)$/m)?.[1] ?? longName;
+      continue;
+    }
+    const prefix = readString(header, 345, 155);
+    const name = longName ?? (prefix ? `${prefix}/${readString(header, 0, 100)}` : readString(header, 0, 100));
+    longName = null;
+    if (type !== "0" && type !== "7") continue;
+
+    const reason = filter(name, size);
+    if (reason) skipped.push({ path: name, reason });
+    else entries.push({ path: name, data: data.subarray(body, body + size) });
+  }
+  return entries;
+}
+
+// Files in a .zip, .tar or .tar.gz, with the entries `filter` rejected listed
+// separately. Paths are as stored in the archive.
+export async function extractArchive(file: File, filter: EntryFilter) {
+  const data = new Uint8Array(await file.arrayBuffer());
+  const skipped: SkippedUpload[] = [];
+  const name = file.name.toLowerCase();
+  const entries = name.endsWith(".zip")
+    ? await unzipEntries(data, filter, skipped)
+    : untarEntries(name.endsWith(".tar") ? data : gunzipData(data), filter, skipped);
+  return { entries, skipped };
+}
@@ -0,0 +1,55 @@
+import { parsePatch } from "diff";
+import type { FileChange, FileWithContent } from "../types";
+
+// git diffs prefix paths with a/ and b/; plain `diff -u` output does not
+function stripPrefixes(oldName: string, newName: string) {
+  const names = [oldName, newName].filter((name) => name !== "/dev/null");
+  const isGit = names.length > 0 && names.every((name) => /^[ab]\//.test(name));
+  return isGit ? newName.slice(2) : newName;
+}
+
+// Without the new file, its content is rebuilt from the hunks: their lines sit
+// at their new line numbers and everything else is left blank
+function contentFromHunks(change: FileChange) {
+  const lines: string[] = [];
+  for (const hunk of change.hunks) {
+    let line = Math.max(hunk.newStart, 1);
+    for (const text of hunk.lines) {
+      if (text[0] === "+" || text[0] === " ") lines[line++ - 1] = text.slice(1);
+    }
+  }
+  return Array.from(lines, (text) => text ?? "").join("\n");
+}
+
+// Files to review from a unified diff, each carrying its change. `contents`
+// holds the new content of files by path, when known; deleted and binary files
+// are left out since there is nothing to review.
+export function parseChange(diff: string, contents: Record<string, string> = {}): FileWithContent[] {
+  return parsePatch(diff)
+    .filter((patch) => patch.newFileName && patch.newFileName !== "/dev/null" && patch.hunks.length > 0)
+    .map((patch) => {
+      const path = stripPrefixes(patch.oldFileName ?? "/dev/null", patch.newFileName!);
+      const name = path.split("/").pop() || path;
+      // "\ No newline at end of file" markers are dropped
+      const hunks = patch.hunks.map(({ oldStart, oldLines, newStart, newLines, lines }) => ({
+        oldStart,
+        oldLines,
+        newStart,
+        newLines,
+        lines: lines.filter((line) => line[0] !== "\\"),
+      }));
+      const change: FileChange = { complete: path in contents, hunks };
+      return {
+        name,
+        path,
+        content: contents[path] ?? contentFromHunks(change),
+        extension: name.includes(".") ? name.split(".").pop() || "" : "",
+        change,
+      };
+    });
+}
+
+export function countChangedLines(change: FileChange) {
+  const lines = change.hunks.flatMap((hunk) => hunk.lines);
+  return { added: lines.filter((line) => line[0] === "+").length, removed: lines.filter((line) => line[0] === "-").length };
+}
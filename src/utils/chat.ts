@@ -0,0 +1,18 @@
+export type AnswerPart = { type: "text"; text: string } | { type: "code"; language: string; code: string };
+
+// Splits a model answer into prose and fenced code blocks. A block still being
+// streamed (no closing fence yet) is returned as code as well.
+export function splitAnswer(content: string): AnswerPart[] {
+  const parts: AnswerPart[] = [];
+  const fence = /```([^\n`]*)\n([\s\S]*?)(?:\n?```|$)/g;
+  let last = 0;
+  for (const match of content.matchAll(fence)) {
+    const text = content.slice(last, match.index).trim();
+    if (text) parts.push({ type: "text", text });
+    parts.push({ type: "code", language: match[1].trim(), code: match[2] });
+    last = match.index + match[0].length;
+  }
+  const rest = content.slice(last).trim();
+  if (rest) parts.push({ type: "text", text: rest });
+  return parts;
+}
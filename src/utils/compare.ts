@@ -0,0 +1,110 @@
+import type { AnalysisRun, Finding, ValidationResult } from "../types";
+import { compareSeverity } from "./findings";
+import { normalizePath } from "./exports";
+
+export type FileChange = "added" | "removed" | "improved" | "regressed" | "unchanged";
+
+export interface FileComparison {
+  path: string;
+  change: FileChange;
+  baseScore: number | null;
+  headScore: number | null;
+  // Findings reported in the base run but no longer in the head run
+  fixed: Finding[];
+  // Findings only reported in the head run
+  introduced: Finding[];
+}
+
+export interface RunComparison {
+  baseScore: number;
+  headScore: number;
+  files: FileComparison[];
+  fixedCount: number;
+  introducedCount: number;
+  // Files whose score went down
+  regressions: number;
+}
+
+export interface ScorePoint {
+  runId: string;
+  createdAt: number;
+  score: number;
+}
+
+export const averageScore = (results: ValidationResult[]) =>
+  results.length ? Math.round(results.reduce((sum, result) => sum + result.score, 0) / results.length) : 0;
+
+// Runs belong to the same project when their files share a top-level folder;
+// loose files are grouped together.
+export function getProjectName(results: ValidationResult[]) {
+  const roots = new Set(
+    results.map((result) => {
+      const parts = normalizePath(result.path).split("/");
+      return parts.length > 1 ? parts[0] : "";
+    })
+  );
+  const [root] = roots;
+  return roots.size === 1 && root ? root : "Loose files";
+}
+
+// Line numbers move as code is edited, so findings are matched on category and
+// message, with numbers in the message ignored.
+const findingKey = (finding: Finding) =>
+  `${finding.category}|${finding.message.toLowerCase().replace(/\d+/g, "#").trim()}`;
+
+// Findings of `from` with no counterpart in `against`, matching each counterpart only once.
+function unmatched(from: Finding[], against: Finding[]) {
+  const available = new Map<string, number>();
+  against.forEach((finding) => available.set(findingKey(finding), (available.get(findingKey(finding)) ?? 0) + 1));
+  return from.filter((finding) => {
+    const count = available.get(findingKey(finding)) ?? 0;
+    if (count === 0) return true;
+    available.set(findingKey(finding), count - 1);
+    return false;
+  });
+}
+
+const bySeverity = (findings: Finding[]) => [...findings].sort((a, b) => compareSeverity(a.severity, b.severity));
+
+export function compareRuns(base: AnalysisRun, head: AnalysisRun): RunComparison {
+  const baseByPath = new Map(base.results.map((result) => [normalizePath(result.path), result]));
+  const headByPath = new Map(head.results.map((result) => [normalizePath(result.path), result]));
+  const paths = [...new Set([...baseByPath.keys(), ...headByPath.keys()])].sort();
+
+  const files = paths.map((path): FileComparison => {
+    const before = baseByPath.get(path);
+    const after = headByPath.get(path);
+    const fixed = before ? bySeverity(unmatched(before.findings, after?.findings ?? [])) : [];
+    const introduced = after ? bySeverity(unmatched(after.findings, before?.findings ?? [])) : [];
+
+    let change: FileChange = "unchanged";
+    if (!before) change = "added";
+    else if (!after) change = "removed";
+    else if (after.score > before.score) change = "improved";
+    else if (after.score < before.score) change = "regressed";
+
+    return {
+      path,
+      change,
+      baseScore: before?.score ?? null,
+      headScore: after?.score ?? null,
+      fixed: after ? fixed : [],
+      introduced,
+    };
+  });
+
+  return {
+    baseScore: averageScore(base.results),
+    headScore: averageScore(head.results),
+    files,
+    fixedCount: files.reduce((sum, file) => sum + file.fixed.length, 0),
+    introducedCount: files.reduce((sum, file) => sum + file.introduced.length, 0),
+    regressions: files.filter((file) => file.change === "regressed").length,
+  };
+}
+
+// Aggregate project score of each run, oldest first
+export const getScoreTrend = (runs: AnalysisRun[]): ScorePoint[] =>
+  [...runs]
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .map((run) => ({ runId: run.id, createdAt: run.createdAt, score: averageScore(run.results) }));
@@ -0,0 +1,139 @@
+import { diffWordsWithSpace, structuredPatch } from "diff";
+import type { DiffHunk } from "../types";
+
+export type { DiffHunk };
+
+export interface DiffSegment {
+  text: string;
+  changed: boolean;
+}
+
+export interface DiffLine {
+  type: "context" | "add" | "remove";
+  oldNumber?: number;
+  newNumber?: number;
+  text: string;
+  // Intra-line highlighting, present when the line pairs with a changed counterpart
+  segments?: DiffSegment[];
+}
+
+export interface SplitRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+const CONTEXT_LINES = 3;
+
+export function computeHunks(original: string, corrected: string, context = CONTEXT_LINES): DiffHunk[] {
+  return structuredPatch("original", "corrected", original, corrected, "", "", { context }).hunks.map((hunk) => ({
+    ...hunk,
+    // "\ No newline at end of file" markers are not content lines
+    lines: hunk.lines.filter((line) => !line.startsWith("\\")),
+  }));
+}
+
+// Splits a changed line pair into word-level segments for each side.
+function intraLine(removed: string, added: string): [DiffSegment[], DiffSegment[]] {
+  const oldSegments: DiffSegment[] = [];
+  const newSegments: DiffSegment[] = [];
+  diffWordsWithSpace(removed, added).forEach((part) => {
+    if (!part.added) oldSegments.push({ text: part.value, changed: !!part.removed });
+    if (!part.removed) newSegments.push({ text: part.value, changed: !!part.added });
+  });
+  return [oldSegments, newSegments];
+}
+
+// Turns a hunk into numbered lines, pairing each run of removals with the
+// additions that follow it so both sides get intra-line highlights.
+export function toDiffLines(hunk: DiffHunk): DiffLine[] {
+  const result: DiffLine[] = [];
+  let oldNumber = hunk.oldStart;
+  let newNumber = hunk.newStart;
+  let index = 0;
+
+  while (index < hunk.lines.length) {
+    const line = hunk.lines[index];
+    if (line[0] === " ") {
+      result.push({ type: "context", oldNumber: oldNumber++, newNumber: newNumber++, text: line.slice(1) });
+      index++;
+      continue;
+    }
+
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (index < hunk.lines.length && hunk.lines[index][0] === "-") {
+      removed.push({ type: "remove", oldNumber: oldNumber++, text: hunk.lines[index++].slice(1) });
+    }
+    while (index < hunk.lines.length && hunk.lines[index][0] === "+") {
+      added.push({ type: "add", newNumber: newNumber++, text: hunk.lines[index++].slice(1) });
+    }
+    for (let pair = 0; pair < Math.min(removed.length, added.length); pair++) {
+      [removed[pair].segments, added[pair].segments] = intraLine(removed[pair].text, added[pair].text);
+    }
+    result.push(...removed, ...added);
+  }
+
+  return result;
+}
+
+// Lines up removals and additions side by side; context lines appear on both sides.
+export function toSplitRows(lines: DiffLine[]): SplitRow[] {
+  const rows: SplitRow[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    if (lines[index].type === "context") {
+      rows.push({ left: lines[index], right: lines[index] });
+      index++;
+      continue;
+    }
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (index < lines.length && lines[index].type === "remove") removed.push(lines[index++]);
+    while (index < lines.length && lines[index].type === "add") added.push(lines[index++]);
+    for (let row = 0; row < Math.max(removed.length, added.length); row++) {
+      rows.push({ left: removed[row], right: added[row] });
+    }
+  }
+
+  return rows;
+}
+
+// Splits text into lines the way the diff does: a trailing newline ends the last line
+// rather than starting an empty one.
+const splitLines = (text: string) => {
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+};
+
+// Rebuilds the file from the original, applying only the accepted hunks.
+// `accepted[i]` defaults to true when missing.
+export function mergeHunks(original: string, corrected: string, hunks: DiffHunk[], accepted: boolean[] = []): string {
+  const originalLines = splitLines(original);
+  const merged: string[] = [];
+  let cursor = 0;
+  let endsWithNewline = original.endsWith("\n");
+
+  hunks.forEach((hunk, index) => {
+    const start = hunk.oldStart - 1;
+    const isAccepted = accepted[index] !== false;
+    merged.push(...originalLines.slice(cursor, start));
+
+    const keep = isAccepted ? ["+", " "] : ["-", " "];
+    hunk.lines.forEach((line) => {
+      if (keep.includes(line[0])) merged.push(line.slice(1));
+    });
+    cursor = start + hunk.oldLines;
+
+    // The hunk touching the end of the file decides whether it ends with a newline
+    if (isAccepted && cursor === originalLines.length) endsWithNewline = corrected.endsWith("\n");
+  });
+
+  merged.push(...originalLines.slice(cursor));
+  return merged.length ? merged.join("\n") + (endsWithNewline ? "\n" : "") : "";
+}
+
+export function getMergedCode(original: string, corrected: string, accepted?: boolean[]): string {
+  return mergeHunks(original, corrected, computeHunks(original, corrected), accepted);
+}
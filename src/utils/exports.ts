@@ -0,0 +1,65 @@
+import { FILE_HEADERS_ONLY, createTwoFilesPatch } from "diff";
+import { strToU8, zipSync, type Zippable } from "fflate";
+import type { FileWithContent, ValidationResult } from "../types";
+import { getMergedCode } from "./diff";
+
+export type SaveFormat = "file" | "patch" | "zip";
+
+// Uploaded paths come as "/root/a.ts" (drag and drop) or "root/a.ts" (folder picker)
+export const normalizePath = (path: string) => path.replace(/^(\.?\/)+/, "");
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoke on the next tick so the download has started
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+const correctedCode = (result: ValidationResult, accepted?: boolean[]) =>
+  result.hasCorrections && result.correctedCode ? getMergedCode(result.code, result.correctedCode, accepted) : result.code;
+
+export function saveCorrectedFile(result: ValidationResult, accepted?: boolean[]) {
+  downloadBlob(new Blob([correctedCode(result, accepted)], { type: "text/plain" }), result.fileName);
+}
+
+// A single git-style unified diff covering every file with accepted changes.
+// Returns an empty string when nothing would change.
+export function buildPatch(results: ValidationResult[], decisions: Record<string, boolean[]> = {}): string {
+  return results
+    .map((result) => {
+      const merged = correctedCode(result, decisions[result.path]);
+      if (merged === result.code) return "";
+      const path = normalizePath(result.path);
+      const diff = createTwoFilesPatch(`a/${path}`, `b/${path}`, result.code, merged, "", "", { headerOptions: FILE_HEADERS_ONLY });
+      return `diff --git a/${path} b/${path}\n${diff}`;
+    })
+    .join("");
+}
+
+export function savePatch(results: ValidationResult[], decisions: Record<string, boolean[]> = {}) {
+  downloadBlob(new Blob([buildPatch(results, decisions)], { type: "text/x-diff" }), "corrections.patch");
+}
+
+// Zips every uploaded file, with accepted corrections applied, under its original
+// folder structure.
+export function buildCorrectedZip(files: FileWithContent[], results: ValidationResult[], decisions: Record<string, boolean[]> = {}): Uint8Array {
+  const byPath = new Map(results.map((result) => [result.path, result]));
+  const tree: Zippable = {};
+  files.forEach((file) => {
+    const result = byPath.get(file.path);
+    const content = result ? correctedCode(result, decisions[file.path]) : file.content;
+    tree[normalizePath(file.path)] = strToU8(content);
+  });
+  return zipSync(tree, { level: 6 });
+}
+
+export function saveCorrectedZip(files: FileWithContent[], results: ValidationResult[], decisions: Record<string, boolean[]> = {}) {
+  // Name the archive after the uploaded folder when there is a single one
+  const roots = new Set(files.map((file) => normalizePath(file.path).split("/")[0]));
+  const name = roots.size === 1 && files.some((file) => normalizePath(file.path).includes("/")) ? [...roots][0] : "corrected";
+  const zip = buildCorrectedZip(files, results, decisions);
+  downloadBlob(new Blob([zip], { type: "application/zip" }), `${name}-corrected.zip`);
+}
@@ -0,0 +1,41 @@
+import type { Finding, FindingCategory, FindingSource, Severity } from "../types";
+
+export const SEVERITY_ORDER: Severity[] = ["critical", "high", "medium", "low", "info"];
+
+export const CATEGORY_LABELS: Record<FindingCategory, string> = {
+  syntax: "Syntax",
+  bug: "Bugs",
+  security: "Security",
+  performance: "Performance",
+  style: "Style",
+  maintainability: "Maintainability",
+  "best-practice": "Best Practices",
+  architecture: "Architecture",
+  other: "Other",
+};
+
+export const SOURCE_LABELS: Record<FindingSource, string> = {
+  typescript: "TypeScript",
+  eslint: "ESLint",
+  python: "Python",
+};
+
+export const compareSeverity = (a: Severity, b: Severity) => SEVERITY_ORDER.indexOf(a) - SEVERITY_ORDER.indexOf(b);
+
+// Groups findings by category, most severe category first and findings ordered by severity then line.
+export function groupFindingsByCategory(findings: Finding[]): [FindingCategory, Finding[]][] {
+  const groups = new Map<FindingCategory, Finding[]>();
+  findings.forEach((finding) => {
+    groups.set(finding.category, [...(groups.get(finding.category) || []), finding]);
+  });
+
+  return [...groups.entries()]
+    .map(([category, items]): [FindingCategory, Finding[]] => [
+      category,
+      [...items].sort((a, b) => compareSeverity(a.severity, b.severity) || a.startLine - b.startLine),
+    ])
+    .sort(([, a], [, b]) => compareSeverity(a[0].severity, b[0].severity));
+}
+
+export const formatLineRange = ({ startLine, endLine }: Finding) =>
+  startLine === endLine ? `Line ${startLine}` : `Lines ${startLine}-${endLine}`;
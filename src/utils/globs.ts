@@ -0,0 +1,68 @@
+// Minimal glob support, as for rule `files` on the server: `**` spans
+// directories, `*` and `?` do not
+function globSource(glob: string) {
+  return glob
+    .split(/(\*\*\/?|\*|\?)/)
+    .map((part) => {
+      if (part === "**/") return "(?:.*/)?";
+      if (part === "**") return ".*";
+      if (part === "*") return "[^/]*";
+      if (part === "?") return "[^/]";
+      return part.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+}
+
+// Upload filters match at any depth, so `src/**/*.ts` also matches inside an uploaded `project/` folder
+export const globToRegExp = (glob: string) => new RegExp(`(^|/)${globSource(glob.replace(/^\/+/, ""))}(/|$)`);
+
+// Comma- or newline-separated patterns, as typed into the upload filters
+export const parseGlobList = (text: string) =>
+  text
+    .split(/[,\n]/)
+    .map((glob) => glob.trim())
+    .filter(Boolean);
+
+export interface IgnoreRule {
+  // Directory of the .gitignore, with a trailing slash ("" at the root)
+  base: string;
+  pattern: RegExp;
+  negate: boolean;
+  directoryOnly: boolean;
+}
+
+// Rules of one .gitignore file at `path`. Supports comments, `!` negation,
+// trailing `/` for directories and patterns anchored by a leading or inner slash.
+export function parseGitignore(path: string, content: string): IgnoreRule[] {
+  const base = path.includes("/") ? path.slice(0, path.lastIndexOf("/") + 1) : "";
+  return content.split(/\r?\n/).flatMap((raw) => {
+    let line = raw.replace(/(?<!\\)\s+$/, "");
+    if (!line || line.startsWith("#")) return [];
+    const negate = line.startsWith("!");
+    if (negate) line = line.slice(1);
+    line = line.replace(/^\\([#!])/, "$1");
+    const directoryOnly = line.endsWith("/");
+    if (directoryOnly) line = line.slice(0, -1);
+    if (!line) return [];
+    const anchored = line.includes("/");
+    const source = globSource(line.replace(/^\//, ""));
+    return [{ base, pattern: new RegExp(anchored ? `^${source}$` : `(^|/)${source}$`), negate, directoryOnly }];
+  });
+}
+
+// Whether `path` is ignored: rules are checked against the file and each of its
+// parent directories, and the last matching rule wins, so deeper .gitignore
+// files (whose rules come later) override their parents
+export function isIgnored(path: string, rules: IgnoreRule[]) {
+  let ignored = false;
+  for (const rule of rules) {
+    if (!path.startsWith(rule.base)) continue;
+    const segments = path.slice(rule.base.length).split("/");
+    const matches = segments.some(
+      (_, index) =>
+        (!rule.directoryOnly || index < segments.length - 1) && rule.pattern.test(segments.slice(0, index + 1).join("/"))
+    );
+    if (matches) ignored = !rule.negate;
+  }
+  return ignored;
+}
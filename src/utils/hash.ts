@@ -0,0 +1,5 @@
+// Hex SHA-256 of a string, used for cache keys and to recognise re-uploaded files
+export async function sha256(text: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
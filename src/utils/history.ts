@@ -0,0 +1,118 @@
+import type { AnalysisRun, FileWithContent, ReviewSettings, ServerInfo, ValidationResult } from "../types";
+import { toValidationResult, type AnalysisResponse } from "./api";
+import { sha256 } from "./hash";
+
+// Results and past runs are kept in IndexedDB so they survive reloads. Every
+// operation here is best effort: a browser without storage (private mode,
+// quota exceeded) just loses the cache, never the analysis itself.
+const DB_NAME = "code-amplifier";
+const DB_VERSION = 1;
+const RESULTS_STORE = "results";
+const RUNS_STORE = "runs";
+const MAX_RUNS = 50;
+
+interface CachedAnalysis {
+  key: string;
+  analysis: AnalysisResponse;
+  storedAt: number;
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+function openDatabase() {
+  database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(RESULTS_STORE, { keyPath: "key" });
+      request.result.createObjectStore(RUNS_STORE, { keyPath: "id" }).createIndex("createdAt", "createdAt");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch((error) => {
+    database = null;
+    throw error;
+  });
+  return database;
+}
+
+async function getStore(name: string, mode: IDBTransactionMode = "readonly") {
+  return (await openDatabase()).transaction(name, mode).objectStore(name);
+}
+
+// Same path, content and change, related code from the project, model, prompt
+// version, profile and rules means the same review. `contextKey` is the
+// server's key for the file's related code, empty outside a project.
+export async function getCacheKey(file: FileWithContent, info: ServerInfo, settings: ReviewSettings, contextKey = "") {
+  const review = (await sha256(JSON.stringify(settings))).slice(0, 16);
+  const change = file.change ? `\0${JSON.stringify(file.change)}` : "";
+  const content = await sha256(`${file.path}\0${file.extension}\0${file.content}${change}`);
+  return `${content}:${contextKey}:${info.provider}:${info.model}:${info.promptVersion}:${review}`;
+}
+
+export async function getCachedResult(
+  file: FileWithContent,
+  info: ServerInfo,
+  settings: ReviewSettings,
+  contextKey?: string
+): Promise<ValidationResult | null> {
+  try {
+    const key = await getCacheKey(file, info, settings, contextKey);
+    const entry = await promisify<CachedAnalysis | undefined>((await getStore(RESULTS_STORE)).get(key));
+    return entry ? toValidationResult(file, { ...entry.analysis, cached: true }) : null;
+  } catch (error) {
+    console.warn("Result cache unavailable:", error);
+    return null;
+  }
+}
+
+export async function cacheResult(
+  file: FileWithContent,
+  info: ServerInfo,
+  settings: ReviewSettings,
+  result: ValidationResult,
+  contextKey?: string
+) {
+  const { result: summary, score, findings, correctedCode, hasCorrections, verification } = result;
+  try {
+    const entry: CachedAnalysis = {
+      key: await getCacheKey(file, info, settings, contextKey),
+      analysis: { result: summary, score, findings, correctedCode, hasCorrections, verification },
+      storedAt: Date.now(),
+    };
+    await promisify((await getStore(RESULTS_STORE, "readwrite")).put(entry));
+  } catch (error) {
+    console.warn("Could not cache result:", error);
+  }
+}
+
+export async function clearResultCache() {
+  await promisify((await getStore(RESULTS_STORE, "readwrite")).clear());
+}
+
+// Newest first
+export async function listRuns(): Promise<AnalysisRun[]> {
+  const runs = await promisify<AnalysisRun[]>((await getStore(RUNS_STORE)).index("createdAt").getAll());
+  return runs.reverse();
+}
+
+// Saves a run and drops the oldest ones beyond MAX_RUNS
+export async function saveRun(run: AnalysisRun) {
+  try {
+    const store = await getStore(RUNS_STORE, "readwrite");
+    await promisify(store.put(run));
+    const keys = await promisify(store.index("createdAt").getAllKeys());
+    await Promise.all(keys.slice(0, Math.max(keys.length - MAX_RUNS, 0)).map((key) => promisify(store.delete(key))));
+  } catch (error) {
+    console.warn("Could not save run to history:", error);
+  }
+}
+
+export async function deleteRun(id: string) {
+  await promisify((await getStore(RUNS_STORE, "readwrite")).delete(id));
+}
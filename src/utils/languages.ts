@@ -0,0 +1,70 @@
+import type { RunLanguage } from "../types";
+
+export interface LanguageInfo {
+  id: RunLanguage;
+  label: string;
+  extensions: string[];
+}
+
+// Languages the execution backend can run, each mapped to a runtime on the server.
+export const RUN_LANGUAGES: LanguageInfo[] = [
+  { id: "python", label: "Python 3", extensions: ["py", "pyw"] },
+  { id: "javascript", label: "JavaScript (Node.js)", extensions: ["js", "mjs", "cjs", "jsx"] },
+  { id: "typescript", label: "TypeScript (Node.js)", extensions: ["ts", "mts", "cts", "tsx"] },
+  { id: "shell", label: "Shell (bash)", extensions: ["sh", "bash"] },
+];
+
+export const getLanguageLabel = (id: RunLanguage) => RUN_LANGUAGES.find((language) => language.id === id)?.label ?? id;
+
+export function languageFromExtension(extension: string | undefined): RunLanguage | null {
+  const normalized = (extension || "").toLowerCase().replace(/^\./, "");
+  return RUN_LANGUAGES.find((language) => language.extensions.includes(normalized))?.id ?? null;
+}
+
+// Weighted hints for guessing the language of a pasted snippet. Each match adds
+// its weight to the language; the highest total wins.
+const CONTENT_HINTS: [RunLanguage, RegExp, number][] = [
+  ["python", /^\s*def \w+\(.*\)\s*(->\s*[\w[\], ]+)?:\s*$/m, 3],
+  ["python", /^\s*(from [\w.]+ )?import [\w., ]+$/m, 1],
+  ["python", /^\s*(elif|except|with) .*:\s*$/m, 2],
+  ["python", /\bprint\(.*\)\s*$/m, 1],
+  ["python", /^\s*if __name__ == ["']__main__["']:/m, 4],
+  ["python", /\b(self|None|True|False)\b/, 1],
+  ["javascript", /\b(const|let|var) \w+\s*=/, 2],
+  ["javascript", /\bconsole\.\w+\(/, 2],
+  ["javascript", /\bfunction\s*\w*\s*\(/, 2],
+  ["javascript", /=>\s*[{(]?/, 1],
+  ["javascript", /\brequire\(["'][\w@/.-]+["']\)/, 2],
+  ["typescript", /\b(interface|type) \w+\s*(=|\{|<)/, 3],
+  ["typescript", /\b(const|let|var) \w+\s*:\s*[\w<>[\]|]+\s*=/, 3],
+  ["typescript", /\(\s*\w+\s*:\s*(string|number|boolean|unknown|any|\w+\[\])/, 3],
+  ["typescript", /\bimport type\b|\bas const\b|\bpublic |\bprivate |\breadonly /, 2],
+  ["shell", /^\s*(echo|export|cd|ls|grep|sed|awk|mkdir|rm) /m, 2],
+  ["shell", /^\s*(fi|done|esac)\s*$/m, 3],
+  ["shell", /\$\{?\w+\}?|\$\(.+\)/, 1],
+  ["shell", /^\s*if \[\[? .+ \]\]?;? then/m, 3],
+];
+
+export function detectLanguage(content: string, extension?: string): RunLanguage {
+  const fromExtension = languageFromExtension(extension);
+  if (fromExtension) return fromExtension;
+
+  const shebang = content.match(/^#!.*\b(python3?|node|bash|sh|zsh|ts-node|deno)\b/);
+  if (shebang) {
+    const interpreter = shebang[1];
+    if (interpreter.startsWith("python")) return "python";
+    if (interpreter === "node") return "javascript";
+    if (interpreter === "ts-node" || interpreter === "deno") return "typescript";
+    return "shell";
+  }
+
+  const scores: Record<RunLanguage, number> = { python: 0, javascript: 0, typescript: 0, shell: 0 };
+  CONTENT_HINTS.forEach(([language, pattern, weight]) => {
+    if (pattern.test(content)) scores[language] += weight;
+  });
+  // TypeScript is a superset of JavaScript, so JavaScript hints count towards it too
+  if (scores.typescript > 0) scores.typescript += scores.javascript;
+
+  const [best, score] = (Object.entries(scores) as [RunLanguage, number][]).sort(([, a], [, b]) => b - a)[0];
+  return score > 0 ? best : "python";
+}
@@ -0,0 +1,86 @@
+import type { CustomRule, FileWithContent, FindingCategory, ProjectConfig, ReviewProfile } from "../types";
+import { CATEGORY_LABELS, SEVERITY_ORDER } from "./findings";
+
+// Per-project settings, picked up from the root of an uploaded folder and not reviewed itself
+export const CONFIG_FILE_NAME = ".codeamplifier.json";
+
+const PROFILE_EDITS_KEY = "reviewProfiles";
+export const SELECTED_PROFILE_KEY = "reviewProfile";
+
+export const ALL_CATEGORIES = Object.keys(CATEGORY_LABELS) as FindingCategory[];
+
+// The user's edits to built-in profiles, keyed by profile id
+function loadProfileEdits(): Record<string, ReviewProfile> {
+  try {
+    return JSON.parse(localStorage.getItem(PROFILE_EDITS_KEY) || "{}");
+  } catch {
+    return {};
+  }
+}
+
+export const isProfileEdited = (id: string) => id in loadProfileEdits();
+
+// Built-in profiles with the user's edits applied
+export const applyProfileEdits = (profiles: ReviewProfile[]) => {
+  const edits = loadProfileEdits();
+  return profiles.map((profile) => edits[profile.id] ?? profile);
+};
+
+export function saveProfileEdit(profile: ReviewProfile) {
+  localStorage.setItem(PROFILE_EDITS_KEY, JSON.stringify({ ...loadProfileEdits(), [profile.id]: profile }));
+}
+
+export function resetProfileEdit(id: string) {
+  const edits = loadProfileEdits();
+  delete edits[id];
+  localStorage.setItem(PROFILE_EDITS_KEY, JSON.stringify(edits));
+}
+
+// The config closest to the root wins when a folder contains several
+export const findConfigFile = (files: FileWithContent[]) =>
+  files
+    .filter((file) => file.name === CONFIG_FILE_NAME)
+    .sort((a, b) => a.path.split("/").length - b.path.split("/").length)[0];
+
+// Parses a .codeamplifier.json, reporting every problem at once so the whole
+// file can be fixed in one go. The server checks rules again before using them.
+export function parseProjectConfig(file: FileWithContent): { config: ProjectConfig | null; errors: string[] } {
+  let value: { profile?: unknown; rules?: unknown };
+  try {
+    value = JSON.parse(file.content);
+  } catch (error) {
+    return { config: null, errors: [`${file.path} is not valid JSON: ${(error as Error).message}`] };
+  }
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return { config: null, errors: [`${file.path} must contain a JSON object`] };
+  }
+
+  const errors: string[] = [];
+  if (value.profile !== undefined && typeof value.profile !== "string") errors.push('"profile" must be a profile id');
+  if (value.rules !== undefined && !Array.isArray(value.rules)) errors.push('"rules" must be an array');
+
+  const rules = (Array.isArray(value.rules) ? value.rules : []) as CustomRule[];
+  rules.forEach((rule, index) => {
+    if (!rule || typeof rule !== "object") {
+      errors.push(`rules[${index}] must be an object`);
+      return;
+    }
+    if (typeof rule.message !== "string" || !rule.message.trim()) errors.push(`rules[${index}].message is required`);
+    if (rule.severity !== undefined && !SEVERITY_ORDER.includes(rule.severity)) {
+      errors.push(`rules[${index}].severity must be one of ${SEVERITY_ORDER.join(", ")}`);
+    }
+    if (rule.category !== undefined && !(rule.category in CATEGORY_LABELS)) {
+      errors.push(`rules[${index}].category must be one of ${Object.keys(CATEGORY_LABELS).join(", ")}`);
+    }
+    if (rule.pattern !== undefined) {
+      try {
+        new RegExp(String(rule.pattern), rule.flags?.replace(/[gy]/g, ""));
+      } catch (error) {
+        errors.push(`rules[${index}].pattern: ${(error as Error).message}`);
+      }
+    }
+  });
+
+  if (errors.length) return { config: null, errors: errors.map((error) => `${file.path}: ${error}`) };
+  return { config: { path: file.path, profile: value.profile as string | undefined, rules }, errors };
+}
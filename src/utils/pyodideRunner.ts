@@ -0,0 +1,85 @@
+import type { RunResult } from "../types";
+import type { PyodideRunRequest, PyodideWorkerMessage } from "../workers/pyodide.worker";
+
+interface BrowserRunOptions {
+  stdin?: string;
+  packages?: string[];
+  timeoutMs?: number;
+}
+
+// Loading Pyodide the first time downloads ~10 MB, so it gets a separate, generous limit.
+const LOAD_TIMEOUT_MS = 60000;
+const MAX_OUTPUT_BYTES = 64 * 1024;
+const WHEELS_URL = `${import.meta.env.BASE_URL}wheels/`;
+
+let worker: Worker | null = null;
+let queue: Promise<unknown> = Promise.resolve();
+
+const getWorker = () =>
+  (worker ??= new Worker(new URL("../workers/pyodide.worker.ts", import.meta.url), { type: "module" }));
+
+// The only way to stop a runaway Python program is to throw the whole worker
+// away; the next run starts a fresh one.
+const resetWorker = () => {
+  worker?.terminate();
+  worker = null;
+};
+
+function execute(source: string, { stdin = "", packages = [], timeoutMs = 10000 }: BrowserRunOptions): Promise<RunResult> {
+  return new Promise((resolve) => {
+    const target = getWorker();
+    const failed = (status: RunResult["status"], stderr: string): RunResult => ({
+      stdout: "",
+      stderr,
+      exitCode: null,
+      signal: null,
+      timeMs: 0,
+      status,
+      outputTruncated: false,
+    });
+
+    let timer = setTimeout(() => {
+      resetWorker();
+      resolve(failed("error", "Timed out while loading Pyodide"));
+    }, LOAD_TIMEOUT_MS);
+
+    target.onmessage = (event: MessageEvent<PyodideWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === "started") {
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+          resetWorker();
+          resolve({ ...failed("timeout", `Time limit of ${timeoutMs / 1000}s exceeded`), timeMs: timeoutMs });
+        }, timeoutMs);
+        return;
+      }
+
+      clearTimeout(timer);
+      resolve({
+        stdout: message.stdout,
+        stderr: message.stderr,
+        exitCode: message.exitCode,
+        signal: null,
+        timeMs: message.timeMs,
+        status: message.outputTruncated ? "output_limit" : message.exitCode === 0 ? "success" : "runtime_error",
+        outputTruncated: message.outputTruncated,
+      });
+    };
+
+    target.onerror = (event) => {
+      clearTimeout(timer);
+      resetWorker();
+      resolve(failed("error", event.message || "Pyodide worker crashed"));
+    };
+
+    target.postMessage({ source, stdin, packages, wheelsUrl: WHEELS_URL, maxOutputBytes: MAX_OUTPUT_BYTES } satisfies PyodideRunRequest);
+  });
+}
+
+// Runs Python entirely client-side in a Pyodide Web Worker. Runs are serialized
+// because they share one interpreter.
+export function runPythonInBrowser(source: string, options: BrowserRunOptions = {}): Promise<RunResult> {
+  const run = queue.then(() => execute(source, options));
+  queue = run.catch(() => undefined);
+  return run;
+}
@@ -0,0 +1,251 @@
+import type { AnalysisRun, DiffHunk, Finding, ProjectReview, Severity, ValidationResult } from "../types";
+import { computeHunks, getMergedCode, toDiffLines, type DiffLine } from "./diff";
+import { downloadBlob } from "./exports";
+import { CATEGORY_LABELS, SEVERITY_ORDER, SOURCE_LABELS, formatLineRange, groupFindingsByCategory } from "./findings";
+
+// What the report says about the run its results came from
+export type ReportMetadata = Pick<AnalysisRun, "model" | "profile" | "createdAt">;
+
+interface ReportInput extends ReportMetadata {
+  results: ValidationResult[];
+  projectReview: ProjectReview | null;
+  // Accepted/rejected correction hunks, keyed by path; missing entries count as accepted
+  decisions?: Record<string, boolean[]>;
+}
+
+const SEVERITY_COLORS: Record<Severity, string> = {
+  critical: "#b91c1c",
+  high: "#c2410c",
+  medium: "#b45309",
+  low: "#1d4ed8",
+  info: "#4b5563",
+};
+
+// Ten-point score buckets, the last one including 100
+const SCORE_BUCKETS = Array.from({ length: 10 }, (_, index) => ({ min: index * 10, max: index === 9 ? 100 : index * 10 + 9 }));
+
+const STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0 auto; max-width: 1100px; padding: 32px; font: 14px/1.5 system-ui, -apple-system, "Segoe UI", sans-serif; color: #111827; background: #fff; }
+  h1 { margin: 0 0 4px; font-size: 26px; }
+  h2 { margin: 32px 0 12px; padding-bottom: 4px; border-bottom: 1px solid #e5e7eb; font-size: 20px; }
+  h3 { margin: 0; font-size: 16px; font-family: ui-monospace, SFMono-Regular, Menlo, monospace; word-break: break-all; }
+  h4 { margin: 16px 0 8px; font-size: 14px; }
+  a { color: #1d4ed8; text-decoration: none; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { padding: 4px 8px; border-bottom: 1px solid #e5e7eb; text-align: left; vertical-align: top; }
+  th.number, td.number { text-align: right; }
+  .meta { color: #4b5563; }
+  .cards { display: flex; flex-wrap: wrap; gap: 12px; margin: 16px 0; }
+  .card { flex: 1 1 120px; padding: 12px; border: 1px solid #e5e7eb; border-radius: 8px; }
+  .card strong { display: block; font-size: 22px; }
+  .bar { height: 12px; min-width: 2px; background: #3b82f6; border-radius: 2px; }
+  .badge { display: inline-block; padding: 0 6px; border: 1px solid currentColor; border-radius: 4px; font-size: 11px; font-weight: 600; text-transform: uppercase; }
+  .score { font-weight: 700; }
+  .file { margin-top: 24px; padding: 16px; border: 1px solid #e5e7eb; border-radius: 8px; }
+  .file-header { display: flex; justify-content: space-between; align-items: baseline; gap: 16px; }
+  .finding { margin: 6px 0; break-inside: avoid; }
+  .fix { margin-top: 2px; color: #15803d; font-size: 13px; }
+  .code { width: 100%; font: 12px/1.45 ui-monospace, SFMono-Regular, Menlo, monospace; border: 1px solid #e5e7eb; }
+  .code td { padding: 0 8px; border: 0; white-space: pre-wrap; word-break: break-all; }
+  .code td.line { width: 1%; color: #9ca3af; text-align: right; white-space: nowrap; user-select: none; }
+  .code tr.flagged td { background: #fef3c7; }
+  .code tr.add td { background: #dcfce7; }
+  .code tr.remove td { background: #fee2e2; }
+  .code tr.hunk td { background: #f3f4f6; color: #6b7280; }
+  .muted { color: #6b7280; font-size: 13px; }
+  .print { float: right; padding: 6px 12px; border: 1px solid #d1d5db; border-radius: 6px; background: #f9fafb; cursor: pointer; }
+  @media print {
+    body { max-width: none; padding: 0; font-size: 12px; }
+    .print { display: none; }
+    .file { break-before: page; border: 0; padding: 0; }
+    h2, h4 { break-after: avoid; }
+    .code tr { break-inside: avoid; }
+    a { color: inherit; }
+  }
+`;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+
+const anchorFor = (index: number) => `file-${index + 1}`;
+
+const scoreColor = (score: number) => (score >= 90 ? "#15803d" : score >= 70 ? "#b45309" : "#b91c1c");
+
+const severityBadge = (severity: Severity) =>
+  `<span class="badge" style="color: ${SEVERITY_COLORS[severity]}">${severity}</span>`;
+
+const countBySeverity = (findings: { severity: Severity }[]) =>
+  Object.fromEntries(SEVERITY_ORDER.map((severity) => [severity, findings.filter((finding) => finding.severity === severity).length])) as Record<Severity, number>;
+
+function renderFinding(finding: Finding) {
+  const source = finding.source ? ` <span class="muted">(${SOURCE_LABELS[finding.source]})</span>` : "";
+  const fix = finding.suggestedFix ? `<div class="fix">Fix: ${escapeHtml(finding.suggestedFix)}</div>` : "";
+  return `<div class="finding">${severityBadge(finding.severity)} <span class="muted">${formatLineRange(finding)}</span> ${escapeHtml(finding.message)}${source}${fix}</div>`;
+}
+
+// Numbered source with the lines that have findings marked
+function renderCode(code: string, findings: Finding[]) {
+  const flagged = new Set(findings.flatMap((finding) => Array.from({ length: finding.endLine - finding.startLine + 1 }, (_, index) => finding.startLine + index)));
+  const rows = code
+    .replace(/\n$/, "")
+    .split("\n")
+    .map((text, index) => `<tr${flagged.has(index + 1) ? ' class="flagged"' : ""}><td class="line">${index + 1}</td><td>${escapeHtml(text) || " "}</td></tr>`);
+  return `<table class="code">${rows.join("")}</table>`;
+}
+
+const DIFF_MARKERS: Record<DiffLine["type"], string> = { context: " ", add: "+", remove: "-" };
+
+// Unified diff rows for hunks, each led by its @@ header
+function renderDiff(hunks: DiffHunk[]) {
+  const rows = hunks.flatMap((hunk) => [
+    `<tr class="hunk"><td class="line"></td><td class="line"></td><td>@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@</td></tr>`,
+    ...toDiffLines(hunk).map(
+      (line) =>
+        `<tr class="${line.type}"><td class="line">${line.oldNumber ?? ""}</td><td class="line">${line.newNumber ?? ""}</td><td>${DIFF_MARKERS[line.type]} ${escapeHtml(line.text)}</td></tr>`
+    ),
+  ]);
+  return `<table class="code">${rows.join("")}</table>`;
+}
+
+function renderFile(result: ValidationResult, index: number, accepted?: boolean[]) {
+  const badges = [
+    result.cached && '<span class="badge" style="color: #4b5563">Cached</span>',
+    result.verification && `<span class="badge" style="color: #4b5563">${result.verification.status}</span>`,
+    result.change && '<span class="badge" style="color: #1d4ed8">Change only</span>',
+  ].filter(Boolean);
+
+  const findings = groupFindingsByCategory(result.findings)
+    .map(([category, items]) => `<h4>${CATEGORY_LABELS[category]} (${items.length})</h4>${items.map(renderFinding).join("")}`)
+    .join("");
+
+  // A change review only knows the hunks, so they stand in for the original file
+  const original = result.change
+    ? `<h4>Reviewed change</h4>${renderDiff(result.change.hunks)}`
+    : `<h4>Original code</h4>${renderCode(result.code, result.findings)}`;
+
+  let correction = "";
+  if (result.hasCorrections && result.correctedCode) {
+    const merged = getMergedCode(result.code, result.correctedCode, accepted);
+    const hunks = computeHunks(result.code, merged);
+    correction = hunks.length
+      ? `<h4>Corrected code (diff)</h4>${renderDiff(hunks)}`
+      : '<h4>Corrected code</h4><p class="muted">Every suggested change was rejected.</p>';
+  }
+
+  return `
+  <section class="file" id="${anchorFor(index)}">
+    <div class="file-header">
+      <h3>${escapeHtml(result.path)}</h3>
+      <span class="score" style="color: ${scoreColor(result.score)}">${result.score}/100</span>
+    </div>
+    ${badges.length ? `<p>${badges.join(" ")}</p>` : ""}
+    ${result.result ? `<p>${escapeHtml(result.result)}</p>` : ""}
+    ${findings || '<p class="muted">No findings.</p>'}
+    ${original}
+    ${correction}
+  </section>`;
+}
+
+function renderProjectReview(review: ProjectReview) {
+  const findings = review.findings
+    .map(
+      (finding) =>
+        `<div class="finding">${severityBadge(finding.severity)} ${escapeHtml(finding.message)}` +
+        (finding.paths.length ? ` <span class="muted">${escapeHtml(finding.paths.join(", "))}</span>` : "") +
+        (finding.suggestedFix ? `<div class="fix">Fix: ${escapeHtml(finding.suggestedFix)}</div>` : "") +
+        "</div>"
+    )
+    .join("");
+  return `<h2>Project review <span class="score" style="color: ${scoreColor(review.score)}">${review.score}/100</span></h2>
+  <p>${escapeHtml(review.summary)}</p>${findings}`;
+}
+
+// A self-contained HTML page with the results of a run: summary, score
+// distribution, findings by category and every file with its code and
+// correction. It prints cleanly, one file per page, for saving as PDF.
+export function buildReportHtml({ results, projectReview, decisions = {}, model, profile, createdAt }: ReportInput): string {
+  const findings = results.flatMap((result) => result.findings);
+  const average = results.length ? Math.round(results.reduce((sum, result) => sum + result.score, 0) / results.length) : 0;
+  const severityCounts = countBySeverity(findings);
+  const date = new Date(createdAt);
+
+  const buckets = SCORE_BUCKETS.map((bucket) => ({
+    ...bucket,
+    count: results.filter((result) => result.score >= bucket.min && result.score <= bucket.max).length,
+  })).reverse();
+  const largestBucket = Math.max(1, ...buckets.map((bucket) => bucket.count));
+  const distribution = buckets
+    .map(
+      ({ min, max, count }) =>
+        `<tr><td>${min}-${max}</td><td style="width: 70%"><div class="bar" style="width: ${(count / largestBucket) * 100}%"></div></td><td class="number">${count}</td></tr>`
+    )
+    .join("");
+
+  const categories = groupFindingsByCategory(findings)
+    .map(([category, items]) => {
+      const counts = countBySeverity(items);
+      return `<tr><td>${CATEGORY_LABELS[category]}</td>${SEVERITY_ORDER.map((severity) => `<td class="number">${counts[severity] || ""}</td>`).join("")}<td class="number">${items.length}</td></tr>`;
+    })
+    .join("");
+
+  const fileRows = results
+    .map(
+      (result, index) =>
+        `<tr><td><a href="#${anchorFor(index)}">${escapeHtml(result.path)}</a></td><td class="number score" style="color: ${scoreColor(result.score)}">${result.score}</td><td class="number">${result.findings.length}</td></tr>`
+    )
+    .join("");
+
+  const cards = [
+    ["Files", results.length],
+    ["Average score", average],
+    ["Findings", findings.length],
+    ...SEVERITY_ORDER.filter((severity) => severity !== "info").map((severity) => [severity[0].toUpperCase() + severity.slice(1), severityCounts[severity]]),
+    ["With corrections", results.filter((result) => result.hasCorrections).length],
+  ]
+    .map(([label, value]) => `<div class="card"><span class="muted">${label}</span><strong>${value}</strong></div>`)
+    .join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Code review report, ${escapeHtml(date.toLocaleString())}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+  <button class="print" onclick="window.print()">Print or save as PDF</button>
+  <h1>Code review report</h1>
+  <p class="meta">
+    Model <strong>${escapeHtml(model)}</strong>${profile ? ` · Profile <strong>${escapeHtml(profile)}</strong>` : ""} ·
+    <time datetime="${date.toISOString()}">${escapeHtml(date.toLocaleString())}</time>
+  </p>
+
+  <h2>Summary</h2>
+  <div class="cards">${cards}</div>
+
+  ${projectReview ? renderProjectReview(projectReview) : ""}
+
+  <h2>Score distribution</h2>
+  <table>${distribution}</table>
+
+  <h2>Findings by category</h2>
+  ${
+    categories
+      ? `<table><tr><th>Category</th>${SEVERITY_ORDER.map((severity) => `<th class="number">${severity}</th>`).join("")}<th class="number">Total</th></tr>${categories}</table>`
+      : '<p class="muted">No findings.</p>'
+  }
+
+  <h2>Files</h2>
+  <table><tr><th>File</th><th class="number">Score</th><th class="number">Findings</th></tr>${fileRows}</table>
+  ${results.map((result, index) => renderFile(result, index, decisions[result.path])).join("")}
+</body>
+</html>
+`;
+}
+
+export function saveReport(input: ReportInput) {
+  const date = new Date(input.createdAt).toISOString().slice(0, 10);
+  downloadBlob(new Blob([buildReportHtml(input)], { type: "text/html" }), `code-review-${date}.html`);
+}
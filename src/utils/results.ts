@@ -0,0 +1,130 @@
+import type { Finding, FindingCategory, Severity, ValidationResult } from "../types";
+import { normalizePath } from "./exports";
+import { SEVERITY_ORDER, compareSeverity } from "./findings";
+
+export type ResultSort = "score" | "severity" | "path";
+
+export const SORT_LABELS: Record<ResultSort, string> = {
+  score: "Lowest score",
+  severity: "Most severe",
+  path: "Path",
+};
+
+export interface ResultFilters {
+  // Empty lists keep every category or severity
+  categories: FindingCategory[];
+  severities: Severity[];
+  // Matched case-insensitively against paths, summaries and findings
+  query: string;
+  // Folder the results are limited to; "" for all
+  folder: string;
+}
+
+export const NO_FILTERS: ResultFilters = { categories: [], severities: [], query: "", folder: "" };
+
+// A result as the explorer shows it: only the findings that pass the filters
+export interface VisibleResult {
+  result: ValidationResult;
+  findings: Finding[];
+}
+
+export interface FolderNode {
+  name: string;
+  // "" for the root
+  path: string;
+  fileCount: number;
+  averageScore: number;
+  // Most severe finding in any file below, or null when there are none
+  worstSeverity: Severity | null;
+  children: FolderNode[];
+}
+
+// Dropped files come with a leading "/", picked folders without one
+const pathOf = (result: ValidationResult) => normalizePath(result.path);
+
+const folderOf = (path: string) => path.split("/").slice(0, -1).join("/");
+
+const isInFolder = (path: string, folder: string) => !folder || path.startsWith(`${folder}/`);
+
+const worstSeverity = (findings: Finding[]) =>
+  findings.reduce<Severity | null>((worst, finding) => (!worst || compareSeverity(finding.severity, worst) < 0 ? finding.severity : worst), null);
+
+const severityRank = (findings: Finding[]) => {
+  const worst = worstSeverity(findings);
+  return worst ? SEVERITY_ORDER.indexOf(worst) : SEVERITY_ORDER.length;
+};
+
+const includesQuery = (query: string, ...texts: string[]) => texts.some((text) => text.toLowerCase().includes(query));
+
+export const hasActiveFilters = ({ categories, severities, query, folder }: ResultFilters) =>
+  categories.length > 0 || severities.length > 0 || query.trim() !== "" || folder !== "";
+
+// Results in the folder that match the filters. With a category or severity
+// filter, only results with a matching finding are kept. A search matching the
+// path or summary keeps every finding of the result; otherwise only the
+// findings that match are kept.
+export function filterResults(results: ValidationResult[], filters: ResultFilters): VisibleResult[] {
+  const query = filters.query.trim().toLowerCase();
+  const narrowsFindings = filters.categories.length > 0 || filters.severities.length > 0;
+
+  return results.flatMap((result) => {
+    if (!isInFolder(pathOf(result), filters.folder)) return [];
+    let findings = result.findings.filter(
+      (finding) =>
+        (!filters.categories.length || filters.categories.includes(finding.category)) &&
+        (!filters.severities.length || filters.severities.includes(finding.severity))
+    );
+    if (narrowsFindings && !findings.length) return [];
+
+    if (query && !includesQuery(query, result.path, result.result)) {
+      findings = findings.filter((finding) => includesQuery(query, finding.message, finding.suggestedFix, finding.category));
+      if (!findings.length) return [];
+    }
+    return [{ result, findings }];
+  });
+}
+
+export function sortResults(items: VisibleResult[], sort: ResultSort): VisibleResult[] {
+  const byPath = (a: VisibleResult, b: VisibleResult) => a.result.path.localeCompare(b.result.path);
+  const compare: Record<ResultSort, (a: VisibleResult, b: VisibleResult) => number> = {
+    score: (a, b) => a.result.score - b.result.score || byPath(a, b),
+    severity: (a, b) =>
+      severityRank(a.findings) - severityRank(b.findings) || b.findings.length - a.findings.length || byPath(a, b),
+    path: byPath,
+  };
+  return [...items].sort(compare[sort]);
+}
+
+// Folders of the results with the file count, average score and worst finding
+// of everything below them. Folders holding a single subfolder and no files
+// are merged into it, so deep layouts like src/main/java stay one row.
+export function buildFolderTree(results: ValidationResult[]): FolderNode {
+  const build = (path: string, name: string): FolderNode => {
+    const below = results.filter((result) => isInFolder(pathOf(result), path));
+    const childFolders = new Set<string>();
+    below.forEach((result) => {
+      const folder = folderOf(pathOf(result));
+      if (folder !== path && isInFolder(folder, path)) {
+        const rest = folder.slice(path ? path.length + 1 : 0);
+        childFolders.add(path ? `${path}/${rest.split("/")[0]}` : rest.split("/")[0]);
+      }
+    });
+
+    const node: FolderNode = {
+      name,
+      path,
+      fileCount: below.length,
+      averageScore: below.length ? Math.round(below.reduce((sum, result) => sum + result.score, 0) / below.length) : 0,
+      worstSeverity: worstSeverity(below.flatMap((result) => result.findings)),
+      children: [...childFolders].sort().map((child) => build(child, child.split("/").pop()!)),
+    };
+
+    const hasOwnFiles = below.some((result) => folderOf(pathOf(result)) === path);
+    if (path && node.children.length === 1 && !hasOwnFiles) {
+      const [only] = node.children;
+      return { ...only, name: `${name}/${only.name}` };
+    }
+    return node;
+  };
+  return build("", "All files");
+}
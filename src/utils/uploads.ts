@@ -0,0 +1,202 @@
+import type { FileWithPath } from "react-dropzone";
+import type {
+  FileWithContent,
+  ReadProgress,
+  RepositoryFiles,
+  SkippedUpload,
+  SkipReason,
+  UploadedFile,
+  UploadFilters,
+} from "../types";
+import { MAX_ARCHIVE_BYTES, extractArchive, isArchive } from "./archives";
+import { globToRegExp, isIgnored, parseGitignore, parseGlobList } from "./globs";
+import { sha256 } from "./hash";
+import { CONFIG_FILE_NAME } from "./profiles";
+
+// Larger files are skipped: they would not fit a review prompt anyway
+export const MAX_FILE_BYTES = 1024 * 1024;
+
+export const GITIGNORE_NAME = ".gitignore";
+
+const FILTERS_KEY = "uploadFilters";
+
+export const DEFAULT_FILTERS: UploadFilters = {
+  include: "",
+  exclude: "node_modules, .git",
+  useGitignore: true,
+};
+
+// Known binary types are skipped without being read
+const BINARY_EXTENSIONS = new Set(
+  "png jpg jpeg gif bmp ico webp avif tiff psd pdf zip gz tgz bz2 xz 7z rar jar war class exe dll so dylib o a lib bin wasm pyc woff woff2 ttf otf eot mp3 mp4 wav ogg webm mov avi mkv sqlite db".split(" ")
+);
+
+// NUL bytes in the first few KB are the usual sign of a binary file
+const SNIFF_BYTES = 8000;
+
+export function loadFilters(): UploadFilters {
+  try {
+    return { ...DEFAULT_FILTERS, ...JSON.parse(localStorage.getItem(FILTERS_KEY) || "{}") };
+  } catch {
+    return DEFAULT_FILTERS;
+  }
+}
+
+export const saveFilters = (filters: UploadFilters) => localStorage.setItem(FILTERS_KEY, JSON.stringify(filters));
+
+// Project-relative path with forward slashes. Files dropped or picked from a
+// folder carry the folder's path; others only have their name.
+export function uploadPath(file: FileWithPath | string) {
+  const path = typeof file === "string" ? file : file.relativePath || file.path || file.webkitRelativePath || file.name;
+  return path.replace(/\\/g, "/").replace(/^(\.?\/)+/, "");
+}
+
+const extensionOf = (path: string) => {
+  const name = path.split("/").pop() || "";
+  return name.includes(".") ? name.split(".").pop() || "" : "";
+};
+
+export async function toUploadedFile(file: FileWithContent): Promise<UploadedFile> {
+  return { ...file, size: new TextEncoder().encode(file.content).length, hash: await sha256(file.content) };
+}
+
+function decodeText(bytes: Uint8Array) {
+  if (bytes.subarray(0, SNIFF_BYTES).includes(0)) return null;
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+}
+
+// Reads files one after another, reporting progress in bytes. Archives are
+// unpacked in place of themselves. Excluded, binary, unreadable and oversized
+// files are returned as skipped instead of read, so a dropped node_modules
+// folder costs nothing.
+export async function readUploads(
+  files: FileWithPath[],
+  filters: UploadFilters,
+  onProgress: (progress: ReadProgress) => void
+): Promise<{ files: UploadedFile[]; skipped: SkippedUpload[] }> {
+  const exclude = parseGlobList(filters.exclude).map(globToRegExp);
+  const read: UploadedFile[] = [];
+  const skipped: SkippedUpload[] = [];
+  const progress: ReadProgress = { files: 0, totalFiles: files.length, bytes: 0, totalBytes: files.reduce((sum, file) => sum + file.size, 0) };
+  onProgress({ ...progress });
+
+  const skipReason = (path: string, size: number): SkipReason | null => {
+    if (exclude.some((pattern) => pattern.test(path))) return "excluded";
+    if (size > MAX_FILE_BYTES) return "too-large";
+    return BINARY_EXTENSIONS.has(extensionOf(path).toLowerCase()) ? "binary" : null;
+  };
+  const addText = async (path: string, data: Uint8Array) => {
+    const content = decodeText(data);
+    const name = path.split("/").pop() || path;
+    if (content === null) skipped.push({ path, reason: "binary" });
+    else read.push({ name, path, content, extension: extensionOf(name), size: data.length, hash: await sha256(content) });
+  };
+
+  for (const file of files) {
+    const path = uploadPath(file);
+    try {
+      if (isArchive(file.name) && !exclude.some((pattern) => pattern.test(path))) {
+        if (file.size > MAX_ARCHIVE_BYTES) {
+          skipped.push({ path, reason: "too-large" });
+        } else {
+          // Entries are placed where the archive was, inside any uploaded folder
+          const directory = path.slice(0, path.lastIndexOf("/") + 1);
+          const archive = await extractArchive(file, (entryPath, size) => skipReason(directory + uploadPath(entryPath), size));
+          skipped.push(...archive.skipped.map((entry) => ({ ...entry, path: directory + uploadPath(entry.path) })));
+          for (const entry of archive.entries) await addText(directory + uploadPath(entry.path), entry.data);
+        }
+      } else {
+        const reason = skipReason(path, file.size);
+        if (reason) skipped.push({ path, reason });
+        else await addText(path, new Uint8Array(await file.arrayBuffer()));
+      }
+    } catch {
+      skipped.push({ path, reason: "unreadable" });
+    }
+    progress.files += 1;
+    progress.bytes += file.size;
+    onProgress({ ...progress });
+  }
+  return { files: read, skipped };
+}
+
+// Files the server read from a git repository, through the same exclude filter as uploads
+export async function fromRepository(repository: RepositoryFiles, filters: UploadFilters) {
+  const exclude = parseGlobList(filters.exclude).map(globToRegExp);
+  const files: UploadedFile[] = [];
+  const skipped = [...repository.skipped];
+  for (const { path, content } of repository.files) {
+    if (exclude.some((pattern) => pattern.test(path))) {
+      skipped.push({ path, reason: "excluded" });
+    } else {
+      const name = path.split("/").pop() || path;
+      files.push(await toUploadedFile({ name, path, content, extension: extensionOf(name) }));
+    }
+  }
+  return { files, skipped };
+}
+
+// Adds newly read files to the set: a file already present with the same path
+// and content is ignored, and a changed one replaces the old version in place
+export function mergeUploads(existing: UploadedFile[], incoming: UploadedFile[]) {
+  const merged = [...existing];
+  const indexByPath = new Map(existing.map((file, index) => [file.path, index]));
+  let duplicates = 0;
+  for (const file of incoming) {
+    const index = indexByPath.get(file.path);
+    if (index === undefined) {
+      indexByPath.set(file.path, merged.length);
+      merged.push(file);
+    } else if (merged[index].hash === file.hash) {
+      duplicates += 1;
+    } else {
+      merged[index] = file;
+    }
+  }
+  return { files: merged, duplicates };
+}
+
+// The files that pass the filters, in order. .gitignore files only supply rules
+// and the project config is always kept, so neither is filtered.
+export function applyFilters(files: UploadedFile[], filters: UploadFilters) {
+  const include = parseGlobList(filters.include).map(globToRegExp);
+  const exclude = parseGlobList(filters.exclude).map(globToRegExp);
+  const ignoreRules = filters.useGitignore
+    ? files
+        .filter((file) => file.name === GITIGNORE_NAME)
+        .sort((a, b) => a.path.split("/").length - b.path.split("/").length)
+        .flatMap((file) => parseGitignore(file.path, file.content))
+    : [];
+
+  const kept: UploadedFile[] = [];
+  const skipped: SkippedUpload[] = [];
+  for (const file of files) {
+    if (file.name === GITIGNORE_NAME) continue;
+    if (file.name === CONFIG_FILE_NAME) kept.push(file);
+    else if (exclude.some((pattern) => pattern.test(file.path)) || (include.length > 0 && !include.some((pattern) => pattern.test(file.path)))) {
+      skipped.push({ path: file.path, reason: "excluded" });
+    } else if (isIgnored(file.path, ignoreRules)) {
+      skipped.push({ path: file.path, reason: "gitignored" });
+    } else {
+      kept.push(file);
+    }
+  }
+  return { files: kept, skipped };
+}
+
+// Same files with the same content, in any order
+export function isSameFileSet(a: FileWithContent[], b: FileWithContent[]) {
+  if (a.length !== b.length) return false;
+  const contents = new Map(a.map((file) => [file.path, file.content]));
+  return b.every((file) => contents.get(file.path) === file.content);
+}
+
+export function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
@@ -0,0 +1,125 @@
+/// <reference lib="webworker" />
+import { loadPyodide, type PyodideInterface } from "pyodide";
+
+export interface PyodideRunRequest {
+  source: string;
+  stdin: string;
+  packages: string[];
+  wheelsUrl: string;
+  maxOutputBytes: number;
+}
+
+export type PyodideWorkerMessage =
+  | { type: "started" }
+  | { type: "result"; stdout: string; stderr: string; exitCode: number; timeMs: number; outputTruncated: boolean };
+
+// Runs the program as __main__ and maps SystemExit and uncaught exceptions onto
+// an exit code, printing tracebacks to stderr the way the CPython CLI does.
+const HARNESS = `
+import sys, traceback
+
+def __code_amplifier_run(source):
+    try:
+        exec(compile(source, "main.py", "exec"), {"__name__": "__main__"})
+        return 0
+    except SystemExit as exit:
+        if exit.code is None or isinstance(exit.code, int):
+            return exit.code or 0
+        print(exit.code, file=sys.stderr)
+        return 1
+    except BaseException:
+        traceback.print_exc()
+        return 1
+    finally:
+        sys.stdout.flush()
+        sys.stderr.flush()
+`;
+
+let pyodideReady: Promise<PyodideInterface> | null = null;
+const installedWheels = new Set<string>();
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[-_.]+/g, "-");
+
+// Top-level modules imported by the program, used to pick wheels automatically.
+const findImports = (source: string) =>
+  [...source.matchAll(/^\s*(?:from|import)\s+([A-Za-z_][\w]*)/gm)].map((match) => normalizeName(match[1]));
+
+async function installWheels(pyodide: PyodideInterface, request: PyodideRunRequest, log: (text: string) => void) {
+  const wanted = new Set([...request.packages.map(normalizeName), ...findImports(request.source)]);
+  if (wanted.size === 0) return;
+
+  const manifest = await fetch(`${request.wheelsUrl}index.json`)
+    .then((response) => (response.ok ? response.json() : { wheels: [] }))
+    .catch(() => ({ wheels: [] }));
+
+  const sitePackages = pyodide.runPython("import sysconfig; sysconfig.get_paths()['purelib']");
+  for (const wheel of manifest.wheels as string[]) {
+    const distribution = normalizeName(wheel.split("-")[0]);
+    if (!wanted.has(distribution) || installedWheels.has(wheel)) continue;
+    if (!wheel.endsWith("-none-any.whl")) {
+      log(`Skipping ${wheel}: only pure-Python wheels can be installed in the browser\n`);
+      continue;
+    }
+
+    const response = await fetch(`${request.wheelsUrl}${wheel}`);
+    if (!response.ok) {
+      log(`Failed to download ${wheel}: ${response.status}\n`);
+      continue;
+    }
+    pyodide.unpackArchive(await response.arrayBuffer(), "wheel", { extractDir: sitePackages });
+    installedWheels.add(wheel);
+  }
+  pyodide.runPython("import importlib; importlib.invalidate_caches()");
+}
+
+self.onmessage = async (event: MessageEvent<PyodideRunRequest>) => {
+  const request = event.data;
+  const output = { stdout: "", stderr: "" };
+  let outputBytes = 0;
+  let outputTruncated = false;
+
+  const write = (stream: "stdout" | "stderr") => (text: string) => {
+    if (outputTruncated) return;
+    const line = `${text}\n`;
+    if (outputBytes + line.length > request.maxOutputBytes) {
+      output[stream] += line.slice(0, request.maxOutputBytes - outputBytes);
+      outputTruncated = true;
+      return;
+    }
+    outputBytes += line.length;
+    output[stream] += line;
+  };
+
+  pyodideReady ??= loadPyodide().then((pyodide) => {
+    pyodide.runPython(HARNESS);
+    return pyodide;
+  });
+  const pyodide = await pyodideReady;
+
+  pyodide.setStdout({ batched: write("stdout") });
+  pyodide.setStderr({ batched: write("stderr") });
+  let stdinConsumed = false;
+  pyodide.setStdin({
+    stdin: () => {
+      if (stdinConsumed) return null;
+      stdinConsumed = true;
+      return request.stdin;
+    },
+  });
+
+  await installWheels(pyodide, request, (text) => (output.stderr += text));
+
+  self.postMessage({ type: "started" } satisfies PyodideWorkerMessage);
+  const startedAt = performance.now();
+  const run = pyodide.globals.get("__code_amplifier_run");
+  const exitCode = run(request.source) as number;
+  run.destroy();
+
+  self.postMessage({
+    type: "result",
+    ...output,
+    exitCode,
+    timeMs: Math.round(performance.now() - startedAt),
+    outputTruncated,
+  } satisfies PyodideWorkerMessage);
+};
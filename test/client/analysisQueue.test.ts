@@ -0,0 +1,151 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { QueueProgress } from "../../src/types";
+import { createAnalysisQueue, type AnalysisQueueOptions } from "../../src/utils/analysisQueue";
+import { ApiError } from "../../src/utils/api";
+
+const options: AnalysisQueueOptions = { concurrency: 2, maxRetries: 2, baseDelayMs: 5, timeoutMs: 1000 };
+
+const delay = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// A job that waits until it is aborted, then rejects like fetch does
+const untilAborted = (signal: AbortSignal) =>
+  new Promise<void>((_, reject) => signal.addEventListener("abort", () => reject(new Error("aborted")), { once: true }));
+
+describe("createAnalysisQueue", () => {
+  it("runs every item with at most `concurrency` in flight", async () => {
+    let running = 0;
+    let peak = 0;
+    const done: number[] = [];
+    const queue = createAnalysisQueue(
+      [1, 2, 3, 4, 5],
+      {
+        getKey: String,
+        run: async (item) => {
+          peak = Math.max(peak, ++running);
+          await delay(5);
+          running--;
+          done.push(item);
+        },
+      },
+      options
+    );
+    await queue.start();
+    assert.equal(peak, 2);
+    assert.deepEqual([...done].sort(), [1, 2, 3, 4, 5]);
+  });
+
+  it("retries 429 and 5xx failures with exponential backoff", async () => {
+    const attempts: number[] = [];
+    const failures = [new ApiError("Busy", 429), new ApiError("Upstream failed", 502)];
+    const run = async () => {
+      attempts.push(Date.now());
+      const failure = failures.shift();
+      if (failure) throw failure;
+    };
+    await createAnalysisQueue(["a"], { getKey: String, run }, { ...options, baseDelayMs: 20 }).start();
+    assert.equal(attempts.length, 3);
+    assert.ok(attempts[1] - attempts[0] >= 15, "first retry waits the base delay");
+    assert.ok(attempts[2] - attempts[1] >= 35, "second retry waits twice as long");
+  });
+
+  it("reports progress until every item is done", async () => {
+    const updates: QueueProgress[] = [];
+    const run = () => delay(5);
+    const onProgress = (progress: QueueProgress) => updates.push(progress);
+    await createAnalysisQueue(["a", "b", "c"], { getKey: String, run, onProgress }, options).start();
+    assert.deepEqual(updates[0], { total: 3, done: 0, failed: 0, cancelled: 0, running: 0, remaining: 3, paused: false, etaMs: null });
+    const last = updates[updates.length - 1];
+    assert.equal(last.done, 3);
+    assert.equal(last.remaining, 0);
+    assert.ok(updates.every((progress) => progress.running <= 2));
+  });
+
+  it("fails without retrying client errors, and after the last retry", async () => {
+    const failures: [string, string][] = [];
+    let serverAttempts = 0;
+    const queue = createAnalysisQueue(
+      ["bad", "down"],
+      {
+        getKey: String,
+        run: async (item) => {
+          if (item === "bad") throw new ApiError("Bad request", 400);
+          serverAttempts++;
+          throw new ApiError("Unavailable", 503);
+        },
+        onFailed: (item, error) => failures.push([item, error.message]),
+      },
+      options
+    );
+    await queue.start();
+    assert.deepEqual(failures.sort(), [
+      ["bad", "Bad request"],
+      ["down", "Unavailable"],
+    ]);
+    assert.equal(serverAttempts, options.maxRetries + 1);
+  });
+
+  it("aborts and reports an attempt that runs too long", async () => {
+    const failures: string[] = [];
+    const queue = createAnalysisQueue(
+      ["slow"],
+      {
+        getKey: String,
+        run: (_, signal) => untilAborted(signal),
+        onFailed: (_, error) => failures.push(error.message),
+      },
+      { ...options, timeoutMs: 20 }
+    );
+    await queue.start();
+    assert.deepEqual(failures, ["Timed out after 0s"]);
+  });
+
+  it("cancels one item or everything", async () => {
+    const started: string[] = [];
+    let progress: QueueProgress | undefined;
+    const queue = createAnalysisQueue(
+      ["a", "b", "c", "d"],
+      {
+        getKey: String,
+        run: (item, signal) => {
+          started.push(item);
+          return untilAborted(signal);
+        },
+        onFailed: () => assert.fail("cancelled items are not failures"),
+        onProgress: (next) => (progress = next),
+      },
+      options
+    );
+    const finished = queue.start();
+    await delay(5);
+    queue.cancelItem("a");
+    await delay(5);
+    queue.cancel();
+    await finished;
+    assert.deepEqual(started, ["a", "b", "c"]);
+    assert.equal(progress?.cancelled, 4);
+    assert.equal(progress?.running, 0);
+  });
+
+  it("starts nothing new while paused", async () => {
+    const started: string[] = [];
+    const queue = createAnalysisQueue(
+      ["a", "b"],
+      {
+        getKey: String,
+        run: async (item) => {
+          started.push(item);
+          await delay(5);
+        },
+      },
+      { ...options, concurrency: 1 }
+    );
+    const finished = queue.start();
+    queue.pause();
+    await delay(20);
+    assert.deepEqual(started, ["a"]);
+    queue.resume();
+    await finished;
+    assert.deepEqual(started, ["a", "b"]);
+  });
+});
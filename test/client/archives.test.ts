@@ -0,0 +1,57 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { gzipSync, strToU8, zipSync } from "fflate";
+import { extractArchive, isArchive } from "../../src/utils/archives";
+
+// A tar archive of regular files; the reader ignores checksums, so none are written
+function tar(files: Record<string, string>) {
+  const blocks: Uint8Array[] = [];
+  const field = (header: Uint8Array, offset: number, value: string) => header.set(strToU8(value), offset);
+  for (const [name, content] of Object.entries(files)) {
+    const data = strToU8(content);
+    const header = new Uint8Array(512);
+    field(header, 0, name);
+    field(header, 124, data.length.toString(8).padStart(11, "0"));
+    field(header, 156, "0");
+    blocks.push(header, data, new Uint8Array((512 - (data.length % 512)) % 512));
+  }
+  blocks.push(new Uint8Array(1024));
+  const archive = new Uint8Array(blocks.reduce((size, block) => size + block.length, 0));
+  let offset = 0;
+  for (const block of blocks) {
+    archive.set(block, offset);
+    offset += block.length;
+  }
+  return archive;
+}
+
+const decode = (entries: { path: string; data: Uint8Array }[]) =>
+  entries.map(({ path, data }) => [path, new TextDecoder().decode(data)]).sort();
+
+// Leaves out everything under node_modules
+const filter = (path: string) => (path.includes("node_modules/") ? ("excluded" as const) : null);
+
+describe("isArchive", () => {
+  it("recognises zip, tar and gzipped tar files", () => {
+    assert.deepEqual(["a.zip", "a.TAR", "a.tar.gz", "a.tgz", "a.gz", "a.js"].map(isArchive), [true, true, true, true, false, false]);
+  });
+});
+
+describe("extractArchive", () => {
+  const files = { "app/src/a.js": "export const a = 1;\n", "app/node_modules/x/index.js": "x" };
+
+  it("unpacks a zip, skipping what the filter rejects", async () => {
+    const zip = zipSync({ "app/src/": {}, ...Object.fromEntries(Object.entries(files).map(([path, text]) => [path, strToU8(text)])) });
+    const { entries, skipped } = await extractArchive(new File([zip], "app.zip"), filter);
+    assert.deepEqual(decode(entries), [["app/src/a.js", "export const a = 1;\n"]]);
+    assert.deepEqual(skipped, [{ path: "app/node_modules/x/index.js", reason: "excluded" }]);
+  });
+
+  it("unpacks tar and tar.gz archives", async () => {
+    for (const file of [new File([tar(files)], "app.tar"), new File([gzipSync(tar(files))], "app.tar.gz")]) {
+      const { entries, skipped } = await extractArchive(file, filter);
+      assert.deepEqual(decode(entries), [["app/src/a.js", "export const a = 1;\n"]]);
+      assert.deepEqual(skipped, [{ path: "app/node_modules/x/index.js", reason: "excluded" }]);
+    }
+  });
+});
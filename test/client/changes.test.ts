@@ -0,0 +1,86 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { countChangedLines, parseChange } from "../../src/utils/changes";
+
+const gitDiff = `diff --git a/src/app.js b/src/app.js
+index 1111111..2222222 100644
+--- a/src/app.js
++++ b/src/app.js
+@@ -1,3 +1,4 @@
+ const a = 1;
+-const b = 2;
++const b = 3;
++const c = 4;
+ export { a };
+\\ No newline at end of file
+diff --git a/old.txt b/old.txt
+deleted file mode 100644
+--- a/old.txt
++++ /dev/null
+@@ -1 +0,0 @@
+-gone
+diff --git a/new.py b/new.py
+new file mode 100644
+--- /dev/null
++++ b/new.py
+@@ -0,0 +1,2 @@
++print("hi")
++print("there")
+`;
+
+describe("parseChange", () => {
+  const files = parseChange(gitDiff);
+
+  it("keeps changed and new files and leaves out deleted ones", () => {
+    assert.deepEqual(
+      files.map(({ name, path, extension }) => [name, path, extension]),
+      [
+        ["app.js", "src/app.js", "js"],
+        ["new.py", "new.py", "py"],
+      ]
+    );
+  });
+
+  it("drops no-newline markers from the hunks", () => {
+    assert.deepEqual(files[0].change?.hunks, [
+      {
+        oldStart: 1,
+        oldLines: 3,
+        newStart: 1,
+        newLines: 4,
+        lines: [" const a = 1;", "-const b = 2;", "+const b = 3;", "+const c = 4;", " export { a };"],
+      },
+    ]);
+  });
+
+  it("rebuilds the content from the hunks when the file is not known", () => {
+    assert.equal(files[0].change?.complete, false);
+    assert.equal(files[0].content, "const a = 1;\nconst b = 3;\nconst c = 4;\nexport { a };");
+    assert.equal(files[1].content, 'print("hi")\nprint("there")');
+  });
+
+  it("leaves lines outside the hunks blank", () => {
+    const [file] = parseChange("--- a.txt\n+++ a.txt\n@@ -3,2 +3,2 @@\n keep\n-old\n+new\n");
+    assert.equal(file.content, "\n\nkeep\nnew");
+  });
+
+  it("uses the new content when it is given", () => {
+    const [file] = parseChange(gitDiff, { "src/app.js": "whole file" });
+    assert.equal(file.content, "whole file");
+    assert.equal(file.change?.complete, true);
+  });
+
+  it("keeps paths of plain `diff -u` output as they are", () => {
+    const [file] = parseChange("--- a/x.js\t2024-01-01\n+++ b/x.js\t2024-01-02\n@@ -1 +1 @@\n-1\n+2\n");
+    assert.equal(file.path, "x.js");
+    const [plain] = parseChange("--- lib/x.js\n+++ lib/x.js\n@@ -1 +1 @@\n-1\n+2\n");
+    assert.equal(plain.path, "lib/x.js");
+  });
+});
+
+describe("countChangedLines", () => {
+  it("counts added and removed lines", () => {
+    const [file] = parseChange(gitDiff);
+    assert.deepEqual(countChangedLines(file.change!), { added: 2, removed: 1 });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { computeHunks, getMergedCode, mergeHunks, toDiffLines, toSplitRows } from "../../src/utils/diff";
+
+const original = ["one", "two", "three", "four", "five", "six", "seven", "eight", "nine", "ten", "eleven", "twelve"].join("\n") + "\n";
+const corrected = original.replace("two", "TWO").replace("eleven\n", "eleven\nextra\n");
+
+describe("computeHunks", () => {
+  it("groups distant changes into separate hunks", () => {
+    const hunks = computeHunks(original, corrected);
+    assert.equal(hunks.length, 2);
+    assert.deepEqual(hunks[0].lines, [" one", "-two", "+TWO", " three", " four", " five"]);
+    assert.deepEqual(hunks[1].lines, [" nine", " ten", " eleven", "+extra", " twelve"]);
+  });
+
+  it("leaves out no-newline markers", () => {
+    const [hunk] = computeHunks("a\nb", "a\nc");
+    assert.deepEqual(hunk.lines, [" a", "-b", "+c"]);
+  });
+});
+
+describe("toDiffLines", () => {
+  it("numbers both sides and highlights changed words", () => {
+    const [hunk] = computeHunks("let a = 1;\nkeep\n", "let a = 2;\nkeep\n");
+    assert.deepEqual(toDiffLines(hunk), [
+      {
+        type: "remove",
+        oldNumber: 1,
+        text: "let a = 1;",
+        segments: [
+          { text: "let a = ", changed: false },
+          { text: "1", changed: true },
+          { text: ";", changed: false },
+        ],
+      },
+      {
+        type: "add",
+        newNumber: 1,
+        text: "let a = 2;",
+        segments: [
+          { text: "let a = ", changed: false },
+          { text: "2", changed: true },
+          { text: ";", changed: false },
+        ],
+      },
+      { type: "context", oldNumber: 2, newNumber: 2, text: "keep" },
+    ]);
+  });
+
+  it("only highlights additions paired with a removal", () => {
+    const lines = toDiffLines({ oldStart: 4, oldLines: 1, newStart: 4, newLines: 2, lines: ["-x", "+y", "+z"] });
+    assert.ok(lines[1].segments);
+    assert.equal(lines[2].segments, undefined);
+    assert.deepEqual(
+      lines.map(({ oldNumber, newNumber }) => [oldNumber, newNumber]),
+      [
+        [4, undefined],
+        [undefined, 4],
+        [undefined, 5],
+      ]
+    );
+  });
+});
+
+describe("toSplitRows", () => {
+  it("pairs removals with additions and repeats context on both sides", () => {
+    const lines = toDiffLines({ oldStart: 1, oldLines: 3, newStart: 1, newLines: 2, lines: [" a", "-b", "-c", "+B"] });
+    const rows = toSplitRows(lines);
+    assert.deepEqual(
+      rows.map(({ left, right }) => [left?.text, right?.text]),
+      [
+        ["a", "a"],
+        ["b", "B"],
+        ["c", undefined],
+      ]
+    );
+  });
+});
+
+describe("mergeHunks", () => {
+  const hunks = computeHunks(original, corrected);
+
+  it("applies every hunk by default", () => {
+    assert.equal(mergeHunks(original, corrected, hunks), corrected);
+    assert.equal(getMergedCode(original, corrected), corrected);
+  });
+
+  it("applies only the accepted hunks", () => {
+    assert.equal(mergeHunks(original, corrected, hunks, [false, true]), original.replace("eleven\n", "eleven\nextra\n"));
+    assert.equal(getMergedCode(original, corrected, [true, false]), original.replace("two", "TWO"));
+    assert.equal(getMergedCode(original, corrected, [false, false]), original);
+  });
+
+  it("takes the final newline from the hunk at the end of the file", () => {
+    assert.equal(getMergedCode("a\nb", "a\nc\n"), "a\nc\n");
+    assert.equal(getMergedCode("a\nb", "a\nc\n", [false]), "a\nb");
+    assert.equal(getMergedCode("a\nb\n", "a\nc"), "a\nc");
+  });
+
+  it("handles empty files", () => {
+    assert.equal(getMergedCode("", "new\n"), "new\n");
+    assert.equal(getMergedCode("old\n", ""), "");
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { globToRegExp, isIgnored, parseGitignore, parseGlobList } from "../../src/utils/globs";
+
+describe("globToRegExp", () => {
+  const matches = (glob: string, path: string) => globToRegExp(glob).test(path);
+
+  it("matches at any depth", () => {
+    assert.equal(matches("src/**/*.ts", "src/a.ts"), true);
+    assert.equal(matches("src/**/*.ts", "project/src/lib/deep/a.ts"), true);
+    assert.equal(matches("*.py", "tools/run.py"), true);
+    assert.equal(matches("node_modules", "web/node_modules/react/index.js"), true);
+  });
+
+  it("keeps `*` and `?` within one segment", () => {
+    assert.equal(matches("src/*.ts", "src/lib/a.ts"), false);
+    assert.equal(matches("a?.js", "ab.js"), true);
+    assert.equal(matches("a?.js", "a/.js"), false);
+  });
+
+  it("matches whole segments and escapes regular expression characters", () => {
+    assert.equal(matches("test", "latest/a.js"), false);
+    assert.equal(matches("a.js", "aXjs"), false);
+    assert.equal(matches("/build", "build/out.js"), true);
+  });
+});
+
+describe("parseGlobList", () => {
+  it("splits on commas and newlines and drops blanks", () => {
+    assert.deepEqual(parseGlobList(" src/**/*.ts, *.py\n\nnode_modules ,"), ["src/**/*.ts", "*.py", "node_modules"]);
+  });
+});
+
+describe("gitignore", () => {
+  const rules = [
+    ...parseGitignore(".gitignore", "# comment\n*.log\n/dist\nbuild/\n!keep.log\n\\#literal\ndocs/*.md\n"),
+    ...parseGitignore("web/.gitignore", "*.tmp\n!important.log\n"),
+  ];
+
+  it("ignores unanchored patterns at any depth", () => {
+    assert.equal(isIgnored("debug.log", rules), true);
+    assert.equal(isIgnored("server/logs/debug.log", rules), true);
+    assert.equal(isIgnored("#literal", rules), true);
+  });
+
+  it("anchors patterns with a slash to the .gitignore's directory", () => {
+    assert.equal(isIgnored("dist/app.js", rules), true);
+    assert.equal(isIgnored("web/dist/app.js", rules), false);
+    assert.equal(isIgnored("docs/guide.md", rules), true);
+    assert.equal(isIgnored("docs/api/guide.md", rules), false);
+  });
+
+  it("matches directory-only patterns against directories alone", () => {
+    assert.equal(isIgnored("web/build/app.js", rules), true);
+    assert.equal(isIgnored("build", rules), false);
+  });
+
+  it("lets later and deeper negations win", () => {
+    assert.equal(isIgnored("keep.log", rules), false);
+    assert.equal(isIgnored("web/important.log", rules), false);
+    assert.equal(isIgnored("important.log", rules), true);
+  });
+
+  it("scopes rules to the .gitignore's own directory", () => {
+    assert.equal(isIgnored("web/cache.tmp", rules), true);
+    assert.equal(isIgnored("cache.tmp", rules), false);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { FileWithContent, ReviewProfile, ReviewSettings, ServerInfo } from "../../src/types";
+import { getCacheKey } from "../../src/utils/history";
+
+const info: ServerInfo = { provider: "mock", model: "mock-reviewer", promptVersion: "abc" };
+const file: FileWithContent = { name: "a.js", path: "src/a.js", extension: "js", content: "eval(input);\n" };
+const profile: ReviewProfile = {
+  id: "default",
+  name: "Balanced",
+  description: "",
+  systemPrompt: "Review this.",
+  userPrompt: "Analyze {{path}}:",
+  categories: ["bug", "security"],
+  weights: null,
+};
+const settings: ReviewSettings = { profile, rules: [] };
+
+describe("getCacheKey", () => {
+  it("is stable for the same file, project context, server and settings", async () => {
+    assert.equal(
+      await getCacheKey(file, info, settings, "ctx"),
+      await getCacheKey({ ...file }, { ...info }, { profile: { ...profile }, rules: [] }, "ctx")
+    );
+  });
+
+  it("changes with the path, content, change under review, project context, model, prompt, profile and rules", async () => {
+    const key = await getCacheKey(file, info, settings, "ctx");
+    const others = await Promise.all([
+      getCacheKey({ ...file, path: "lib/a.js" }, info, settings, "ctx"),
+      getCacheKey({ ...file, content: "eval(other);\n" }, info, settings, "ctx"),
+      getCacheKey({ ...file, change: { complete: true, hunks: [] } }, info, settings, "ctx"),
+      getCacheKey(file, info, settings, "other"),
+      getCacheKey(file, info, settings),
+      getCacheKey(file, { ...info, model: "other" }, settings, "ctx"),
+      getCacheKey(file, { ...info, promptVersion: "def" }, settings, "ctx"),
+      getCacheKey(file, info, { profile: { ...profile, categories: ["bug"] }, rules: [] }, "ctx"),
+      getCacheKey(file, info, { profile, rules: [{ message: "No eval" }] }, "ctx"),
+    ]);
+    others.forEach((other) => assert.notEqual(other, key));
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { FileWithContent } from "../../src/types";
+import { findConfigFile, parseProjectConfig } from "../../src/utils/profiles";
+
+const configFile = (path: string, content: string): FileWithContent => ({
+  name: path.split("/").pop()!,
+  path,
+  extension: "json",
+  content,
+});
+
+describe("findConfigFile", () => {
+  it("picks the config closest to the root", () => {
+    const files = [configFile("app/pkg/.codeamplifier.json", "{}"), configFile("app/.codeamplifier.json", "{}"), configFile("app/a.json", "{}")];
+    assert.equal(findConfigFile(files)?.path, "app/.codeamplifier.json");
+  });
+});
+
+describe("parseProjectConfig", () => {
+  it("reads the profile and rules", () => {
+    const { config, errors } = parseProjectConfig(
+      configFile(".codeamplifier.json", '{"profile":"security","rules":[{"message":"No eval","pattern":"eval\\\\("}]}')
+    );
+    assert.deepEqual(errors, []);
+    assert.deepEqual(config, { path: ".codeamplifier.json", profile: "security", rules: [{ message: "No eval", pattern: "eval\\(" }] });
+  });
+
+  it("reports every problem at once", () => {
+    const content = JSON.stringify({ profile: 1, rules: [{ message: "", severity: "fatal" }, { message: "x", category: "misc", pattern: "(" }] });
+    const { config, errors } = parseProjectConfig(configFile("c.json", content));
+    assert.equal(config, null);
+    assert.equal(errors.length, 5);
+    assert.ok(errors.every((error) => error.startsWith("c.json: ")));
+    assert.match(parseProjectConfig(configFile("c.json", "{")).errors[0], /c\.json is not valid JSON/);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { FileWithPath } from "react-dropzone";
+import type { UploadFilters } from "../../src/types";
+import { applyFilters, DEFAULT_FILTERS, mergeUploads, readUploads, toUploadedFile } from "../../src/utils/uploads";
+
+const upload = (path: string, content = `// ${path}\n`) =>
+  toUploadedFile({ name: path.split("/").pop()!, path, extension: path.split(".").pop()!, content });
+
+const paths = (files: { path: string }[]) => files.map((file) => file.path);
+
+describe("mergeUploads", () => {
+  it("keeps the order, ignores repeats and replaces changed files in place", async () => {
+    const existing = [await upload("a.js"), await upload("b.js")];
+    const incoming = [await upload("b.js", "changed"), await upload("a.js"), await upload("c.js")];
+    const { files, duplicates } = mergeUploads(existing, incoming);
+    assert.deepEqual(paths(files), ["a.js", "b.js", "c.js"]);
+    assert.equal(files[1].content, "changed");
+    assert.equal(duplicates, 1);
+  });
+});
+
+describe("applyFilters", () => {
+  const filters = (overrides: Partial<UploadFilters>): UploadFilters => ({ ...DEFAULT_FILTERS, ...overrides });
+
+  it("applies include and exclude globs", async () => {
+    const files = await Promise.all(["src/a.ts", "src/a.test.ts", "docs/b.md"].map((path) => upload(path)));
+    const { files: kept, skipped } = applyFilters(files, filters({ include: "src/**", exclude: "*.test.ts" }));
+    assert.deepEqual(paths(kept), ["src/a.ts"]);
+    assert.deepEqual(skipped, [
+      { path: "src/a.test.ts", reason: "excluded" },
+      { path: "docs/b.md", reason: "excluded" },
+    ]);
+  });
+
+  it("follows .gitignore files unless turned off, and always keeps the project config", async () => {
+    const files = [
+      await upload(".gitignore", "dist/\n*.log\n"),
+      await upload(".codeamplifier.json", "{}"),
+      await upload("dist/out.js"),
+      await upload("src/app.js"),
+      await upload("src/debug.log"),
+    ];
+    const { files: kept, skipped } = applyFilters(files, filters({ include: "src/**" }));
+    assert.deepEqual(paths(kept), [".codeamplifier.json", "src/app.js"]);
+    assert.deepEqual(skipped, [
+      { path: "dist/out.js", reason: "excluded" },
+      { path: "src/debug.log", reason: "gitignored" },
+    ]);
+    assert.deepEqual(paths(applyFilters(files, filters({ useGitignore: false })).files), [
+      ".codeamplifier.json",
+      "dist/out.js",
+      "src/app.js",
+      "src/debug.log",
+    ]);
+  });
+});
+
+describe("readUploads", () => {
+  const dropped = (path: string, content: BlobPart) => Object.assign(new File([content], path.split("/").pop()!), { path }) as FileWithPath;
+
+  it("reads text files and skips excluded and binary ones", async () => {
+    const updates: number[] = [];
+    const { files, skipped } = await readUploads(
+      [
+        dropped("./src/a.js", "const a = 1;\n"),
+        dropped("node_modules/x/index.js", "x"),
+        dropped("logo.png", "png"),
+        dropped("data.bin.txt", new Uint8Array([1, 0, 2])),
+      ],
+      DEFAULT_FILTERS,
+      (progress) => updates.push(progress.files)
+    );
+    assert.deepEqual(
+      files.map(({ path, extension, content }) => [path, extension, content]),
+      [["src/a.js", "js", "const a = 1;\n"]]
+    );
+    assert.deepEqual(skipped, [
+      { path: "node_modules/x/index.js", reason: "excluded" },
+      { path: "logo.png", reason: "binary" },
+      { path: "data.bin.txt", reason: "binary" },
+    ]);
+    assert.deepEqual(updates, [0, 1, 2, 3, 4]);
+  });
+});
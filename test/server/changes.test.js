@@ -0,0 +1,74 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { blankUnchanged, changedLines, formatHunks, normalizeChange, touchesChange } from "../../server/analysis/changes.js";
+
+const change = {
+  complete: true,
+  hunks: [
+    { oldStart: 1, newStart: 1, lines: [" import a", "-import b", "+import c", "+import d", " ", "\\ No newline at end of file"] },
+    { oldStart: 20, newStart: 21, lines: [" run()", "-stop()", " done()"] },
+  ],
+};
+
+describe("normalizeChange", () => {
+  it("keeps only the known fields", () => {
+    const normalized = normalizeChange({ ...change, extra: true, hunks: [{ ...change.hunks[0], header: "@@" }] });
+    assert.deepEqual(normalized, { complete: true, hunks: [{ oldStart: 1, newStart: 1, lines: change.hunks[0].lines }] });
+  });
+
+  it("treats a missing `complete` as a diff-only change", () => {
+    assert.equal(normalizeChange({ hunks: change.hunks }).complete, false);
+  });
+
+  it("returns null without a change and throws on a malformed one", () => {
+    assert.equal(normalizeChange(undefined), null);
+    assert.equal(normalizeChange(null), null);
+    assert.throws(() => normalizeChange({ hunks: [] }), /non-empty array/);
+    assert.throws(() => normalizeChange({ hunks: [{ oldStart: 1, newStart: "1", lines: [] }] }), /change\.hunks\[0\]/);
+    assert.throws(() => normalizeChange({ hunks: [{ oldStart: 1, newStart: 1, lines: ["*bad"] }] }), /change\.hunks\[0\]/);
+  });
+});
+
+describe("changedLines", () => {
+  it("has the added lines and the line after each removal", () => {
+    assert.deepEqual([...changedLines(change)].sort((a, b) => a - b), [2, 3, 22]);
+  });
+
+  it("starts an empty new side at line 1", () => {
+    assert.deepEqual([...changedLines({ hunks: [{ oldStart: 1, newStart: 0, lines: ["-gone"] }] })], [1]);
+  });
+});
+
+describe("touchesChange", () => {
+  const lines = new Set([2, 3, 22]);
+
+  it("matches a finding with any changed line in its range", () => {
+    assert.equal(touchesChange({ startLine: 1, endLine: 2 }, lines), true);
+    assert.equal(touchesChange({ startLine: 4, endLine: 21 }, lines), false);
+  });
+});
+
+describe("formatHunks", () => {
+  it("numbers new-file lines and separates hunks", () => {
+    assert.equal(
+      formatHunks(change),
+      [
+        " 1   import a",
+        "   - import b",
+        " 2 + import c",
+        " 3 + import d",
+        " 4   ",
+        "     ...",
+        "21   run()",
+        "   - stop()",
+        "22   done()",
+      ].join("\n")
+    );
+  });
+});
+
+describe("blankUnchanged", () => {
+  it("keeps only the changed lines", () => {
+    assert.equal(blankUnchanged("a\nb\nc\nd", new Set([2, 4])), "\nb\n\nd");
+  });
+});
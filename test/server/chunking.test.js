@@ -0,0 +1,108 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { estimateTokens, mergeChunkReviews, splitIntoChunks } from "../../server/analysis/chunking.js";
+
+// Ten functions of five lines each, separated by blank lines
+const source = Array.from(
+  { length: 10 },
+  (_, index) => `// Adds ${index}\nfunction add${index}(value) {\n  const result = value + ${index};\n  return result;\n}\n`
+).join("\n");
+
+describe("splitIntoChunks", () => {
+  const chunks = splitIntoChunks(source, "js", { maxTokens: 80, overlapLines: 3 });
+
+  it("covers every line once, in order", () => {
+    assert.ok(chunks.length > 1);
+    assert.equal(chunks[0].startLine, 1);
+    chunks.slice(1).forEach((chunk, index) => assert.equal(chunk.startLine, chunks[index].endLine + 1));
+    assert.equal(chunks.at(-1).endLine, source.split("\n").length);
+    chunks.forEach((chunk) => assert.equal(chunk.total, chunks.length));
+  });
+
+  it("cuts at declarations and keeps their comments attached", () => {
+    const lines = source.split("\n");
+    chunks.slice(1).forEach((chunk) => assert.match(lines[chunk.startLine - 1], /^\/\/ Adds \d$/));
+  });
+
+  it("stays within the budget, overlap included", () => {
+    chunks.forEach((chunk) => {
+      const tokens = chunk.content.split("\n").reduce((sum, line) => sum + estimateTokens(line) + 1, 0);
+      assert.ok(tokens <= 80, `chunk ${chunk.index} has ${tokens} tokens`);
+    });
+  });
+
+  it("prefixes each later chunk with the lines before it", () => {
+    assert.equal(chunks[0].contextStartLine, 1);
+    chunks.slice(1).forEach((chunk) => {
+      assert.ok(chunk.contextStartLine < chunk.startLine);
+      assert.ok(chunk.startLine - chunk.contextStartLine <= 3);
+      const lines = source.split("\n").slice(chunk.contextStartLine - 1, chunk.endLine);
+      assert.equal(chunk.content, lines.join("\n"));
+    });
+  });
+
+  it("splits a single oversized declaration at blank lines", () => {
+    const body = Array.from({ length: 40 }, (_, index) => (index % 10 === 9 ? "" : `  step${index}();`)).join("\n");
+    const big = `function big() {\n${body}\n}`;
+    const lines = big.split("\n");
+    const pieces = splitIntoChunks(big, "js", { maxTokens: 150, overlapLines: 0 });
+    assert.ok(pieces.length > 1);
+    pieces.slice(1).forEach((piece) => assert.equal(lines[piece.startLine - 2], ""));
+  });
+
+  it("returns one chunk for a file within the budget", () => {
+    const [only, ...rest] = splitIntoChunks("const a = 1;\n", "ts", { maxTokens: 1000 });
+    assert.deepEqual(rest, []);
+    assert.equal(only.content, "const a = 1;\n");
+  });
+});
+
+describe("mergeChunkReviews", () => {
+  const content = ["a", "b", "c", "d", "e", "f"].join("\n");
+  const chunks = [
+    { index: 0, total: 2, startLine: 1, endLine: 3, contextStartLine: 1, content: "a\nb\nc" },
+    { index: 1, total: 2, startLine: 4, endLine: 6, contextStartLine: 3, content: "c\nd\ne\nf" },
+  ];
+  const finding = (startLine, message, endLine = startLine) => ({
+    severity: "low",
+    category: "style",
+    startLine,
+    endLine,
+    message,
+    suggestedFix: "",
+  });
+
+  it("maps findings to file lines and drops those in the overlap", () => {
+    const merged = mergeChunkReviews(content, chunks, [
+      { summary: "First.", score: 100, findings: [finding(2, "on b")] },
+      { summary: "Second.", score: 40, findings: [finding(1, "on c, owned by the first chunk"), finding(3, "on e"), finding(1, "spans c and d", 2)] },
+    ]);
+    assert.deepEqual(
+      merged.findings.map(({ startLine, endLine, message }) => [startLine, endLine, message]),
+      [
+        [2, 2, "on b"],
+        [4, 4, "spans c and d"],
+        [5, 5, "on e"],
+      ]
+    );
+    assert.equal(merged.score, 70);
+    assert.equal(merged.summary, "Reviewed in 2 parts. First. Second.");
+    assert.equal(merged.correctedCode, undefined);
+  });
+
+  it("drops a finding reported twice for the same line", () => {
+    const merged = mergeChunkReviews(content, chunks, [
+      { summary: "", score: 50, findings: [] },
+      { summary: "", score: 50, findings: [finding(2, "same"), finding(1, "same", 2)] },
+    ]);
+    assert.equal(merged.findings.filter((item) => item.message === "same").length, 1);
+  });
+
+  it("applies each chunk's corrections to its own lines only", () => {
+    const merged = mergeChunkReviews(content, chunks, [
+      { summary: "", score: 50, findings: [], correctedCode: "A\nb\nc" },
+      { summary: "", score: 50, findings: [], correctedCode: "C\nd\nE\nf\ng\n" },
+    ]);
+    assert.equal(merged.correctedCode, "A\nb\nc\nd\nE\nf\ng");
+  });
+});
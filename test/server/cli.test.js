@@ -0,0 +1,74 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { execFile } from "node:child_process";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+const ENV = { ...process.env, LLM_PROVIDER: "mock", STATIC_ANALYZERS: "none", VERIFY_CORRECTIONS: "off", CACHE_FILE: "" };
+
+// Resolves to { code, stdout, stderr } however the CLI exits
+const cli = (...args) =>
+  new Promise((resolve) => {
+    execFile(process.execPath, ["cli.js", ...args], { env: ENV, timeout: 60000 }, (error, stdout, stderr) =>
+      resolve({ code: error ? error.code : 0, stdout, stderr })
+    );
+  });
+
+describe("cli.js", () => {
+  let root;
+  // The reviewed project; reports are written next to it, not into it
+  let dir;
+
+  before(async () => {
+    root = await mkdtemp(join(tmpdir(), "code-amplifier-cli-"));
+    dir = join(root, "project");
+    await mkdir(join(dir, "src"), { recursive: true });
+    await writeFile(join(dir, "src", "ok.js"), "const ok = 1;\n");
+    await writeFile(join(dir, "src", "unsafe.js"), "const ok = 1;\neval(input);\n");
+  });
+
+  after(() => rm(root, { recursive: true, force: true }));
+
+  it("exits with 0 and a Markdown report when the gate passes", async () => {
+    const { code, stdout } = await cli("review", dir);
+    assert.equal(code, 0);
+    assert.match(stdout, /src\/unsafe\.js/);
+  });
+
+  it("exits with 1 when a file fails the gate", async () => {
+    assert.equal((await cli("review", dir, "--fail-on", "high", "--json", join(root, "out", "report.json"))).code, 1);
+    const report = JSON.parse(await readFile(join(root, "out", "report.json"), "utf8"));
+    assert.deepEqual(report.gate.failures, [{ path: "src/unsafe.js", reasons: ["1 finding of severity high or higher"] }]);
+    assert.equal((await cli("review", dir, "--exclude", "unsafe.js", "--fail-on", "high", "--json", "-")).code, 0);
+  });
+
+  it("exits with 2 on bad options and unreadable paths", async () => {
+    const usage = await cli("review", dir, "--min-score", "150");
+    assert.equal(usage.code, 2);
+    assert.match(usage.stderr, /--min-score must be a number from 0 to 100[\s\S]*Usage: code-amplifier review/);
+    assert.equal((await cli("lint", dir)).code, 2);
+    assert.equal((await cli("review", join(dir, "missing"))).code, 2);
+  });
+
+  it("writes SARIF with one result per finding", async () => {
+    const { stdout } = await cli("review", dir, "--include", "src/unsafe.js", "--sarif", "-");
+    const sarif = JSON.parse(stdout);
+    assert.equal(sarif.version, "2.1.0");
+    const [run] = sarif.runs;
+    assert.deepEqual(
+      run.results.map((result) => [result.ruleId, result.level, result.locations[0].physicalLocation.artifactLocation.uri]),
+      [["security", "error", "src/unsafe.js"]]
+    );
+    assert.equal(run.results[0].locations[0].physicalLocation.region.startLine, 2);
+    assert.equal(run.invocations[0].executionSuccessful, true);
+  });
+
+  it("writes JUnit XML with a failing test case per file that fails the gate", async () => {
+    const { code, stdout } = await cli("review", dir, "--min-score", "95", "--junit", "-");
+    assert.equal(code, 1);
+    assert.match(stdout, /<testsuites name="Code-Amplifier" tests="2" failures="1" errors="0"/);
+    assert.match(stdout, /<testcase name="src\/unsafe\.js"[^>]*>\n\s*<failure message="score \d+ is below 95" type="gate">/);
+    assert.match(stdout, /<testcase name="src\/ok\.js"[^>]*>\n\s*<system-out>Score: 100/);
+  });
+});
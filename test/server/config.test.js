@@ -0,0 +1,55 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { loadConfig } from "../../server/config.js";
+
+describe("loadConfig", () => {
+  it("fills in the provider's endpoint and model", () => {
+    const { llm } = loadConfig({ LLM_PROVIDER: "Ollama" });
+    assert.equal(llm.provider, "ollama");
+    assert.equal(llm.endpoint, "http://localhost:11434");
+    assert.equal(llm.model, "deepseek-coder:6.7b-instruct");
+  });
+
+  it("reads overrides from the environment", () => {
+    const config = loadConfig({ LLM_ENDPOINT: "http://gpu:8000/v1/", LLM_TEMPERATURE: "0", LLM_MAX_TOKENS: "abc", PORT: "4000" });
+    assert.equal(config.llm.endpoint, "http://gpu:8000/v1");
+    assert.equal(config.llm.temperature, 0);
+    assert.equal(config.llm.maxTokens, 4000);
+    assert.equal(config.port, 4000);
+  });
+
+  it("keeps the server local by default", () => {
+    const config = loadConfig({});
+    assert.equal(config.host, "127.0.0.1");
+    assert.ok(config.allowedOrigins.includes("http://localhost:5173"));
+  });
+
+  it("reads the host and allowed origins from the environment", () => {
+    const config = loadConfig({ HOST: "0.0.0.0", ALLOWED_ORIGINS: "https://review.example.com, http://localhost:8080" });
+    assert.equal(config.host, "0.0.0.0");
+    assert.deepEqual(config.allowedOrigins, ["https://review.example.com", "http://localhost:8080"]);
+    assert.deepEqual(loadConfig({ ALLOWED_ORIGINS: "" }).allowedOrigins, []);
+  });
+
+  it("reads the static analyzers to run", () => {
+    assert.deepEqual(loadConfig({}).analysis.analyzers, ["typescript", "eslint", "python"]);
+    assert.deepEqual(loadConfig({ STATIC_ANALYZERS: " ESLint , python" }).analysis.analyzers, ["eslint", "python"]);
+    assert.deepEqual(loadConfig({ STATIC_ANALYZERS: "none" }).analysis.analyzers, []);
+    assert.throws(() => loadConfig({ STATIC_ANALYZERS: "pylint" }), /Unknown STATIC_ANALYZERS "pylint"/);
+  });
+
+  it("verifies corrections without running them unless asked to", () => {
+    assert.equal(loadConfig({}).analysis.verify, "static");
+    assert.equal(loadConfig({ VERIFY_CORRECTIONS: "RUN" }).analysis.verify, "run");
+    assert.throws(() => loadConfig({ VERIFY_CORRECTIONS: "always" }), /Unknown VERIFY_CORRECTIONS "always"/);
+  });
+
+  it("only reads repositories below the server's directory unless told otherwise", () => {
+    assert.deepEqual(loadConfig({}).repository.roots, [process.cwd()]);
+    assert.deepEqual(loadConfig({ REPO_ROOTS: "/srv/repos, /home/me/code" }).repository.roots, ["/srv/repos", "/home/me/code"]);
+  });
+
+  it("rejects unknown providers", () => {
+    assert.throws(() => loadConfig({ LLM_PROVIDER: "gpt" }), /Unknown LLM_PROVIDER "gpt"/);
+  });
+});
@@ -0,0 +1,158 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import { mkdir, mkdtemp, rm, symlink, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { readChange, readRepository } from "../../server/sources/git.js";
+
+const limits = { roots: [], maxFiles: 100, maxTotalBytes: 1024 * 1024, maxFileBytes: 1024 * 1024 };
+
+const git = (cwd, ...args) =>
+  execFileSync("git", ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args], { cwd, encoding: "utf8" });
+
+describe("git sources", () => {
+  let root;
+  let outside;
+
+  before(async () => {
+    root = await mkdtemp(join(tmpdir(), "code-amplifier-git-"));
+    outside = await mkdtemp(join(tmpdir(), "code-amplifier-outside-"));
+    await mkdir(join(root, "src", "lib"), { recursive: true });
+    await writeFile(join(root, "README.md"), "# Demo\n");
+    await writeFile(join(root, ".gitignore"), "*.log\n");
+    await writeFile(join(root, "src", "a.js"), "export const a = 1;\n");
+    await writeFile(join(root, "src", "lib", "b.js"), "export const b = 1;\n");
+    git(root, "init", "-q");
+    git(root, "add", "-A");
+    git(root, "commit", "-q", "-m", "first");
+    await writeFile(join(root, "README.md"), "# Demo\n\nChanged.\n");
+    await writeFile(join(root, "src", "a.js"), "export const a = 2;\n");
+    await writeFile(join(root, "src", "lib", "b.js"), "export const b = 2;\n");
+    git(root, "commit", "-q", "-am", "second");
+    await writeFile(join(root, "src", "a.js"), "export const a = 3;\n");
+    await writeFile(join(root, "src", "new.js"), "export const n = 1;\n");
+    await writeFile(join(root, "src", "debug.log"), "ignored\n");
+    await writeFile(join(root, "src", "logo.png"), Buffer.from([137, 80, 78, 71, 0, 0]));
+
+    await writeFile(join(outside, "secret.js"), "export const secret = 1;\n");
+    git(outside, "init", "-q");
+    await symlink(outside, join(root, "escape"));
+  });
+
+  after(async () => {
+    await rm(root, { recursive: true, force: true });
+    await rm(outside, { recursive: true, force: true });
+  });
+
+  it("reads a working tree as it is on disk, without ignored or binary files", async () => {
+    const { commit, files, skipped } = await readRepository(join(root, "src"), {}, limits);
+    assert.match(commit, /^[0-9a-f]{40}$/);
+    assert.deepEqual(
+      files.map(({ path, content }) => [path, content]),
+      [
+        ["a.js", "export const a = 3;\n"],
+        ["lib/b.js", "export const b = 2;\n"],
+        ["new.js", "export const n = 1;\n"],
+      ]
+    );
+    assert.deepEqual(skipped, [{ path: "logo.png", reason: "binary" }]);
+  });
+
+  it("reads the files of a commit from a subdirectory", async () => {
+    const { files } = await readRepository(join(root, "src"), { ref: "HEAD~1" }, limits);
+    assert.deepEqual(
+      files.map(({ path, content }) => [path, content]),
+      [
+        ["a.js", "export const a = 1;\n"],
+        ["lib/b.js", "export const b = 1;\n"],
+      ]
+    );
+  });
+
+  it("reads a change between commits from the repository root", async () => {
+    const change = await readChange(root, { base: "HEAD~1", head: "HEAD" }, limits);
+    assert.deepEqual(
+      change.files.map(({ path, content }) => [path, content]),
+      [
+        ["README.md", "# Demo\n\nChanged.\n"],
+        ["src/a.js", "export const a = 2;\n"],
+        ["src/lib/b.js", "export const b = 2;\n"],
+      ]
+    );
+  });
+
+  it("reads a change between commits from a subdirectory", async () => {
+    const change = await readChange(join(root, "src"), { base: "HEAD~1", head: "HEAD" }, limits);
+    assert.match(change.diff, /^diff --git a\/a\.js b\/a\.js$/m);
+    assert.deepEqual(
+      change.files.map(({ path, content }) => [path, content]),
+      [
+        ["a.js", "export const a = 2;\n"],
+        ["lib/b.js", "export const b = 2;\n"],
+      ]
+    );
+  });
+
+  it("reads a change between a commit and the working tree", async () => {
+    const change = await readChange(join(root, "src"), { base: "HEAD" }, limits);
+    assert.equal(change.head, null);
+    assert.deepEqual(
+      change.files.map(({ path, content }) => [path, content]),
+      [["a.js", "export const a = 3;\n"]]
+    );
+  });
+
+  it("reads neither symlinks nor submodules of a change", async () => {
+    const repo = await mkdtemp(join(tmpdir(), "code-amplifier-links-"));
+    const module = await mkdtemp(join(tmpdir(), "code-amplifier-module-"));
+    try {
+      await writeFile(join(module, "m.js"), "export const m = 1;\n");
+      git(module, "init", "-q");
+      git(module, "add", "-A");
+      git(module, "commit", "-q", "-m", "module");
+      await writeFile(join(repo, "a.js"), "export const a = 1;\n");
+      git(repo, "init", "-q");
+      git(repo, "add", "-A");
+      git(repo, "commit", "-q", "-m", "first");
+      await writeFile(join(repo, "a.js"), "export const a = 2;\n");
+      await symlink(join(outside, "secret.js"), join(repo, "link.js"));
+      git(repo, "-c", "protocol.file.allow=always", "submodule", "add", "-q", module, "sub");
+      git(repo, "add", "-A");
+      git(repo, "commit", "-q", "-m", "second");
+
+      for (const head of ["HEAD", undefined]) {
+        const change = await readChange(repo, { base: "HEAD~1", head }, limits);
+        assert.match(change.diff, /link\.js/);
+        assert.deepEqual(
+          change.files.map((file) => file.path),
+          [".gitmodules", "a.js"]
+        );
+      }
+    } finally {
+      await rm(repo, { recursive: true, force: true });
+      await rm(module, { recursive: true, force: true });
+    }
+  });
+
+  it("rejects refs that could be options and commits that do not exist", async () => {
+    await assert.rejects(readRepository(root, { ref: "--output=x" }, limits), /Invalid ref/);
+    await assert.rejects(readRepository(root, { ref: "nope" }, limits), /Unknown commit or branch: nope/);
+  });
+
+  it("enforces the file limits before reading", async () => {
+    await assert.rejects(readRepository(root, {}, { ...limits, maxFiles: 2 }), /more than the limit of 2/);
+    const { skipped } = await readRepository(join(root, "src"), {}, { ...limits, maxFileBytes: 5 });
+    assert.ok(skipped.some((file) => file.path === "a.js" && file.reason === "too-large"));
+  });
+
+  it("only opens repositories below the configured roots", async () => {
+    await assert.rejects(readRepository(root, {}, { ...limits, roots: [join(root, "src")] }), /can only be read from/);
+    await assert.rejects(readChange(root, { base: "HEAD~1" }, { ...limits, roots: [join(root, "src")] }), /can only be read from/);
+    assert.equal((await readRepository(join(root, "src"), {}, { ...limits, roots: [root] })).files.length, 3);
+  });
+
+  it("does not follow a symlink below a root out of it", async () => {
+    await assert.rejects(readRepository(join(root, "escape"), {}, { ...limits, roots: [root] }), /can only be read from/);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createMockProvider, extractCode, reviewCode, writeTests } from "../../server/providers/mock.js";
+
+describe("mock provider", () => {
+  it("reviews the code of a fenced block", () => {
+    assert.equal(extractCode("Review this:\n```js\nlet a = 1;\n```\nThanks"), "let a = 1;");
+    assert.equal(extractCode("no fence"), "no fence");
+  });
+
+  it("reports one finding per matching rule and line, with a correction", () => {
+    const review = reviewCode("var a = 1;\nif (a == 1) eval(input);\n// TODO");
+    assert.deepEqual(
+      review.findings.map(({ startLine, severity, category }) => [startLine, severity, category]),
+      [
+        [1, "low", "best-practice"],
+        [2, "high", "security"],
+        [2, "medium", "bug"],
+        [3, "info", "maintainability"],
+      ]
+    );
+    assert.equal(review.score, 60);
+    assert.equal(review.correctedCode, "let a = 1;\nif (a === 1) eval(input);\n// TODO");
+    assert.equal(reviewCode("const ok = 1;").correctedCode, null);
+  });
+
+  it("answers the first user message the same way every time", async () => {
+    const provider = createMockProvider({ model: "mock-reviewer", endpoint: "" });
+    const messages = [
+      { role: "user", content: "```py\ntry:\n    run()\nexcept:\n    pass\n```" },
+      { role: "assistant", content: "..." },
+      { role: "user", content: "Please fix the JSON" },
+    ];
+    const reply = JSON.parse(await provider.chat(messages, { json: true }));
+    assert.equal(reply.summary, "Found 1 issue(s).");
+    assert.equal(reply.correctedCode, "try:\n    run()\nexcept Exception:\n    pass");
+    assert.deepEqual(JSON.parse(await provider.chat(messages, { json: true })), reply);
+    assert.match(await provider.chat(messages), /Line 3 \(bug\): Avoid bare except clauses/);
+  });
+
+  it("writes one test per exported function", () => {
+    const tests = writeTests('Write unit tests\nImport the code under test from "./math"\n```ts\nexport function add() {}\nexport const sub = 1;\n```');
+    assert.match(tests, /import \* as subject from "\.\/math";/);
+    assert.match(tests, /expect\(subject\.add\)/);
+    assert.match(tests, /expect\(subject\.sub\)/);
+    assert.match(writeTests('Write unit tests with "import util"\n```py\ndef double(x):\n    pass\n```'), /def test_double_is_defined/);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { BUILT_IN_PROFILES, appliesTo, applyPatternRules, applyProfile, normalizeRules, resolveProfile } from "../../server/analysis/profiles.js";
+
+const security = BUILT_IN_PROFILES.find((profile) => profile.id === "security");
+
+describe("resolveProfile", () => {
+  it("uses the built-in profile for a missing value or an id", () => {
+    assert.equal(resolveProfile(undefined).id, "default");
+    assert.equal(resolveProfile("security"), security);
+    assert.throws(() => resolveProfile("nope"), /Unknown review profile "nope"/);
+  });
+
+  it("fills the fields an edited profile leaves out from the built-in one", () => {
+    const profile = resolveProfile({ id: "security", systemPrompt: " ", categories: ["security", "style", "unknown"], weights: { security: 2, bug: -1 } });
+    assert.equal(profile.name, security.name);
+    assert.equal(profile.systemPrompt, security.systemPrompt);
+    assert.deepEqual(profile.categories, ["security", "style"]);
+    assert.deepEqual(profile.weights, { security: 2 });
+    assert.equal(resolveProfile({ id: "security", weights: null }).weights, null);
+  });
+
+  it("rejects a profile without categories", () => {
+    assert.throws(() => resolveProfile({ categories: [] }), /at least one category/);
+    assert.throws(() => resolveProfile(3), /profile must be an id or an object/);
+  });
+});
+
+describe("normalizeRules", () => {
+  it("fills in defaults and drops global and sticky flags", () => {
+    const [rule] = normalizeRules([{ message: " No console ", pattern: "console\\.", flags: "gi", files: "src/**/*.ts" }]);
+    assert.deepEqual(rule, {
+      id: "rule-1",
+      message: "No console",
+      severity: "medium",
+      category: "best-practice",
+      suggestedFix: "",
+      files: "src/**/*.ts",
+      pattern: "console\\.",
+      flags: "i",
+    });
+  });
+
+  it("reports the first invalid rule", () => {
+    assert.throws(() => normalizeRules({}), /rules must be an array/);
+    assert.throws(() => normalizeRules([{ message: "ok" }, { message: "" }]), /rules\[1\]\.message is required/);
+    assert.throws(() => normalizeRules([{ message: "x", severity: "fatal" }]), /severity "fatal" is not allowed/);
+    assert.throws(() => normalizeRules([{ message: "x", pattern: "(" }]), /rules\[0\]\.pattern is not a valid regular expression/);
+  });
+});
+
+describe("appliesTo", () => {
+  it("matches `files` globs against the path", () => {
+    const rule = (files) => ({ files });
+    assert.ok(appliesTo({}, "any/file.js"));
+    assert.ok(appliesTo(rule("*.test.ts"), "src/deep/a.test.ts"));
+    assert.ok(appliesTo(rule("src/**/*.ts"), "src/a.ts"));
+    assert.ok(appliesTo(rule("src/**/*.ts"), "src\\deep\\a.ts"));
+    assert.ok(!appliesTo(rule("src/*.ts"), "src/deep/a.ts"));
+    assert.ok(!appliesTo(rule("src/**/*.ts"), "lib/a.ts"));
+  });
+});
+
+describe("applyPatternRules", () => {
+  it("reports every matching line of the files a rule applies to", () => {
+    const rules = normalizeRules([
+      { id: "no-console", message: "Remove console output", pattern: "console\\.log", severity: "low" },
+      { message: "Only for tests", pattern: ".", files: "*.test.js" },
+      { message: "Natural-language rule" },
+    ]);
+    const findings = applyPatternRules({ path: "src/a.js", content: "console.log(1);\nrun();\nconsole.log(2);" }, rules);
+    assert.deepEqual(
+      findings.map(({ startLine, severity, message }) => [startLine, severity, message]),
+      [
+        [1, "low", "Remove console output (no-console)"],
+        [3, "low", "Remove console output (no-console)"],
+      ]
+    );
+  });
+});
+
+describe("applyProfile", () => {
+  const file = { path: "a.js", content: "debugger;\nok();" };
+  const review = {
+    score: 90,
+    findings: [
+      { severity: "high", category: "security", startLine: 2, endLine: 2, message: "s", suggestedFix: "" },
+      { severity: "low", category: "style", startLine: 1, endLine: 1, message: "t", suggestedFix: "" },
+    ],
+  };
+  const rules = normalizeRules([{ message: "No debugger", pattern: "debugger", severity: "medium", category: "bug" }]);
+
+  it("drops disabled categories and recomputes a weighted score", () => {
+    const result = applyProfile(review, file, security, rules);
+    assert.deepEqual(
+      result.findings.map((finding) => finding.category),
+      ["bug", "security"]
+    );
+    assert.equal(result.score, 100 - 8 * 1.5 - 15 * 3);
+  });
+
+  it("keeps the model's score without weights, less the rule matches", () => {
+    const result = applyProfile(review, file, resolveProfile("default"), rules);
+    assert.equal(result.findings.length, 3);
+    assert.equal(result.score, 90 - 8);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { REPORT_FORMATS, evaluateGate, summarize } from "../../server/reports/index.js";
+
+const finding = (severity, startLine = 1) => ({ severity, category: "bug", startLine, endLine: startLine, message: `${severity} <issue>`, suggestedFix: "" });
+
+const files = [
+  { path: "a.js", score: 90, summary: "Fine", findings: [finding("low")], timeMs: 10 },
+  { path: "b.js", score: 40, summary: "Risky & slow", findings: [finding("critical", 3), finding("medium", 1)], timeMs: 20 },
+  { path: "c.js", error: "Model unavailable", timeMs: 5 },
+];
+
+const report = (gate) => ({
+  version: "abc",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  root: "/work/app",
+  commit: null,
+  provider: "mock",
+  model: "mock-reviewer",
+  profile: { id: "default", name: "Balanced" },
+  files,
+  skipped: [],
+  gate: { ...gate, failures: evaluateGate(files, gate) },
+});
+
+describe("evaluateGate", () => {
+  it("fails files below the score or with severe enough findings, and skips errors", () => {
+    assert.deepEqual(evaluateGate(files), []);
+    assert.deepEqual(evaluateGate(files, { minScore: 50 }), [{ path: "b.js", reasons: ["score 40 is below 50"] }]);
+    assert.deepEqual(evaluateGate(files, { failOn: "medium" }), [{ path: "b.js", reasons: ["2 findings of severity medium or higher"] }]);
+  });
+});
+
+describe("summarize", () => {
+  it("averages the scores of the reviewed files", () => {
+    const summary = summarize(report({}));
+    assert.equal(summary.reviewed, 2);
+    assert.equal(summary.errors, 1);
+    assert.equal(summary.averageScore, 65);
+    assert.equal(summary.bySeverity.critical, 1);
+  });
+});
+
+describe("REPORT_FORMATS", () => {
+  it("reports review errors in SARIF and JUnit", () => {
+    const sarif = JSON.parse(REPORT_FORMATS.sarif(report({})));
+    assert.equal(sarif.runs[0].invocations[0].executionSuccessful, false);
+    assert.equal(sarif.runs[0].invocations[0].toolExecutionNotifications[0].message.text, "Model unavailable");
+    assert.equal(sarif.runs[0].originalUriBaseIds.SRCROOT.uri, "file:///work/app/");
+
+    const junit = REPORT_FORMATS.junit(report({ minScore: 50 }));
+    assert.match(junit, /tests="3" failures="1" errors="1"/);
+    assert.match(junit, /<error message="Model unavailable"\/>/);
+    assert.match(junit, /L3 \[critical\/bug\] critical &lt;issue&gt;/);
+    assert.match(junit, /Risky &amp; slow/);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { loadConfig } from "../../server/config.js";
+import { createResultCache } from "../../server/analysis/cache.js";
+import { resolveProfile } from "../../server/analysis/profiles.js";
+import { createProjectStore } from "../../server/analysis/project.js";
+import { createReviewer } from "../../server/analysis/reviewer.js";
+import { createProvider } from "../../server/providers/index.js";
+
+const file = (path, content) => ({ name: path.split("/").pop(), path, extension: "js", content });
+const settings = { profile: resolveProfile(), rules: [] };
+
+async function setup() {
+  const config = loadConfig({ LLM_PROVIDER: "mock", STATIC_ANALYZERS: "none", VERIFY_CORRECTIONS: "off" });
+  const projects = createProjectStore();
+  const reviewer = createReviewer({
+    config,
+    provider: createProvider(config.llm),
+    cache: await createResultCache(),
+    projects,
+    run: async () => null,
+  });
+  return { projects, reviewer };
+}
+
+describe("createReviewer", () => {
+  it("reviews a file with the mock provider and answers repeats from the cache", async () => {
+    const { reviewer } = await setup();
+    const source = file("src/a.js", "var total = 1;\nif (total == 1) eval(input);\n");
+    const first = await reviewer.reviewFile(source, undefined, settings);
+    assert.equal(first.cached, undefined);
+    assert.deepEqual(first.findings.map((finding) => finding.category).sort(), ["best-practice", "bug", "security"]);
+    assert.equal((await reviewer.reviewFile(source, undefined, settings)).cached, true);
+  });
+
+  it("does not reuse a review for the same content at another path", async () => {
+    const { reviewer } = await setup();
+    await reviewer.reviewFile(file("src/a.js", "eval(x);\n"), undefined, settings);
+    assert.equal((await reviewer.reviewFile(file("lib/a.js", "eval(x);\n"), undefined, settings)).cached, undefined);
+  });
+
+  it("does not reuse a review when the related code changed", async () => {
+    const { projects, reviewer } = await setup();
+    const caller = file("a.js", 'import { b } from "./b.js";\nb();\n');
+    const first = projects.create([caller, file("b.js", "export function b() { return 1; }\n")]);
+    const second = projects.create([caller, file("b.js", "export function b(value) { return value; }\n")]);
+    const unchanged = projects.create([caller, file("b.js", "export function b() { return 1; }\n")]);
+
+    assert.notEqual(reviewer.contextKeys(first)["a.js"], reviewer.contextKeys(second)["a.js"]);
+    assert.equal(reviewer.contextKeys(first)["a.js"], reviewer.contextKeys(unchanged)["a.js"]);
+
+    await reviewer.reviewFile(caller, first.id, settings);
+    assert.equal((await reviewer.reviewFile(caller, second.id, settings)).cached, undefined);
+    assert.equal((await reviewer.reviewFile(caller, unchanged.id, settings)).cached, true);
+  });
+});
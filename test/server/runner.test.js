@@ -0,0 +1,84 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { runCode } from "../../server/execution/runner.js";
+
+const limits = {
+  cpuSeconds: 2,
+  memoryMb: 128,
+  maxOutputBytes: 1024,
+  timeoutMs: 5000,
+  maxConcurrent: 1,
+  python: "python3",
+  shell: "bash",
+};
+
+describe("runCode", () => {
+  it("runs JavaScript with stdin and reports its output", async () => {
+    const source = 'let input = "";\nprocess.stdin.on("data", (d) => (input += d));\nprocess.stdin.on("end", () => console.log(input.toUpperCase()));';
+    const result = await runCode({ language: "javascript", source, stdin: "hello" }, limits);
+    assert.equal(result.status, "success");
+    assert.equal(result.stdout, "HELLO\n");
+    assert.equal(result.exitCode, 0);
+    assert.equal(result.outputTruncated, false);
+  });
+
+  it("transpiles TypeScript before running it", async () => {
+    const result = await runCode({ language: "typescript", source: "const total: number = [1, 2].reduce((a, b) => a + b);\nconsole.log(total);" }, limits);
+    assert.equal(result.stdout, "3\n");
+  });
+
+  it("runs Python and shell programs", async () => {
+    assert.equal((await runCode({ language: "python", source: "print(6 * 7)" }, limits)).stdout, "42\n");
+    assert.equal((await runCode({ language: "shell", source: 'echo "$HOME" | grep -c code-amplifier-' }, limits)).stdout, "1\n");
+  });
+
+  it("reports a failing program as a runtime error", async () => {
+    const result = await runCode({ language: "shell", source: "echo oops >&2; exit 3" }, limits);
+    assert.equal(result.status, "runtime_error");
+    assert.equal(result.exitCode, 3);
+    assert.equal(result.stderr, "oops\n");
+  });
+
+  it("does not pass the server's environment on", async () => {
+    process.env.CODE_AMPLIFIER_SECRET = "secret";
+    try {
+      const result = await runCode({ language: "shell", source: 'echo "[$CODE_AMPLIFIER_SECRET]"' }, limits);
+      assert.equal(result.stdout, "[]\n");
+    } finally {
+      delete process.env.CODE_AMPLIFIER_SECRET;
+    }
+  });
+
+  it("stops a program at the wall-clock limit", async () => {
+    const result = await runCode({ language: "shell", source: "sleep 5" }, { ...limits, timeoutMs: 200 });
+    assert.equal(result.status, "timeout");
+    assert.ok(result.timeMs < 2000);
+  });
+
+  it("stops a program at the CPU limit", async () => {
+    const result = await runCode({ language: "javascript", source: "for (;;) {}" }, { ...limits, cpuSeconds: 1 });
+    assert.equal(result.status, "timeout");
+  });
+
+  it("truncates output at the limit and stops the program", async () => {
+    const result = await runCode({ language: "javascript", source: 'for (;;) process.stdout.write("x".repeat(100));' }, limits);
+    assert.equal(result.status, "output_limit");
+    assert.equal(result.outputTruncated, true);
+    assert.equal(result.stdout, "x".repeat(limits.maxOutputBytes));
+  });
+
+  it("decodes characters written in pieces", async () => {
+    const source = "process.stdout.write(Buffer.from([0xc3]));\nsetTimeout(() => process.stdout.write(Buffer.from([0xa9, 0x0a])), 50);";
+    assert.equal((await runCode({ language: "javascript", source }, limits)).stdout, "é\n");
+  });
+
+  it("counts the output limit in bytes and never splits a character", async () => {
+    const result = await runCode({ language: "javascript", source: 'for (;;) process.stdout.write("é".repeat(100));' }, { ...limits, maxOutputBytes: 1023 });
+    assert.equal(result.status, "output_limit");
+    assert.equal(result.stdout, "é".repeat(511));
+  });
+
+  it("rejects unknown languages", async () => {
+    await assert.rejects(runCode({ language: "cobol", source: "" }, limits), /Unsupported language "cobol"/);
+  });
+});
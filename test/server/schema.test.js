@@ -0,0 +1,81 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { repairJson, validateReview } from "../../server/analysis/schema.js";
+
+describe("repairJson", () => {
+  it("parses a plain object", () => {
+    assert.deepEqual(repairJson('{"score": 80}'), { score: 80 });
+  });
+
+  it("strips code fences and <think> blocks", () => {
+    const reply = '<think>The {score} should be high</think>\n```json\n{"score": 90, "findings": []}\n```';
+    assert.deepEqual(repairJson(reply), { score: 90, findings: [] });
+  });
+
+  it("takes the outermost object out of surrounding prose", () => {
+    assert.deepEqual(repairJson('Here is the review: {"a": {"b": 1}} Hope this helps.'), { a: { b: 1 } });
+  });
+
+  it("drops trailing commas", () => {
+    assert.deepEqual(repairJson('{"findings": [1, 2,], "score": 3,}'), { findings: [1, 2], score: 3 });
+  });
+
+  it("returns null when there is no object to recover", () => {
+    assert.equal(repairJson("no json here"), null);
+    assert.equal(repairJson("} {"), null);
+    assert.equal(repairJson('{"score": }'), null);
+  });
+});
+
+describe("validateReview", () => {
+  const finding = { severity: "high", category: "security", startLine: 3, message: "SQL injection" };
+
+  it("normalizes a valid review", () => {
+    const { review, errors } = validateReview({
+      summary: "  Mostly fine  ",
+      score: 104.6,
+      findings: [{ ...finding, severity: "HIGH", category: "Best Practice", endLine: 1, suggestedFix: " Use parameters " }],
+    });
+    assert.deepEqual(errors, []);
+    assert.deepEqual(review, {
+      summary: "Mostly fine",
+      score: 100,
+      findings: [
+        {
+          severity: "high",
+          category: "best-practice",
+          startLine: 1,
+          endLine: 3,
+          message: "SQL injection",
+          suggestedFix: "Use parameters",
+        },
+      ],
+      correctedCode: undefined,
+    });
+  });
+
+  it("accepts `line` for `startLine` and clamps lines to the file", () => {
+    const { review } = validateReview({ score: 50, findings: [{ severity: "low", line: "12", message: "x" }] }, 10);
+    assert.equal(review.findings[0].startLine, 10);
+    assert.equal(review.findings[0].endLine, 10);
+    assert.equal(review.findings[0].category, "other");
+  });
+
+  it("unwraps fenced corrected code and ignores blank corrections", () => {
+    assert.equal(validateReview({ score: 1, findings: [], correctedCode: "```js\nlet a = 1;\n```" }).review.correctedCode, "let a = 1;\n");
+    assert.equal(validateReview({ score: 1, findings: [], correctedCode: "  " }).review.correctedCode, undefined);
+  });
+
+  it("reports what cannot be trusted", () => {
+    assert.deepEqual(validateReview([]), { review: null, errors: ["Reply is not a JSON object"] });
+    assert.deepEqual(validateReview({ score: "high", findings: {} }).errors, [
+      '"score" must be a number between 0 and 100',
+      '"findings" must be an array',
+    ]);
+    assert.deepEqual(validateReview({ score: 70, findings: [{ severity: "fatal", startLine: 0, message: "" }] }).errors, [
+      'findings[0].severity "fatal" is not allowed',
+      "findings[0].message is required",
+      "findings[0].startLine must be a positive integer",
+    ]);
+  });
+});
@@ -0,0 +1,77 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { spawn } from "node:child_process";
+import { once } from "node:events";
+
+const PORT = 40000 + Math.floor(Math.random() * 10000);
+const URL = `http://127.0.0.1:${PORT}`;
+const UI_ORIGIN = "http://localhost:5173";
+
+const post = (path, body, headers = {}) =>
+  fetch(`${URL}${path}`, { method: "POST", headers: { "Content-Type": "application/json", ...headers }, body: JSON.stringify(body) });
+
+describe("server.js", () => {
+  let server;
+
+  before(async () => {
+    server = spawn(process.execPath, ["server.js"], {
+      env: { ...process.env, LLM_PROVIDER: "mock", PORT: String(PORT), ALLOWED_ORIGINS: UI_ORIGIN },
+      stdio: ["ignore", "pipe", "inherit"],
+    });
+    let output = "";
+    while (!output.includes("Server running")) {
+      const [chunk] = await Promise.race([once(server.stdout, "data"), once(server, "exit").then(() => [""])]);
+      if (server.exitCode !== null) throw new Error("The server exited during startup");
+      output += chunk;
+    }
+    assert.match(output, new RegExp(`Server running on http://127\\.0\\.0\\.1:${PORT}`));
+  });
+
+  after(() => server.kill());
+
+  it("runs code for the UI's origin and for requests without one", async () => {
+    const source = "echo ran";
+    const fromUi = await post("/run", { language: "shell", source }, { Origin: UI_ORIGIN });
+    assert.equal(fromUi.headers.get("access-control-allow-origin"), UI_ORIGIN);
+    assert.equal((await fromUi.json()).stdout, "ran\n");
+    assert.equal((await (await post("/run", { language: "shell", source })).json()).stdout, "ran\n");
+  });
+
+  it("turns away requests from other origins before running anything", async () => {
+    const response = await post("/run", { language: "shell", source: "echo ran" }, { Origin: "http://evil.example" });
+    assert.equal(response.status, 403);
+    assert.deepEqual(await response.json(), { error: "Origin not allowed: http://evil.example" });
+  });
+
+  it("answers a repeated review from the cache", async () => {
+    const file = { path: "src/a.js", extension: "js", content: "eval(input);\n" };
+    const first = await (await post("/analyze", { file })).json();
+    assert.equal(first.cached, undefined);
+    assert.equal(first.findings[0].category, "security");
+    assert.equal((await (await post("/analyze", { file })).json()).cached, true);
+    assert.equal((await (await post("/analyze", { file: { ...file, path: "lib/a.js" } })).json()).cached, undefined);
+  });
+
+  it("keys each project file by the related code it is reviewed with", async () => {
+    const caller = { path: "a.js", extension: "js", content: 'import { b } from "./b.js";\nb();\n' };
+    const register = async (content) =>
+      (await post("/project", { files: [caller, { path: "b.js", extension: "js", content }] })).json();
+    const first = await register("export function b() { return 1; }\n");
+    const changed = await register("export function b(value) { return value; }\n");
+    const same = await register("export function b() { return 1; }\n");
+    assert.notEqual(first.contextKeys["a.js"], changed.contextKeys["a.js"]);
+    assert.equal(first.contextKeys["a.js"], same.contextKeys["a.js"]);
+
+    const review = async (projectId) => (await post("/analyze", { file: caller, projectId })).json();
+    assert.equal((await review(first.projectId)).cached, undefined);
+    assert.equal((await review(changed.projectId)).cached, undefined);
+    assert.equal((await review(same.projectId)).cached, true);
+  });
+
+  it("only allows the UI's origin in preflight requests", async () => {
+    const preflight = (origin) =>
+      fetch(`${URL}/run`, { method: "OPTIONS", headers: { Origin: origin, "Access-Control-Request-Method": "POST" } });
+    assert.equal((await preflight(UI_ORIGIN)).headers.get("access-control-allow-origin"), UI_ORIGIN);
+    assert.equal((await preflight("http://evil.example")).status, 403);
+  });
+});
@@ -0,0 +1,20 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { runStaticAnalysis } from "../../server/analysis/static/index.js";
+
+describe("runStaticAnalysis", () => {
+  it("reports TypeScript errors tagged with their analyzer", async () => {
+    const file = { path: "src/a.ts", extension: "ts", content: "const total: number = 'one';\n" };
+    const { analyzers, findings } = await runStaticAnalysis(file, { analyzers: ["typescript"] });
+    assert.deepEqual(analyzers, ["typescript"]);
+    assert.equal(findings.length, 1);
+    assert.equal(findings[0].source, "typescript");
+    assert.equal(findings[0].startLine, 1);
+    assert.match(findings[0].message, /not assignable to type 'number'/);
+  });
+
+  it("only runs the analyzers that understand the file", async () => {
+    const file = { path: "notes.md", extension: "md", content: "# Notes\n" };
+    assert.deepEqual(await runStaticAnalysis(file), { analyzers: [], findings: [] });
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Readable } from "node:stream";
+import { readLines, readSseData } from "../../server/providers/stream.js";
+
+// Splits the UTF-8 bytes of `text` into chunks of `size` bytes, cutting through characters
+const chunked = (text, size) => {
+  const bytes = Buffer.from(text);
+  const chunks = [];
+  for (let offset = 0; offset < bytes.length; offset += size) chunks.push(bytes.subarray(offset, offset + size));
+  return Readable.from(chunks);
+};
+
+const collect = async (lines) => {
+  const result = [];
+  for await (const line of lines) result.push(line);
+  return result;
+};
+
+describe("readLines", () => {
+  it("keeps characters split across chunks intact", async () => {
+    assert.deepEqual(await collect(readLines(chunked("héllo wörld\r\n日本語 🚀\nlast ✓", 1))), ["héllo wörld", "日本語 🚀", "last ✓"]);
+  });
+});
+
+describe("readSseData", () => {
+  it("yields each data payload until [DONE]", async () => {
+    const stream = chunked('data: {"text":"é"}\n\n: comment\ndata: {"text":"🚀"}\n\ndata: [DONE]\n\ndata: {"text":"late"}\n', 3);
+    assert.deepEqual(await collect(readSseData(stream)), [{ text: "é" }, { text: "🚀" }]);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { runTests, testSetupFor } from "../../server/execution/tests.js";
+
+const limits = {
+  cpuSeconds: 5,
+  memoryMb: 256,
+  maxOutputBytes: 64 * 1024,
+  timeoutMs: 10000,
+  maxConcurrent: 1,
+  python: "python3",
+  shell: "bash",
+};
+
+describe("testSetupFor", () => {
+  it("names tests next to the file in the language's convention", () => {
+    assert.deepEqual(testSetupFor({ path: "src/math.ts", extension: "ts" }), {
+      language: "javascript",
+      framework: "Vitest",
+      importName: "./math",
+      testPath: "src/math.test.ts",
+    });
+    assert.deepEqual(testSetupFor({ path: "../pkg/util.py", extension: "py" }), {
+      language: "python",
+      framework: "unittest",
+      importName: "util",
+      testPath: "pkg/test_util.py",
+    });
+    assert.equal(testSetupFor({ path: "main.go", extension: "go" }), null);
+  });
+});
+
+describe("runTests", () => {
+  it("reports each JavaScript test, with imports from the rest of the project", async () => {
+    const file = { path: "src/math.ts", extension: "ts", content: "" };
+    const tests = `import { describe, it, expect } from "vitest";
+import { add } from "./math";
+
+describe("add", () => {
+  it("adds", () => expect(add(1, 2)).toBe(3));
+  it("doubles", () => expect(add(2, 2)).toBe(5));
+});`;
+    const code = 'import { offset } from "./offset";\nexport const add = (a: number, b: number) => a + b + offset;';
+    const projectFiles = [{ path: "src/offset.ts", extension: "ts", content: "export const offset = 0;" }];
+    const outcome = await runTests({ file, code, tests, setup: testSetupFor(file), projectFiles }, limits);
+    assert.deepEqual(
+      outcome.tests.map(({ name, status }) => [name, status]),
+      [
+        ["add > adds", "passed"],
+        ["add > doubles", "failed"],
+      ]
+    );
+    assert.equal(outcome.error, "");
+  });
+
+  it("runs Python unittest cases against the given code", async () => {
+    const file = { path: "util.py", extension: "py", content: "" };
+    const tests = "import unittest\n\nimport util\n\n\nclass TestUtil(unittest.TestCase):\n    def test_double(self):\n        self.assertEqual(util.double(2), 4)\n";
+    const setup = testSetupFor(file);
+    const passing = await runTests({ file, code: "def double(x):\n    return x * 2\n", tests, setup }, limits);
+    assert.deepEqual(passing.tests.map((test) => test.status), ["passed"]);
+    const failing = await runTests({ file, code: "def double(x):\n    return x + 1\n", tests, setup }, limits);
+    assert.deepEqual(failing.tests.map((test) => test.status), ["failed"]);
+  });
+
+  it("reports tests that do not load", async () => {
+    const file = { path: "a.js", extension: "js", content: "" };
+    const outcome = await runTests({ file, code: "export const a = 1;", tests: "this is not javascript", setup: testSetupFor(file) }, limits);
+    assert.deepEqual(outcome.tests, []);
+    assert.notEqual(outcome.error, "");
+  });
+});
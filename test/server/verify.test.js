@@ -0,0 +1,81 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { findRunTarget, verifyCorrection } from "../../server/analysis/verify.js";
+
+const error = (message, startLine = 1) => ({ source: "typescript", severity: "high", message, startLine });
+
+// Stands in for the static analyzers: reports the errors listed for each content
+const analyzerFor =
+  (errors = {}) =>
+  async (file) => ({ analyzers: ["typescript"], findings: errors[file.content] ?? [] });
+
+// Stands in for the sandbox: succeeds unless the source contains "fail"
+const runner = (calls = []) => async (language, source) => {
+  calls.push(source);
+  return source.includes("fail") ? { status: "runtime_error", stdout: "", stderr: "boom\n" } : { status: "success", stdout: "", stderr: "" };
+};
+
+describe("findRunTarget", () => {
+  it("finds tests and entry points", () => {
+    assert.equal(findRunTarget({ extension: "py", content: "def test_add():\n    assert 1" }).kind, "tests");
+    assert.equal(findRunTarget({ extension: "py", content: 'if __name__ == "__main__":\n    main()' }).kind, "entrypoint");
+    assert.equal(findRunTarget({ extension: "js", content: 'import test from "node:test";' }).kind, "tests");
+    assert.equal(findRunTarget({ extension: "cjs", content: "if (require.main === module) main();" }).kind, "entrypoint");
+    assert.equal(findRunTarget({ extension: "js", content: "export const a = 1;" }), null);
+    assert.equal(findRunTarget({ extension: "go", content: "func main() {}" }), null);
+  });
+
+  it("appends a harness that runs Python tests", () => {
+    const target = findRunTarget({ extension: "py", content: "def test_add():\n    assert 1" });
+    assert.match(target.prepare("def test_add():\n    assert 1"), /__verify_tests\(\)\n$/);
+  });
+});
+
+describe("verifyCorrection", () => {
+  const file = { path: "a.ts", extension: "ts", content: "original" };
+
+  it("verifies a correction that introduces no errors", async () => {
+    const result = await verifyCorrection(file, "fixed", { analyze: analyzerFor() });
+    assert.deepEqual(result, { status: "verified", checks: [{ name: "typescript", outcome: "passed", details: "" }], errors: [] });
+  });
+
+  it("only counts errors the original did not have", async () => {
+    const original = [error("Cannot find name 'x'.")];
+    const analyze = analyzerFor({ fixed: [error("Cannot find name 'x'.", 4)], broken: [error("Cannot find name 'x'."), error("';' expected.", 2)] });
+    assert.equal((await verifyCorrection(file, "fixed", { original, analyze })).status, "verified");
+
+    const broken = await verifyCorrection(file, "broken", { original, analyze });
+    assert.equal(broken.status, "broken");
+    assert.deepEqual(broken.errors, ["typescript:\nLine 2: ';' expected."]);
+  });
+
+  it("is untested when nothing could check the file", async () => {
+    const analyze = async () => ({ analyzers: [], findings: [] });
+    assert.equal((await verifyCorrection(file, "fixed", { analyze })).status, "untested");
+  });
+
+  it("runs code with tests, and only blames the fix when the original passed", async () => {
+    const tested = { path: "a.js", extension: "js", content: 'import "node:test";' };
+    const analyze = async () => ({ analyzers: [], findings: [] });
+
+    const calls = [];
+    const passing = await verifyCorrection(tested, 'import "node:test"; // fixed', { analyze, run: runner(calls) });
+    assert.equal(passing.status, "verified");
+    assert.equal(calls.length, 1);
+
+    const broken = await verifyCorrection(tested, 'import "node:test"; fail()', { analyze, run: runner() });
+    assert.equal(broken.status, "broken");
+    assert.deepEqual(broken.errors, ["tests:\nboom"]);
+
+    const alreadyFailing = { ...tested, content: 'import "node:test"; fail()' };
+    const inconclusive = await verifyCorrection(alreadyFailing, 'import "node:test"; fail(1)', { analyze, run: runner() });
+    assert.equal(inconclusive.status, "untested");
+    assert.equal(inconclusive.checks[0].outcome, "inconclusive");
+  });
+
+  it("does not run anything without a sandbox", async () => {
+    const tested = { path: "a.js", extension: "js", content: 'import "node:test";' };
+    const result = await verifyCorrection(tested, 'import "node:test"; fail()', { analyze: analyzerFor() });
+    assert.deepEqual(result.checks.map((check) => check.name), ["typescript"]);
+  });
+});
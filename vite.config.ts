@@ -1,10 +1,32 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
+import { copyFile, mkdir } from 'node:fs/promises';
+import { join } from 'node:path';
+
+// Pyodide loads its runtime files relative to its own module, so they have to sit
+// next to the bundled assets. In dev they are served straight from node_modules.
+const PYODIDE_FILES = ['pyodide-lock.json', 'pyodide.asm.js', 'pyodide.asm.wasm', 'python_stdlib.zip'];
+
+function pyodideAssets() {
+  return {
+    name: 'pyodide-assets',
+    async generateBundle() {
+      const assetsDir = join('dist', 'assets');
+      await mkdir(assetsDir, { recursive: true });
+      await Promise.all(
+        PYODIDE_FILES.map((file) => copyFile(join('node_modules', 'pyodide', file), join(assetsDir, file)))
+      );
+    },
+  };
+}
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), pyodideAssets()],
   optimizeDeps: {
-    exclude: ['lucide-react'],
+    exclude: ['lucide-react', 'pyodide'],
+  },
+  worker: {
+    format: 'es',
   },
 });